@@ -0,0 +1,8 @@
+ALTER TABLE "orders" ADD COLUMN "parent_order_id" uuid;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "orders" ADD CONSTRAINT "orders_parent_order_id_orders_id_fk" FOREIGN KEY ("parent_order_id") REFERENCES "public"."orders"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "orders_parent_order_id_idx" ON "orders" USING btree ("parent_order_id");
\ No newline at end of file
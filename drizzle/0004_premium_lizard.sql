@@ -0,0 +1,2 @@
+ALTER TABLE "orders" ADD COLUMN "expires_at" timestamp with time zone;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "orders_expires_at_idx" ON "orders" USING btree ("expires_at");
\ No newline at end of file
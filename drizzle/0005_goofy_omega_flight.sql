@@ -0,0 +1 @@
+ALTER TABLE "orders" ADD COLUMN "time_in_force" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "executions" ADD COLUMN "fee" numeric(20, 6) DEFAULT '0' NOT NULL;
\ No newline at end of file
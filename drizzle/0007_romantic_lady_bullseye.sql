@@ -0,0 +1 @@
+ALTER TABLE "orders" ADD COLUMN "price_cap" numeric(10, 6);
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "orders" ADD COLUMN "trigger_price" numeric(10, 6);--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "trigger_reference" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "triggered_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "triggered_reference_price" numeric(10, 6);
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "orders" ADD COLUMN "order_group_id" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "order_group_type" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "order_group_role" text;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "orders_order_group_idx" ON "orders" USING btree ("plan_id","order_group_id");
\ No newline at end of file
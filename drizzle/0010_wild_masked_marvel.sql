@@ -0,0 +1,4 @@
+ALTER TABLE "orders" ADD COLUMN "trailing_offset" numeric(10, 6);--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "trailing_percent" numeric(10, 4);--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "high_water_mark" numeric(10, 6);--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "high_water_mark_at" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "orders" ADD COLUMN "slice_count" integer;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "slice_interval_minutes" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "slices_placed" integer;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "next_slice_at" timestamp with time zone;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "orders_next_slice_at_idx" ON "orders" USING btree ("next_slice_at");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "orders" ADD COLUMN "size_unit" text DEFAULT 'usdc' NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "position_percent" numeric(7, 4);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "orders" ADD COLUMN "error_message" text;
\ No newline at end of file
@@ -0,0 +1,31 @@
+CREATE TABLE IF NOT EXISTS "positions" (
+	"market_token_id" text NOT NULL,
+	"outcome" text NOT NULL,
+	"mode" text NOT NULL,
+	"buy_quantity" numeric(20, 6) DEFAULT '0' NOT NULL,
+	"buy_total" numeric(30, 12) DEFAULT '0' NOT NULL,
+	"buy_fees" numeric(20, 6) DEFAULT '0' NOT NULL,
+	"sell_quantity" numeric(20, 6) DEFAULT '0' NOT NULL,
+	"sell_total" numeric(30, 12) DEFAULT '0' NOT NULL,
+	"sell_fees" numeric(20, 6) DEFAULT '0' NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "positions_market_token_id_outcome_mode_pk" PRIMARY KEY("market_token_id","outcome","mode")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "positions_mode_idx" ON "positions" USING btree ("mode");--> statement-breakpoint
+INSERT INTO "positions" ("market_token_id", "outcome", "mode", "buy_quantity", "buy_total", "buy_fees", "sell_quantity", "sell_total", "sell_fees", "updated_at")
+SELECT
+	"orders"."market_token_id",
+	"orders"."outcome",
+	"orders"."mode",
+	coalesce(sum("executions"."quantity") FILTER (WHERE "orders"."side" = 'BUY'), 0),
+	coalesce(sum("executions"."quantity" * "executions"."price") FILTER (WHERE "orders"."side" = 'BUY'), 0),
+	coalesce(sum("executions"."fee") FILTER (WHERE "orders"."side" = 'BUY'), 0),
+	coalesce(sum("executions"."quantity") FILTER (WHERE "orders"."side" = 'SELL'), 0),
+	coalesce(sum("executions"."quantity" * "executions"."price") FILTER (WHERE "orders"."side" = 'SELL'), 0),
+	coalesce(sum("executions"."fee") FILTER (WHERE "orders"."side" = 'SELL'), 0),
+	max("executions"."executed_at")
+FROM "executions"
+INNER JOIN "orders" ON "orders"."id" = "executions"."order_id"
+GROUP BY "orders"."market_token_id", "orders"."outcome", "orders"."mode"
+ON CONFLICT DO NOTHING;
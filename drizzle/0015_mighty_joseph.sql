@@ -0,0 +1,158 @@
+CREATE TABLE IF NOT EXISTS "lot_closures" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"execution_id" uuid NOT NULL,
+	"lot_id" uuid NOT NULL,
+	"method" text NOT NULL,
+	"quantity" numeric(20, 6) NOT NULL,
+	"cost" numeric(30, 12) NOT NULL,
+	"buy_fees" numeric(30, 12) NOT NULL,
+	"proceeds" numeric(30, 12) NOT NULL,
+	"sell_fees" numeric(30, 12) NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "position_lots" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"market_token_id" text NOT NULL,
+	"outcome" text NOT NULL,
+	"mode" text NOT NULL,
+	"execution_id" uuid NOT NULL,
+	"quantity" numeric(20, 6) NOT NULL,
+	"cost" numeric(30, 12) NOT NULL,
+	"fees" numeric(30, 12) NOT NULL,
+	"remaining_quantity" numeric(20, 6) NOT NULL,
+	"remaining_cost" numeric(30, 12) NOT NULL,
+	"remaining_fees" numeric(30, 12) NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "executions" ADD COLUMN "sequence" bigserial NOT NULL;--> statement-breakpoint
+ALTER TABLE "positions" ADD COLUMN "open_cost" numeric(30, 12) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "positions" ADD COLUMN "open_fees" numeric(30, 12) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "positions" ADD COLUMN "realized_gross_pnl" numeric(30, 12) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "positions" ADD COLUMN "realized_fees" numeric(30, 12) DEFAULT '0' NOT NULL;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "lot_closures" ADD CONSTRAINT "lot_closures_execution_id_executions_id_fk" FOREIGN KEY ("execution_id") REFERENCES "public"."executions"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "lot_closures" ADD CONSTRAINT "lot_closures_lot_id_position_lots_id_fk" FOREIGN KEY ("lot_id") REFERENCES "public"."position_lots"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "position_lots" ADD CONSTRAINT "position_lots_execution_id_executions_id_fk" FOREIGN KEY ("execution_id") REFERENCES "public"."executions"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "lot_closures_execution_id_idx" ON "lot_closures" USING btree ("execution_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "lot_closures_lot_id_idx" ON "lot_closures" USING btree ("lot_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "position_lots_position_idx" ON "position_lots" USING btree ("market_token_id","outcome","mode");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "position_lots_execution_id_idx" ON "position_lots" USING btree ("execution_id");--> statement-breakpoint
+UPDATE "executions" SET "sequence" = "ordered"."position"
+FROM (SELECT "id", row_number() OVER (ORDER BY "executed_at", "id") AS "position" FROM "executions") AS "ordered"
+WHERE "executions"."id" = "ordered"."id";
+--> statement-breakpoint
+DO $$
+DECLARE
+	"fill" record;
+	"lot" record;
+	"left_quantity" numeric;
+	"unmatched_quantity" numeric;
+	"fee_left" numeric;
+	"take" numeric;
+	"released_cost" numeric;
+	"released_fees" numeric;
+	"sell_fees" numeric;
+BEGIN
+	-- Replay existing executions into FIFO lots (rebuild:positions replays with POSITION_ACCOUNTING_METHOD).
+	-- Partial closes truncate to 12 decimals like the application's fixed-point ledger,
+	-- and the last lot a sale closes takes the rounding remainder of its fee.
+	IF EXISTS (SELECT 1 FROM "position_lots") THEN
+		RETURN;
+	END IF;
+
+	FOR "fill" IN
+		SELECT "executions"."id", "executions"."quantity", "executions"."price", "executions"."fee",
+			"orders"."market_token_id", "orders"."outcome", "orders"."mode", "orders"."side"
+		FROM "executions"
+		INNER JOIN "orders" ON "orders"."id" = "executions"."order_id"
+		ORDER BY "executions"."sequence"
+	LOOP
+		IF "fill"."side" = 'BUY' THEN
+			INSERT INTO "position_lots" ("market_token_id", "outcome", "mode", "execution_id", "quantity", "cost", "fees", "remaining_quantity", "remaining_cost", "remaining_fees")
+			VALUES ("fill"."market_token_id", "fill"."outcome", "fill"."mode", "fill"."id", "fill"."quantity", "fill"."quantity" * "fill"."price", "fill"."fee", "fill"."quantity", "fill"."quantity" * "fill"."price", "fill"."fee");
+			CONTINUE;
+		END IF;
+
+		"left_quantity" := "fill"."quantity";
+		SELECT greatest("fill"."quantity" - coalesce(sum("remaining_quantity"), 0), 0) INTO "unmatched_quantity"
+		FROM "position_lots"
+		WHERE "market_token_id" = "fill"."market_token_id"
+			AND "outcome" = "fill"."outcome"
+			AND "mode" = "fill"."mode";
+		"fee_left" := CASE WHEN "fill"."quantity" > 0
+			THEN div("fill"."fee" * 1000000000000 * ("fill"."quantity" - "unmatched_quantity"), "fill"."quantity") * 0.000000000001
+			ELSE 0 END;
+		FOR "lot" IN
+			SELECT "position_lots".*
+			FROM "position_lots"
+			INNER JOIN "executions" ON "executions"."id" = "position_lots"."execution_id"
+			WHERE "position_lots"."market_token_id" = "fill"."market_token_id"
+				AND "position_lots"."outcome" = "fill"."outcome"
+				AND "position_lots"."mode" = "fill"."mode"
+				AND "position_lots"."remaining_quantity" > 0
+			ORDER BY "executions"."sequence"
+		LOOP
+			EXIT WHEN "left_quantity" <= 0;
+			"take" := least("lot"."remaining_quantity", "left_quantity");
+			IF "take" = "lot"."remaining_quantity" THEN
+				"released_cost" := "lot"."remaining_cost";
+				"released_fees" := "lot"."remaining_fees";
+			ELSE
+				"released_cost" := div("lot"."remaining_cost" * 1000000000000 * "take", "lot"."remaining_quantity") * 0.000000000001;
+				"released_fees" := div("lot"."remaining_fees" * 1000000000000 * "take", "lot"."remaining_quantity") * 0.000000000001;
+			END IF;
+			IF "left_quantity" - "take" = "unmatched_quantity" THEN
+				"sell_fees" := "fee_left";
+			ELSE
+				"sell_fees" := div("fill"."fee" * 1000000000000 * "take", "fill"."quantity") * 0.000000000001;
+			END IF;
+			"fee_left" := "fee_left" - "sell_fees";
+
+			INSERT INTO "lot_closures" ("execution_id", "lot_id", "method", "quantity", "cost", "buy_fees", "proceeds", "sell_fees")
+			VALUES ("fill"."id", "lot"."id", 'fifo', "take", "released_cost", "released_fees", "take" * "fill"."price", "sell_fees");
+			UPDATE "position_lots" SET
+				"remaining_quantity" = "remaining_quantity" - "take",
+				"remaining_cost" = "remaining_cost" - "released_cost",
+				"remaining_fees" = "remaining_fees" - "released_fees"
+			WHERE "id" = "lot"."id";
+			"left_quantity" := "left_quantity" - "take";
+		END LOOP;
+	END LOOP;
+
+	UPDATE "positions" SET "open_cost" = "open"."cost", "open_fees" = "open"."fees"
+	FROM (
+		SELECT "market_token_id", "outcome", "mode", sum("remaining_cost") AS "cost", sum("remaining_fees") AS "fees"
+		FROM "position_lots"
+		GROUP BY "market_token_id", "outcome", "mode"
+	) AS "open"
+	WHERE "positions"."market_token_id" = "open"."market_token_id"
+		AND "positions"."outcome" = "open"."outcome"
+		AND "positions"."mode" = "open"."mode";
+
+	UPDATE "positions" SET "realized_gross_pnl" = "realized"."gross_pnl", "realized_fees" = "realized"."fees"
+	FROM (
+		SELECT "position_lots"."market_token_id", "position_lots"."outcome", "position_lots"."mode",
+			sum("lot_closures"."proceeds" - "lot_closures"."cost") AS "gross_pnl",
+			sum("lot_closures"."buy_fees" + "lot_closures"."sell_fees") AS "fees"
+		FROM "lot_closures"
+		INNER JOIN "position_lots" ON "position_lots"."id" = "lot_closures"."lot_id"
+		GROUP BY "position_lots"."market_token_id", "position_lots"."outcome", "position_lots"."mode"
+	) AS "realized"
+	WHERE "positions"."market_token_id" = "realized"."market_token_id"
+		AND "positions"."outcome" = "realized"."outcome"
+		AND "positions"."mode" = "realized"."mode";
+END $$;
@@ -0,0 +1,17 @@
+ALTER TABLE "orders" ADD COLUMN "replaced_by_order_id" uuid;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "orders" ADD CONSTRAINT "orders_replaced_by_order_id_orders_id_fk" FOREIGN KEY ("replaced_by_order_id") REFERENCES "public"."orders"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+UPDATE "orders" SET "replaced_by_order_id" = "replacements"."id"
+FROM (
+	SELECT DISTINCT ON ("parent_order_id") "id", "parent_order_id"
+	FROM "orders"
+	WHERE "parent_order_id" IS NOT NULL
+	ORDER BY "parent_order_id", "created_at", "id"
+) AS "replacements"
+WHERE "replacements"."parent_order_id" = "orders"."id"
+	AND "orders"."status" = 'cancelled'
+	AND "orders"."slice_count" IS NULL;
@@ -8,6 +8,21 @@
 import { Command } from 'commander';
 import { config } from 'dotenv';
 import { executeTradePlan } from './commands/trade.command.js';
+import { previewTradePlan } from './commands/preview.command.js';
+import {
+  sweepOpenOrders,
+  type SweepCommandOptions,
+} from './commands/sweep.command.js';
+import {
+  cancelOrder,
+  cancelPlan,
+  type CancelCommandOptions,
+} from './commands/cancel.command.js';
+import { amendOrder, type AmendCommandOptions } from './commands/amend.command.js';
+import {
+  rebuildPositions,
+  type RebuildPositionsCommandOptions,
+} from './commands/positions.command.js';
 
 // Load environment variables from .env.local
 config({ path: '.env.local' });
@@ -26,7 +41,12 @@ program
   .description('Execute a trade plan in paper or live mode')
   .argument('[file-path]', 'Path to JSON trade plan file (optional if using stdin)')
   .option('-r, --reexecute', 'Skip idempotency check and allow re-execution of same planId')
-  .action(async (filePath?: string, options?: { reexecute?: boolean }) => {
+  .option('--dry-run', 'Preview projected fills and positions without executing (same as preview:trade-plan)')
+  .action(async (filePath?: string, options?: { reexecute?: boolean; dryRun?: boolean }) => {
+    if (options?.dryRun) {
+      await previewTradePlan(filePath);
+      return;
+    }
     await executeTradePlan(filePath, options?.reexecute);
   })
   .addHelpText(
@@ -56,6 +76,8 @@ Examples:
 Options:
   -r, --reexecute    Skip idempotency check and allow re-execution of same planId
                      Useful for testing and re-running the same trade plan multiple times
+  --dry-run          Simulate the plan and print projected fills, slippage and positions
+                     without writing anything (see preview:trade-plan)
 
 Input Methods:
   1. File path: Provide path to JSON file as argument
@@ -66,16 +88,202 @@ Trade Plan Format:
   {
     "planId": "unique-id",        // Unique identifier (prevents duplicate execution)
     "mode": "paper" | "live",     // Execution mode
+    "onError": "halt",            // Optional: "continue" records failed trades and runs the rest
+    "atomic": false,              // Optional: true = pre-flight check every trade, all-or-nothing
     "trades": [                   // Array of trades to execute
       {
-        "marketId": "...",        // Market/token ID or slug
-        "outcome": "YES" | "NO",  // Market outcome
+        "marketTokenId": "...",   // CLOB token ID, or market slug (resolved via Gamma)
+        "outcome": "YES" | "NO",  // Optional: inferred from the token's market when omitted
         "side": "BUY" | "SELL",   // Order side
         "orderType": "MARKET",    // Order type (LIMIT in Phase 7+)
-        "size": 100               // Size in USDC collateral
+        "size": 100,              // Size in USDC collateral
+        "sizeUnit": "usdc"        // Optional: "shares" to trade an exact token quantity
       }
     ]
   }
+
+  SELL trades can size themselves from the current position instead of
+  "size": "closePosition": true sells all of it, "percentOfPosition": 50
+  sells half. The token quantity is resolved when the trade executes
+  (trigger orders resolve when they fire).
+
+  A trade can also state the position to end up with instead of a side
+  and size: "targetPosition": { "size": 500, "sizeUnit": "shares" } buys or
+  sells the difference to hold 500 tokens; without sizeUnit the target is
+  USDC exposure valued at the midpoint. Already at target, nothing is placed.
+
+  Trades with an "id" can be referenced by later conditions: a trade with
+  "dependsOn": [{ "tradeId": "entry", "condition": "filled" }] executes
+  after "entry" and only if it filled ("not_filled", or "fill_price_below"
+  with a "price", are also supported); otherwise it is recorded as cancelled.
+`
+  );
+
+// Command: preview:trade-plan
+program
+  .command('preview:trade-plan')
+  .description('Simulate a trade plan against current order books without executing it')
+  .argument('[file-path]', 'Path to JSON trade plan file (optional if using stdin)')
+  .action(async (filePath?: string) => {
+    await previewTradePlan(filePath);
+  })
+  .addHelpText(
+    'after',
+    `
+Examples:
+  $ pnpm run preview:trade-plan ./plans/test-001.json
+  $ pnpm run execute:trade-plan ./plans/test-001.json --dry-run
+
+Every trade is sized and filled with the paper fill logic against the
+current books and positions, in execution order: expected fill prices,
+quantities, slippage against the best price, and the resulting positions
+valued at the midpoint. Trigger orders show as pending, sliced trades
+quote their first slice.
+
+Nothing is written to the database: the planId is not recorded, so the
+same plan can be executed afterwards without --reexecute.
+`
+  );
+
+// Command: sweep:open-orders
+program
+  .command('sweep:open-orders')
+  .description('Settle resolved markets, expire orders, evaluate STOP/TAKE_PROFIT triggers, re-check open paper LIMIT orders or reconcile live orders with the CLOB, and place due TWAP slices')
+  .option('--mode <mode>', 'Execution mode to sweep: paper or live', 'paper')
+  .action(async (options?: SweepCommandOptions) => {
+    await sweepOpenOrders(options);
+  })
+  .addHelpText(
+    'after',
+    `
+Examples:
+  $ pnpm run sweep:open-orders
+  $ pnpm run sweep:open-orders --mode live
+
+Positions in markets that have resolved are settled first: a synthetic SELL
+closes each one at 1.00 (winning token) or 0.00 (losing token), booking the
+realized P&L, and any orders still working on the market are cancelled.
+
+Open paper LIMIT orders (and capped MARKET orders resting at their cap)
+that now cross the spread walk the visible book depth up to their limit,
+filling level by level at each level's price. Depth within the limit may
+cover only part of the unfilled size: the order is then partially filled
+and the remainder keeps working. Orders that still don't cross stay open
+for the next sweep.
+
+Pending STOP / TAKE_PROFIT orders whose reference price (midpoint or last
+trade) has reached triggerPrice are placed as MARKET orders, or as LIMIT
+orders when the trade set a price. TRAILING_STOP orders first raise their
+high-water mark to the observed price, then fire once the price falls to
+the trailing stop level.
+
+Sliced (TWAP) orders place their next slice once its interval has elapsed,
+sized to split the unfilled remainder over the slices left. A sliced order
+completes once its slices fill its size, or is cancelled once every slice
+has been placed and none are still resting.
+
+Live sweeps fetch each working live order from the CLOB instead, before
+settling: size it matched since the last sweep is recorded as a fill
+(cancelling OCO / BRACKET siblings), orders it cancelled are cancelled
+locally and orders it expired are expired locally. Live orders are never
+expired before the CLOB reports them expired. Live settlement updates local
+records only: redeem winning tokens separately.
+`
+  );
+
+// Command: cancel:order
+program
+  .command('cancel:order')
+  .description('Cancel an open, partially filled, pending trigger or working sliced order')
+  .argument('<orderId>', 'Order ID (orders.id)')
+  .option('--reason <reason>', 'Why the order is being cancelled')
+  .option('--by <name>', 'Who is cancelling the order (defaults to OS user)')
+  .action(async (orderId: string, options?: CancelCommandOptions) => {
+    await cancelOrder(orderId, options);
+  })
+  .addHelpText(
+    'after',
+    `
+Examples:
+  $ pnpm run cancel:order 3f1c...-uuid --reason "price moved away"
+
+Filled, cancelled and failed orders are rejected. Live orders are cancelled
+on the Polymarket CLOB (by external order ID) before the local record changes.
+Cancelling a working sliced order also cancels its resting slices.
+`
+  );
+
+// Command: cancel:plan
+program
+  .command('cancel:plan')
+  .description('Cancel every open, partially filled, pending trigger or working sliced order in a trade plan')
+  .argument('<planId>', 'Trade plan ID')
+  .option('--reason <reason>', 'Why the orders are being cancelled')
+  .option('--by <name>', 'Who is cancelling the orders (defaults to OS user)')
+  .action(async (planId: string, options?: CancelCommandOptions) => {
+    await cancelPlan(planId, options);
+  })
+  .addHelpText(
+    'after',
+    `
+Examples:
+  $ pnpm run cancel:plan test-001 --reason "thesis invalidated"
+
+Orders that are already filled, cancelled or failed are skipped.
+`
+  );
+
+// Command: amend:order
+program
+  .command('amend:order')
+  .description('Cancel/replace a resting LIMIT order with a new price and/or size')
+  .argument('<orderId>', 'Order ID (orders.id)')
+  .option('--price <price>', 'New limit price (0-1 range)')
+  .option('--size <size>', "New size in the order's size unit (USDC collateral or shares)")
+  .option('--reason <reason>', 'Why the order is being amended')
+  .option('--by <name>', 'Who is amending the order (defaults to OS user)')
+  .action(async (orderId: string, options?: AmendCommandOptions) => {
+    await amendOrder(orderId, options);
+  })
+  .addHelpText(
+    'after',
+    `
+Examples:
+  $ pnpm run amend:order 3f1c...-uuid --price 0.42
+  $ pnpm run amend:order 3f1c...-uuid --price 0.42 --size 150
+
+The original order is cancelled and a replacement is placed in the same plan,
+linked through parent_order_id. Paper replacements are re-checked against the
+order book and fill immediately if they now cross the spread. Slices of a
+sliced (TWAP) order cannot be amended: cancel the sliced order instead.
+`
+  );
+
+// Command: rebuild:positions
+program
+  .command('rebuild:positions')
+  .description('Replay positions and the lot ledger from executions and report any drift')
+  .option('--check', 'Only report drift; leave the positions tables unchanged')
+  .action(async (options?: RebuildPositionsCommandOptions) => {
+    await rebuildPositions(options);
+  })
+  .addHelpText(
+    'after',
+    `
+Examples:
+  $ pnpm run rebuild:positions
+  $ pnpm run rebuild:positions --check
+
+Every fill updates its position in the same transaction: running totals,
+and the lot ledger (each BUY opens a lot, each SELL closes lots and books
+realized P&L). This command replays every execution in recorded order,
+lists the positions that differ (wrong totals or P&L, missing rows, rows
+without executions) and rewrites the positions, lots and lot closures.
+With --check it exits with status 1 if any drift was found.
+
+Lots are closed by POSITION_ACCOUNTING_METHOD: fifo (oldest lot first,
+the default) or average (weighted average cost of the open lots). After
+changing it, rebuild to restate past SELLs with the new method.
 `
   );
 
@@ -0,0 +1,110 @@
+import { userInfo } from 'os';
+import { logger } from '../../infrastructure/logging/logger.js';
+import {
+  formatSuccess,
+  formatError,
+  formatJson,
+  formatSize,
+} from '../utils/output-formatter.js';
+import { ValidationError } from '../../domain/errors/validation.error.js';
+import { ExecutionError } from '../../domain/errors/execution.error.js';
+import { getOrderManagementService } from '../../features/order-management/order-management.service.js';
+
+const commandLogger = logger.child({ module: 'amend-command' });
+
+/**
+ * Options for the amend command (raw CLI strings)
+ */
+export interface AmendCommandOptions {
+  price?: string;
+  size?: string;
+  reason?: string;
+  by?: string;
+}
+
+/**
+ * Amend order command handler
+ *
+ * Cancels a resting LIMIT order and replaces it with a new price and/or size.
+ *
+ * @param orderId - Order to amend
+ * @param options - New price/size plus audit details
+ */
+export async function amendOrder(
+  orderId: string,
+  options?: AmendCommandOptions
+): Promise<void> {
+  try {
+    const amendment = {
+      price: options?.price !== undefined ? parseFloat(options.price) : undefined,
+      size: options?.size !== undefined ? parseFloat(options.size) : undefined,
+    };
+    commandLogger.info({ orderId, amendment }, 'Starting order amendment');
+
+    const result = await getOrderManagementService().amendOrder(
+      orderId,
+      amendment,
+      {
+        cancelledBy: options?.by || userInfo().username,
+        reason: options?.reason || '', // Service defaults to an "Amended: ..." description
+      }
+    );
+
+    const { replacement } = result;
+
+    console.log('');
+    console.log(formatSuccess(`Order '${result.originalOrder.id}' amended`));
+    console.log('');
+    console.log(`  Replacement Order ID: ${replacement.orderId}`);
+    console.log(`  Limit Price: ${replacement.trade.price?.toFixed(4)}`);
+    console.log(`  Size: ${formatSize(replacement.trade.size, replacement.trade.sizeUnit)}`);
+    if (replacement.status === 'filled') {
+      console.log(`  Status: Filled at ${replacement.fillPrice?.toFixed(4)} (${replacement.quantity?.toFixed(2)} tokens)`);
+    } else {
+      console.log(`  Status: Open (waiting for price)`);
+    }
+    console.log('');
+
+    console.log('🔗 Replace Chain:');
+    console.log('');
+    result.chain.forEach((order, index) => {
+      const price = order.price ? parseFloat(order.price).toFixed(4) : '-';
+      const size = formatSize(parseFloat(order.size), order.sizeUnit);
+      console.log(`  ${index + 1}. ${order.id}  price ${price}  size ${size}  ${order.status}`);
+    });
+    console.log('');
+
+    process.exit(0);
+  } catch (error) {
+    console.error('');
+    console.error(formatError('Order amendment failed'));
+    console.error('');
+
+    if (error instanceof ValidationError) {
+      console.error(error.getSummary());
+      console.error('');
+      commandLogger.error({ validationErrors: error.validationErrors }, 'Validation failed');
+    } else if (error instanceof ExecutionError) {
+      console.error(error.message);
+      console.error('');
+      if (error.details) {
+        console.error('Details:');
+        console.error(formatJson(error.details));
+        console.error('');
+      }
+      commandLogger.error(
+        { error: error.message, details: error.details },
+        'Amendment failed'
+      );
+    } else {
+      console.error(error instanceof Error ? error.message : String(error));
+      console.error('');
+      commandLogger.error(
+        { error: error instanceof Error ? error.message : error },
+        'Command failed'
+      );
+    }
+
+    process.exit(1);
+  }
+}
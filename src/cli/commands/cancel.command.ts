@@ -0,0 +1,157 @@
+import { userInfo } from 'os';
+import { logger } from '../../infrastructure/logging/logger.js';
+import {
+  formatSuccess,
+  formatError,
+  formatWarning,
+  formatJson,
+} from '../utils/output-formatter.js';
+import { ExecutionError } from '../../domain/errors/execution.error.js';
+import { getOrderManagementService } from '../../features/order-management/order-management.service.js';
+import type { OrderCancellation } from '../../features/executor/executor.types.js';
+
+const commandLogger = logger.child({ module: 'cancel-command' });
+
+/**
+ * Options shared by the cancel commands
+ */
+export interface CancelCommandOptions {
+  reason?: string;
+  by?: string;
+}
+
+/**
+ * Build cancellation audit details from CLI options
+ * Defaults to the OS user so every cancel records who issued it
+ */
+function toCancellation(options?: CancelCommandOptions): OrderCancellation {
+  return {
+    cancelledBy: options?.by || userInfo().username,
+    reason: options?.reason || 'Cancelled by operator',
+  };
+}
+
+/**
+ * Cancel order command handler
+ *
+ * @param orderId - Order to cancel
+ * @param options - Cancellation reason and operator
+ */
+export async function cancelOrder(
+  orderId: string,
+  options?: CancelCommandOptions
+): Promise<void> {
+  try {
+    const cancellation = toCancellation(options);
+    commandLogger.info({ orderId, cancellation }, 'Starting order cancellation');
+
+    const order = await getOrderManagementService().cancelOrder(
+      orderId,
+      cancellation
+    );
+
+    console.log('');
+    console.log(formatSuccess(`Order '${order.id}' cancelled`));
+    console.log('');
+    console.log(`  Plan ID: ${order.planId}`);
+    console.log(`  Mode: ${order.mode}`);
+    console.log(`  Market Token: ${order.marketTokenId}`);
+    console.log(`  Side: ${order.side}`);
+    console.log(`  Order Type: ${order.orderType}`);
+    if (order.externalOrderId) {
+      console.log(`  External Order ID: ${order.externalOrderId}`);
+    }
+    console.log(`  Cancelled By: ${order.cancelledBy}`);
+    console.log(`  Reason: ${order.cancelReason}`);
+    console.log('');
+
+    process.exit(0);
+  } catch (error) {
+    handleCancelError(error, 'Order cancellation failed');
+  }
+}
+
+/**
+ * Cancel plan command handler
+ *
+ * Cancels every open or partially filled order in the plan.
+ *
+ * @param planId - Plan whose orders should be cancelled
+ * @param options - Cancellation reason and operator
+ */
+export async function cancelPlan(
+  planId: string,
+  options?: CancelCommandOptions
+): Promise<void> {
+  try {
+    const cancellation = toCancellation(options);
+    commandLogger.info({ planId, cancellation }, 'Starting plan cancellation');
+
+    const summary = await getOrderManagementService().cancelPlan(
+      planId,
+      cancellation
+    );
+
+    console.log('');
+    console.log(formatSuccess(`Plan '${summary.planId}' cancellation completed`));
+    console.log('');
+    console.log(`  Orders Cancelled: ${summary.cancelledOrderIds.length}`);
+    console.log(`  Orders Skipped: ${summary.skippedOrders.length} (already filled, cancelled or failed)`);
+    console.log('');
+
+    for (const orderId of summary.cancelledOrderIds) {
+      console.log(`  - Cancelled ${orderId}`);
+    }
+    for (const skipped of summary.skippedOrders) {
+      console.log(`  - Skipped ${skipped.orderId} (${skipped.status})`);
+    }
+
+    if (summary.errors.length > 0) {
+      console.log('');
+      console.log(formatWarning('Errors:'));
+      console.log('');
+      for (const error of summary.errors) {
+        console.log(`  - ${error}`);
+      }
+      console.log('');
+      process.exit(1);
+    }
+
+    console.log('');
+    process.exit(0);
+  } catch (error) {
+    handleCancelError(error, 'Plan cancellation failed');
+  }
+}
+
+/**
+ * Print cancel command errors and exit with failure
+ */
+function handleCancelError(error: unknown, title: string): never {
+  console.error('');
+  console.error(formatError(title));
+  console.error('');
+
+  if (error instanceof ExecutionError) {
+    console.error(error.message);
+    console.error('');
+    if (error.details) {
+      console.error('Details:');
+      console.error(formatJson(error.details));
+      console.error('');
+    }
+    commandLogger.error(
+      { error: error.message, details: error.details },
+      'Cancellation failed'
+    );
+  } else {
+    console.error(error instanceof Error ? error.message : String(error));
+    console.error('');
+    commandLogger.error(
+      { error: error instanceof Error ? error.message : error },
+      'Command failed'
+    );
+  }
+
+  process.exit(1);
+}
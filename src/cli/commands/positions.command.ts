@@ -0,0 +1,95 @@
+import { logger } from '../../infrastructure/logging/logger.js';
+import { formatSuccess, formatError, formatWarning } from '../utils/output-formatter.js';
+import { getPositionRebuildService } from '../../features/positions/position-rebuild.service.js';
+
+const commandLogger = logger.child({ module: 'positions-command' });
+
+/**
+ * Options for the rebuild positions command
+ */
+export interface RebuildPositionsCommandOptions {
+  check?: boolean;
+}
+
+/**
+ * Rebuild positions command handler
+ *
+ * Replays the positions table and lot ledger from the executions log and
+ * reports every position that had drifted. With --check the table is left unchanged and the
+ * command exits with failure if any drift was found.
+ */
+export async function rebuildPositions(options?: RebuildPositionsCommandOptions): Promise<void> {
+  try {
+    const checkOnly = options?.check ?? false;
+    commandLogger.info({ checkOnly }, 'Starting positions rebuild');
+
+    console.log('');
+    console.log(
+      checkOnly
+        ? '🔍 Checking positions against executions...'
+        : '🔧 Rebuilding positions from executions...'
+    );
+    console.log('');
+
+    const summary = await getPositionRebuildService().rebuildPositions({ checkOnly });
+
+    console.log(
+      formatSuccess(summary.rebuilt ? 'Positions rebuilt' : 'Positions checked')
+    );
+    console.log('');
+    console.log('📊 Rebuild Summary:');
+    console.log('');
+    console.log(`  Accounting Method: ${summary.method}`);
+    console.log(`  Positions Stored: ${summary.positionsStored}`);
+    console.log(`  Positions Recomputed: ${summary.positionsRecomputed}`);
+    console.log(`  Lots: ${summary.lotsRecomputed}`);
+    console.log(`  Lot Closures: ${summary.closuresRecomputed}`);
+    console.log(`  Drifted Positions: ${summary.drift.length}`);
+    console.log(`  Duration: ${summary.durationMs}ms`);
+    console.log('');
+
+    if (summary.drift.length > 0) {
+      console.log(
+        formatWarning(
+          summary.rebuilt
+            ? 'Drift found (corrected from executions):'
+            : 'Drift found (run without --check to correct it):'
+        )
+      );
+      console.log('');
+      for (const drift of summary.drift) {
+        console.log(`  Market Token: ${drift.marketTokenId}`);
+        console.log(`  Outcome: ${drift.outcome}`);
+        console.log(`  Mode: ${drift.mode}`);
+        if (drift.kind === 'missing') {
+          console.log(`  Drift: Row missing (executions not applied)`);
+        } else if (drift.kind === 'extra') {
+          console.log(`  Drift: Row has no executions behind it`);
+        } else {
+          console.log(`  Drift: Totals differ`);
+        }
+        for (const field of drift.fields) {
+          console.log(`    ${field.field}: stored ${field.stored}, expected ${field.expected}`);
+        }
+        console.log('');
+      }
+    }
+
+    commandLogger.info(
+      { driftCount: summary.drift.length, rebuilt: summary.rebuilt },
+      'Command completed successfully'
+    );
+
+    process.exit(checkOnly && summary.drift.length > 0 ? 1 : 0);
+  } catch (error) {
+    console.error('');
+    console.error(formatError('Failed to rebuild positions'));
+    console.error(error instanceof Error ? error.message : String(error));
+    console.error('');
+    commandLogger.error(
+      { error: error instanceof Error ? error.message : error },
+      'Command failed'
+    );
+    process.exit(1);
+  }
+}
@@ -0,0 +1,158 @@
+import { logger } from '../../infrastructure/logging/logger.js';
+import { loadInput, parseJsonInput } from '../utils/input-loader.js';
+import {
+  formatSuccess,
+  formatError,
+  formatWarning,
+  formatJson,
+  formatSize,
+  printTradePlanSummary,
+} from '../utils/output-formatter.js';
+import { validateTradePlan } from '../../domain/validators/trade-plan.validator.js';
+import { ValidationError } from '../../domain/errors/validation.error.js';
+import { ExecutionError } from '../../domain/errors/execution.error.js';
+import { getTradeRunnerService } from '../../features/trade-runner/trade-runner.service.js';
+import type { TradeQuote } from '../../features/preflight/preflight.types.js';
+
+const commandLogger = logger.child({ module: 'preview-command' });
+
+/**
+ * Preview trade plan command handler
+ *
+ * Validates a plan and simulates it against current books without writing
+ * anything, so the planId can still be executed afterwards.
+ *
+ * @param filePath - Optional path to trade plan JSON file
+ */
+export async function previewTradePlan(filePath?: string): Promise<void> {
+  try {
+    commandLogger.info({ filePath }, 'Starting trade plan preview');
+
+    const rawInput = await loadInput(filePath);
+    const tradePlan = validateTradePlan(parseJsonInput(rawInput));
+
+    console.log('');
+    printTradePlanSummary(tradePlan);
+    console.log('');
+    console.log('🔍 Dry run: simulating against current order books (nothing is written)');
+    console.log('');
+
+    const preview = await getTradeRunnerService().previewTradePlan(tradePlan);
+
+    console.log('📋 Projected Trades:');
+    console.log('');
+    for (const quote of preview.quotes) {
+      printQuote(quote);
+    }
+
+    if (preview.positions.length > 0) {
+      console.log('📈 Projected Positions:');
+      console.log('');
+      for (const position of preview.positions) {
+        console.log(`  Market Token: ${position.marketTokenId}`);
+        console.log(`  Outcome: ${position.outcome}`);
+        console.log(
+          `  Net Quantity: ${position.quantityBefore.toFixed(2)} → ${position.quantityAfter.toFixed(2)} tokens`
+        );
+        if (position.midpoint !== undefined && position.exposure !== undefined) {
+          console.log(`  Midpoint: ${position.midpoint.toFixed(4)}`);
+          console.log(`  Exposure: $${position.exposure.toFixed(2)}`);
+        } else {
+          console.log('  Exposure: unavailable (no midpoint)');
+        }
+        console.log('');
+      }
+    }
+
+    console.log('📊 Totals:');
+    console.log('');
+    console.log(`  Spent on BUYs: $${preview.totalBuyNotional.toFixed(2)}`);
+    console.log(`  Received from SELLs: $${preview.totalSellNotional.toFixed(2)}`);
+    console.log(`  Estimated Fees: $${preview.estimatedFees.toFixed(2)}`);
+    console.log(`  Resulting Exposure: $${preview.totalExposure.toFixed(2)}`);
+    console.log('');
+
+    if (preview.issues.length > 0) {
+      console.log(formatWarning('Trades that would not land in full:'));
+      console.log('');
+      for (const issue of preview.issues) {
+        console.log(`  - ${issue}`);
+      }
+      console.log('');
+    } else {
+      console.log(formatSuccess(`Plan '${preview.planId}' would land in full`));
+      console.log('');
+    }
+
+    commandLogger.info(
+      { planId: preview.planId, quoted: preview.quotes.length, issues: preview.issues.length },
+      'Preview completed'
+    );
+
+    process.exit(0);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      console.error('');
+      console.error(formatError('Trade plan validation failed'));
+      console.error('');
+      console.error(error.getSummary());
+      console.error('');
+      commandLogger.error({ validationErrors: error.validationErrors }, 'Validation failed');
+    } else if (error instanceof ExecutionError) {
+      console.error('');
+      console.error(formatError('Trade plan preview failed'));
+      console.error('');
+      console.error(error.message);
+      if (error.details) {
+        console.error('');
+        console.error('Details:');
+        console.error(formatJson(error.details));
+      }
+      console.error('');
+      commandLogger.error({ error: error.message, details: error.details }, 'Preview failed');
+    } else {
+      console.error('');
+      console.error(formatError('Failed to preview trade plan'));
+      console.error(error instanceof Error ? error.message : String(error));
+      console.error('');
+      commandLogger.error({ error }, 'Command failed');
+    }
+
+    process.exit(1);
+  }
+}
+
+/**
+ * Print the simulated outcome of one trade
+ */
+function printQuote(quote: TradeQuote): void {
+  const { trade } = quote;
+
+  console.log(`  Trade ${quote.tradeIndex + 1}${quote.tradeId ? ` ('${quote.tradeId}')` : ''}`);
+  console.log(`  Market Token: ${trade.marketTokenId}`);
+  console.log(`  Outcome: ${trade.outcome}`);
+  console.log(`  Side: ${trade.side}`);
+  console.log(`  Order Type: ${trade.orderType}`);
+  console.log(`  Size: ${formatSize(trade.size, trade.sizeUnit)}`);
+  console.log(`  Status: ${quote.status}`);
+
+  if (quote.quantity > 0) {
+    console.log(
+      `  Fill: ${quote.quantity.toFixed(2)} tokens @ ${quote.avgPrice.toFixed(4)} avg ($${quote.notional.toFixed(2)})`
+    );
+    if (quote.bestPrice !== undefined) {
+      const slippagePercent = (quote.slippage / quote.bestPrice) * 100;
+      console.log(
+        `  Slippage: ${quote.slippage.toFixed(4)} (${slippagePercent.toFixed(2)}%) vs best price ${quote.bestPrice.toFixed(4)}`
+      );
+    }
+  }
+
+  if (quote.note) {
+    console.log(`  Note: ${quote.note}`);
+  }
+  if (quote.issue && quote.issue !== quote.note) {
+    console.log(`  Issue: ${quote.issue}`);
+  }
+  console.log('');
+}
@@ -0,0 +1,225 @@
+import { logger } from '../../infrastructure/logging/logger.js';
+import {
+  formatSuccess,
+  formatError,
+  formatWarning,
+  formatSize,
+  formatPnL,
+} from '../utils/output-formatter.js';
+import { getOrderSweepService } from '../../features/order-sweep/order-sweep.service.js';
+import { ModeSchema } from '../../domain/schemas/trade-plan.schema.js';
+import { ValidationError } from '../../domain/errors/validation.error.js';
+
+const commandLogger = logger.child({ module: 'sweep-command' });
+
+/**
+ * Options for the sweep command (raw CLI strings)
+ */
+export interface SweepCommandOptions {
+  mode?: string;
+}
+
+/**
+ * Sweep open orders command handler
+ *
+ * In live mode it first records fills, cancellations and expiries reported
+ * by the CLOB for every working live order. It then settles positions and
+ * cancels orders in resolved markets, expires paper orders past their
+ * good-til-date and evaluates pending STOP / TAKE_PROFIT triggers. In paper
+ * mode it then re-checks every open LIMIT order (and capped MARKET order)
+ * against a fresh order book: orders that now cross the spread fill against
+ * the visible depth within their limit, possibly partially, with the
+ * remainder left working. Finally, sliced (TWAP) orders place their next
+ * due slice.
+ */
+export async function sweepOpenOrders(options?: SweepCommandOptions): Promise<void> {
+  try {
+    const parsedMode = ModeSchema.safeParse(options?.mode ?? 'paper');
+    if (!parsedMode.success) {
+      throw ValidationError.fromZodError(parsedMode.error, 'Invalid --mode');
+    }
+    const mode = parsedMode.data;
+
+    commandLogger.info({ mode }, 'Starting open order sweep');
+
+    console.log('');
+    console.log(`🧹 Sweeping open ${mode} orders...`);
+    console.log('');
+
+    const summary = await getOrderSweepService().sweepOpenOrders(mode);
+
+    console.log(formatSuccess('Open order sweep completed'));
+    console.log('');
+    console.log('📊 Sweep Summary:');
+    console.log('');
+    console.log(`  Mode: ${summary.mode}`);
+    console.log(`  Orders Checked: ${summary.ordersChecked}`);
+    console.log(`  Orders Filled: ${summary.ordersFilled}`);
+    if (summary.ordersPartiallyFilled > 0) {
+      console.log(`  Orders Partially Filled: ${summary.ordersPartiallyFilled}`);
+    }
+    if (summary.ordersExpired > 0) {
+      console.log(`  Orders Expired: ${summary.ordersExpired}`);
+    }
+    console.log(`  Orders Still Open: ${summary.ordersStillOpen}`);
+    if (summary.settlement.marketsResolved > 0) {
+      console.log(`  Markets Resolved: ${summary.settlement.marketsResolved}`);
+      console.log(`  Positions Settled: ${summary.settlement.positions.length}`);
+      console.log(`  Orders Cancelled at Resolution: ${summary.settlement.cancelledOrderIds.length}`);
+    }
+    console.log(`  Triggers Evaluated: ${summary.triggers.ordersEvaluated}`);
+    if (summary.triggers.ordersTriggered > 0) {
+      console.log(`  Triggers Fired: ${summary.triggers.ordersTriggered}`);
+    }
+    if (summary.triggers.trailingStopsRatcheted > 0) {
+      console.log(`  Trailing Stops Raised: ${summary.triggers.trailingStopsRatcheted}`);
+    }
+    if (summary.slicing.ordersWorked > 0) {
+      console.log(`  Sliced Orders Worked: ${summary.slicing.ordersWorked}`);
+      console.log(`  Slices Placed: ${summary.slicing.slicesPlaced}`);
+      console.log(`  Sliced Orders Completed: ${summary.slicing.ordersCompleted}`);
+    }
+    console.log(`  Duration: ${summary.durationMs}ms`);
+    console.log('');
+
+    if (summary.settlement.positions.length > 0) {
+      console.log('🏁 Settled Positions:');
+      console.log('');
+      for (const position of summary.settlement.positions) {
+        console.log(`  Market: ${position.question}`);
+        console.log(`  Market Token: ${position.marketTokenId}`);
+        console.log(`  Outcome: ${position.outcome} (${position.won ? 'won' : 'lost'})`);
+        console.log(
+          `  Settled: ${position.quantity.toFixed(2)} tokens @ ${position.payoutPrice.toFixed(2)}`
+        );
+        console.log(`  Realized P&L: ${formatPnL(position.realizedPnL)}`);
+        console.log(`  Settlement Order ID: ${position.orderId}`);
+        console.log('');
+      }
+    }
+
+    const filledOrders = summary.orders.filter(
+      (o) => o.status === 'filled' || o.status === 'partially_filled'
+    );
+    if (filledOrders.length > 0) {
+      console.log('✅ Filled Orders:');
+      console.log('');
+      for (const order of filledOrders) {
+        console.log(`  Order ID: ${order.orderId}`);
+        console.log(`  Plan ID: ${order.planId}`);
+        console.log(`  Market Token: ${order.marketTokenId}`);
+        console.log(`  Side: ${order.side}`);
+        if (order.limitPrice !== undefined) {
+          console.log(`  Limit Price: ${order.limitPrice.toFixed(4)}`);
+        }
+        console.log(`  Fill Price: ${order.fillPrice?.toFixed(4)}`);
+        console.log(`  Quantity: ${order.quantity?.toFixed(2)} tokens`);
+        if (order.status === 'partially_filled') {
+          console.log(`  Status: Partially filled (remainder still working)`);
+        }
+        if (order.cancelledSiblingIds && order.cancelledSiblingIds.length > 0) {
+          console.log(`  Cancelled Group Siblings: ${order.cancelledSiblingIds.join(', ')}`);
+        }
+        console.log('');
+      }
+    }
+
+    const expiredOrders = summary.orders.filter((o) => o.status === 'expired');
+    if (expiredOrders.length > 0) {
+      console.log('⌛ Expired Orders:');
+      console.log('');
+      for (const order of expiredOrders) {
+        console.log(`  Order ID: ${order.orderId}`);
+        console.log(`  Plan ID: ${order.planId}`);
+        console.log(`  Market Token: ${order.marketTokenId}`);
+        console.log(`  Side: ${order.side}`);
+        if (order.limitPrice !== undefined) {
+          console.log(`  Limit Price: ${order.limitPrice.toFixed(4)}`);
+        }
+        console.log('');
+      }
+    }
+
+    const firedTriggers = summary.triggers.orders.filter((o) => o.status === 'triggered');
+    if (firedTriggers.length > 0) {
+      console.log('🎯 Triggered Orders:');
+      console.log('');
+      for (const trigger of firedTriggers) {
+        console.log(`  Trigger Order ID: ${trigger.orderId}`);
+        console.log(`  Plan ID: ${trigger.planId}`);
+        console.log(`  Market Token: ${trigger.marketTokenId}`);
+        console.log(`  ${trigger.orderType} ${trigger.side} @ ${trigger.triggerPrice.toFixed(4)}`);
+        if (trigger.highWaterMark !== undefined) {
+          console.log(`  High-Water Mark: ${trigger.highWaterMark.toFixed(4)}`);
+        }
+        console.log(
+          `  Reference (${trigger.triggerReference}): ${trigger.referencePrice?.toFixed(4)}`
+        );
+        console.log(`  Placed Order ID: ${trigger.placedOrderId}`);
+        console.log(`  Placed Order Status: ${trigger.placedOrderStatus}`);
+        console.log('');
+      }
+    }
+
+    const workedSlices = summary.slicing.orders.filter(
+      (o) => o.status !== 'scheduled' && o.status !== 'failed'
+    );
+    if (workedSlices.length > 0) {
+      console.log('🧩 Sliced Orders:');
+      console.log('');
+      for (const sliced of workedSlices) {
+        console.log(`  Sliced Order ID: ${sliced.orderId}`);
+        console.log(`  Plan ID: ${sliced.planId}`);
+        console.log(`  Market Token: ${sliced.marketTokenId}`);
+        console.log(`  Side: ${sliced.side}`);
+        console.log(
+          `  Filled: ${sliced.filledSize.toFixed(2)} of ${formatSize(sliced.targetSize, sliced.sizeUnit)}`
+        );
+        console.log(`  Slices Placed: ${sliced.slicesPlaced} of ${sliced.sliceCount}`);
+        if (sliced.placedOrderId) {
+          console.log(`  Placed Order ID: ${sliced.placedOrderId}`);
+          console.log(`  Placed Order Status: ${sliced.placedOrderStatus}`);
+        }
+        if (sliced.status === 'filled') {
+          console.log(`  Status: Filled (target reached)`);
+        } else if (sliced.status === 'cancelled') {
+          console.log(`  Status: Finished short of target (all slices placed)`);
+        } else if (sliced.status === 'resting') {
+          console.log(`  Status: Waiting for resting slices`);
+        } else if (sliced.nextSliceAt && sliced.slicesPlaced < sliced.sliceCount) {
+          console.log(`  Next Slice At: ${sliced.nextSliceAt.toISOString()}`);
+        }
+        console.log('');
+      }
+    }
+
+    if (summary.errors.length > 0) {
+      console.log(formatWarning('Errors (orders left open or pending):'));
+      console.log('');
+      for (const error of summary.errors) {
+        console.log(`  - ${error}`);
+      }
+      console.log('');
+    }
+
+    commandLogger.info(
+      {
+        ordersChecked: summary.ordersChecked,
+        ordersFilled: summary.ordersFilled,
+      },
+      'Command completed successfully'
+    );
+
+    process.exit(0);
+  } catch (error) {
+    console.error('');
+    console.error(formatError('Failed to sweep open orders'));
+    console.error(error instanceof Error ? error.message : String(error));
+    console.error('');
+    commandLogger.error(
+      { error: error instanceof Error ? error.message : error },
+      'Command failed'
+    );
+    process.exit(1);
+  }
+}
@@ -3,7 +3,10 @@ import { loadInput, parseJsonInput } from '../utils/input-loader.js';
 import {
   formatSuccess,
   formatError,
+  formatWarning,
   formatJson,
+  formatPnL,
+  formatSize,
   printTradePlanSummary,
 } from '../utils/output-formatter.js';
 import { validateTradePlan } from '../../domain/validators/trade-plan.validator.js';
@@ -11,6 +14,7 @@ import { ValidationError } from '../../domain/errors/validation.error.js';
 import { ExecutionError } from '../../domain/errors/execution.error.js';
 import { getTradeRunnerService } from '../../features/trade-runner/trade-runner.service.js';
 import { getExecutorRepository } from '../../features/executor/executor.repository.js';
+import { getSliceProgress } from '../../features/slicing/slice-schedule.js';
 
 const commandLogger = logger.child({ module: 'trade-command' });
 
@@ -57,8 +61,13 @@ export async function executeTradePlan(filePath?: string, reexecute?: boolean):
     const runSummary = await tradeRunnerService.executeTradePlan(tradePlan, reexecute);
 
     // Step 6: Display run summary
+    const failedTrades = runSummary.errors?.length ?? 0;
     console.log('');
-    console.log(formatSuccess(`✓ Trade Plan '${runSummary.planId}' executed successfully`));
+    console.log(
+      failedTrades > 0
+        ? formatWarning(`Trade Plan '${runSummary.planId}' partially executed: ${failedTrades} trade(s) failed`)
+        : formatSuccess(`✓ Trade Plan '${runSummary.planId}' executed successfully`)
+    );
     console.log('');
     console.log('📊 Run Summary:');
     console.log('');
@@ -72,18 +81,37 @@ export async function executeTradePlan(filePath?: string, reexecute?: boolean):
     if (runSummary.ordersPartiallyFilled > 0) {
       console.log(`  Orders Partially Filled: ${runSummary.ordersPartiallyFilled}`);
     }
+    if (runSummary.ordersPending > 0) {
+      console.log(`  Orders Pending: ${runSummary.ordersPending} (trigger orders waiting for their price)`);
+    }
+    if (runSummary.ordersTriggered > 0) {
+      console.log(`  Orders Triggered: ${runSummary.ordersTriggered}`);
+    }
+    if (runSummary.ordersWorking > 0) {
+      console.log(`  Orders Working: ${runSummary.ordersWorking} (sliced orders with slices remaining)`);
+    }
+    if (runSummary.ordersCancelled > 0) {
+      console.log(`  Orders Cancelled: ${runSummary.ordersCancelled}`);
+    }
+    if (runSummary.ordersExpired > 0) {
+      console.log(`  Orders Expired: ${runSummary.ordersExpired}`);
+    }
     if (runSummary.ordersFailed > 0) {
       console.log(`  Orders Failed: ${runSummary.ordersFailed}`);
     }
-    console.log(`  Total P&L: ${runSummary.totalPnL >= 0 ? '+' : ''}$${runSummary.totalPnL.toFixed(2)}`);
+    console.log(`  Gross P&L: ${formatPnL(runSummary.totalGrossPnL)}`);
+    console.log(`  Fees: $${runSummary.totalFees.toFixed(2)}`);
+    console.log(`  Net P&L: ${formatPnL(runSummary.totalPnL)}`);
     console.log(`  Duration: ${runSummary.durationMs}ms`);
     console.log('');
 
     // Display open orders if any
-    if (runSummary.ordersOpen > 0) {
+    if (runSummary.ordersOpen > 0 || runSummary.ordersPartiallyFilled > 0) {
       const executorRepository = getExecutorRepository();
       const allOrders = await executorRepository.getOrdersByPlanId(runSummary.planId);
-      const openOrders = allOrders.filter((o) => o.status === 'open');
+      const openOrders = allOrders.filter(
+        (o) => o.status === 'open' || o.status === 'partially_filled'
+      );
 
       if (openOrders.length > 0) {
         console.log('📝 Open Orders:');
@@ -93,11 +121,89 @@ export async function executeTradePlan(filePath?: string, reexecute?: boolean):
           console.log(`  Outcome: ${order.outcome}`);
           console.log(`  Side: ${order.side}`);
           console.log(`  Order Type: ${order.orderType}`);
-          console.log(`  Size: $${parseFloat(order.size).toFixed(2)} USDC`);
+          console.log(`  Size: ${formatSize(parseFloat(order.size), order.sizeUnit)}`);
           if (order.price) {
             console.log(`  Limit Price: ${parseFloat(order.price).toFixed(4)}`);
           }
-          console.log(`  Status: Open (waiting for price)`);
+          if (order.expiresAt) {
+            console.log(`  Expires At: ${order.expiresAt.toISOString()}`);
+          }
+          console.log(
+            order.status === 'partially_filled'
+              ? `  Status: Partially filled (remainder waiting for price)`
+              : `  Status: Open (waiting for price)`
+          );
+          console.log('');
+        }
+      }
+    }
+
+    // Display dormant trigger orders if any
+    if (runSummary.ordersPending > 0) {
+      const executorRepository = getExecutorRepository();
+      const allOrders = await executorRepository.getOrdersByPlanId(runSummary.planId);
+      const pendingOrders = allOrders.filter((o) => o.status === 'pending');
+
+      if (pendingOrders.length > 0) {
+        console.log('⏳ Pending Trigger Orders:');
+        console.log('');
+        for (const order of pendingOrders) {
+          console.log(`  Order ID: ${order.id}`);
+          console.log(`  Market Token: ${order.marketTokenId}`);
+          console.log(`  Outcome: ${order.outcome}`);
+          console.log(`  Side: ${order.side}`);
+          console.log(`  Order Type: ${order.orderType}`);
+          console.log(
+            order.positionPercent
+              ? `  Size: ${parseFloat(order.positionPercent)}% of position (currently ${formatSize(parseFloat(order.size), order.sizeUnit)}, resolved when triggered)`
+              : `  Size: ${formatSize(parseFloat(order.size), order.sizeUnit)}`
+          );
+          console.log(
+            `  Trigger: ${parseFloat(order.triggerPrice!).toFixed(4)} (${order.triggerReference})`
+          );
+          if (order.orderType === 'TRAILING_STOP') {
+            const trail = order.trailingOffset
+              ? parseFloat(order.trailingOffset).toFixed(4)
+              : `${parseFloat(order.trailingPercent!)}%`;
+            console.log(
+              `  Trailing: ${trail} below high-water mark ${parseFloat(order.highWaterMark!).toFixed(4)}`
+            );
+          }
+          console.log(
+            order.price
+              ? `  Places: LIMIT @ ${parseFloat(order.price).toFixed(4)}`
+              : `  Places: MARKET`
+          );
+          console.log('');
+        }
+      }
+    }
+
+    // Display sliced (TWAP) parents still being worked
+    if (runSummary.ordersWorking > 0) {
+      const executorRepository = getExecutorRepository();
+      const allOrders = await executorRepository.getOrdersByPlanId(runSummary.planId);
+      const workingOrders = allOrders.filter((o) => o.status === 'working');
+
+      if (workingOrders.length > 0) {
+        console.log('🧩 Working Sliced Orders:');
+        console.log('');
+        for (const order of workingOrders) {
+          const children = await executorRepository.getChildOrders(order.id);
+          const progress = getSliceProgress(order, children);
+
+          console.log(`  Order ID: ${order.id}`);
+          console.log(`  Market Token: ${order.marketTokenId}`);
+          console.log(`  Outcome: ${order.outcome}`);
+          console.log(`  Side: ${order.side}`);
+          console.log(`  Order Type: ${order.orderType}`);
+          console.log(
+            `  Filled: ${progress.filledSize.toFixed(2)} of ${formatSize(progress.targetSize, progress.sizeUnit)}`
+          );
+          console.log(`  Slices Placed: ${progress.slicesPlaced} of ${progress.sliceCount}`);
+          if (order.nextSliceAt && progress.remainingSlices > 0) {
+            console.log(`  Next Slice At: ${order.nextSliceAt.toISOString()} (placed by sweep:open-orders)`);
+          }
           console.log('');
         }
       }
@@ -112,7 +218,9 @@ export async function executeTradePlan(filePath?: string, reexecute?: boolean):
         console.log(`  Net Quantity: ${position.netQuantity.toFixed(2)} tokens`);
         console.log(`  Avg Price: ${position.avgPrice.toFixed(4)}`);
         console.log(`  Total Cost: $${position.totalCost.toFixed(2)}`);
-        console.log(`  Realized P&L: ${position.realizedPnL >= 0 ? '+' : ''}$${position.realizedPnL.toFixed(2)}`);
+        console.log(`  Gross P&L: ${formatPnL(position.grossPnL)}`);
+        console.log(`  Fees: $${position.fees.toFixed(2)}`);
+        console.log(`  Net P&L: ${formatPnL(position.realizedPnL)}`);
         console.log('');
       }
     }
@@ -131,13 +239,14 @@ export async function executeTradePlan(filePath?: string, reexecute?: boolean):
         planId: tradePlan.planId,
         ordersPlaced: runSummary.ordersPlaced,
         ordersFilled: runSummary.ordersFilled,
+        ordersFailed: runSummary.ordersFailed,
         totalPnL: runSummary.totalPnL,
       },
-      'Command completed successfully'
+      failedTrades > 0 ? 'Command completed with failed trades' : 'Command completed successfully'
     );
 
-    // Exit with success
-    process.exit(0);
+    // Exit with success, or failure if any trade of an onError 'continue' plan failed
+    process.exit(failedTrades > 0 ? 1 : 0);
   } catch (error) {
     // Handle validation errors with detailed messages
     if (error instanceof ValidationError) {
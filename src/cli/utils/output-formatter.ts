@@ -46,6 +46,20 @@ export function formatKeyValue(key: string, value: string | number): string {
   return `  ${key}: ${value}`;
 }
 
+/**
+ * Format a signed USDC P&L amount (e.g. +$1.23, $-0.50)
+ */
+export function formatPnL(amount: number): string {
+  return `${amount >= 0 ? '+' : ''}$${amount.toFixed(2)}`;
+}
+
+/**
+ * Format an order size in its unit (e.g. $100.00 USDC, 25.50 shares)
+ */
+export function formatSize(amount: number, sizeUnit: 'usdc' | 'shares' = 'usdc'): string {
+  return sizeUnit === 'shares' ? `${amount.toFixed(2)} shares` : `$${amount.toFixed(2)} USDC`;
+}
+
 /**
  * Format JSON for display
  */
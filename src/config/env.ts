@@ -19,6 +19,9 @@ const envSchema = z.object({
   CLOB_API_URL: z.string().url().default('https://clob.polymarket.com'),
   CHAIN_ID: z.string().default('137'),
 
+  // Polymarket Gamma (market metadata, slug lookup)
+  GAMMA_API_URL: z.string().url().default('https://gamma-api.polymarket.com'),
+
   // Logging
   LOG_LEVEL: z
     .enum(['debug', 'info', 'warn', 'error'])
@@ -26,8 +29,19 @@ const envSchema = z.object({
     .optional(),
 
   // Live Trading Credentials (Phase 3+)
+  POLYMARKET_PRIVATE_KEY: z.string().optional(),
   POLYMARKET_API_KEY: z.string().optional(),
   POLYMARKET_API_SECRET: z.string().optional(),
+  POLYMARKET_API_PASSPHRASE: z.string().optional(),
+  POLYMARKET_SIGNATURE_TYPE: z.string().default('0'), // 0=EOA, 1=Poly proxy, 2=Gnosis safe
+  POLYMARKET_FUNDER_ADDRESS: z.string().optional(),
+
+  // Fee schedule in basis points of fill notional (maker = resting, taker = crossing)
+  FEE_MAKER_BPS: z.string().regex(/^\d+(\.\d+)?$/, 'Must be a non-negative number').default('0'),
+  FEE_TAKER_BPS: z.string().regex(/^\d+(\.\d+)?$/, 'Must be a non-negative number').default('0'),
+
+  // Cost basis of closed lots: oldest lot first (fifo) or weighted average of open lots
+  POSITION_ACCOUNTING_METHOD: z.enum(['fifo', 'average']).default('fifo'),
 });
 
 export type Env = z.infer<typeof envSchema>;
@@ -79,13 +93,37 @@ export const env = {
   get CHAIN_ID() {
     return getEnv().CHAIN_ID;
   },
+  get GAMMA_API_URL() {
+    return getEnv().GAMMA_API_URL;
+  },
   get LOG_LEVEL() {
     return getEnv().LOG_LEVEL;
   },
+  get POLYMARKET_PRIVATE_KEY() {
+    return getEnv().POLYMARKET_PRIVATE_KEY;
+  },
   get POLYMARKET_API_KEY() {
     return getEnv().POLYMARKET_API_KEY;
   },
   get POLYMARKET_API_SECRET() {
     return getEnv().POLYMARKET_API_SECRET;
   },
+  get POLYMARKET_API_PASSPHRASE() {
+    return getEnv().POLYMARKET_API_PASSPHRASE;
+  },
+  get POLYMARKET_SIGNATURE_TYPE() {
+    return getEnv().POLYMARKET_SIGNATURE_TYPE;
+  },
+  get POLYMARKET_FUNDER_ADDRESS() {
+    return getEnv().POLYMARKET_FUNDER_ADDRESS;
+  },
+  get FEE_MAKER_BPS() {
+    return getEnv().FEE_MAKER_BPS;
+  },
+  get FEE_TAKER_BPS() {
+    return getEnv().FEE_TAKER_BPS;
+  },
+  get POSITION_ACCOUNTING_METHOD() {
+    return getEnv().POSITION_ACCOUNTING_METHOD;
+  },
 };
@@ -74,3 +74,37 @@ export class MarketNotFoundError extends ExecutionError {
     });
   }
 }
+
+/**
+ * Order Not Found Error
+ *
+ * Thrown when an order ID does not exist.
+ */
+export class OrderNotFoundError extends ExecutionError {
+  constructor(orderId: string) {
+    super(`Order not found: ${orderId}`, {
+      statusCode: 404,
+      details: {
+        orderId,
+      },
+    });
+  }
+}
+
+/**
+ * Order Not Cancellable Error
+ *
+ * Thrown when attempting to cancel an order that is no longer working
+ * (already filled, cancelled or failed).
+ */
+export class OrderNotCancellableError extends ExecutionError {
+  constructor(orderId: string, status: string) {
+    super(`Order ${orderId} cannot be cancelled (status: ${status})`, {
+      statusCode: 409,
+      details: {
+        orderId,
+        status,
+      },
+    });
+  }
+}
@@ -1,11 +1,55 @@
 import { z } from 'zod';
 
 /**
- * Trade Plan Schema v0.0.7
+ * Trade Plan Schema v0.0.21
  *
  * This is the single source of truth for trade plan validation.
  * JSON Schema is auto-generated from this Zod schema.
  *
+ * v0.0.21 changes:
+ * - outcome is optional: inferred from the token's market metadata when omitted
+ *
+ * v0.0.20 changes:
+ * - marketTokenId accepts a market slug, resolved to the outcome's token ID via Gamma
+ *
+ * v0.0.19 changes:
+ * - Added atomic plans: pre-flight checks, and a single transaction in paper mode
+ *
+ * v0.0.18 changes:
+ * - Added plan-level onError policy (halt / continue)
+ *
+ * v0.0.17 changes:
+ * - Added optional trade id and dependsOn conditions; plans execute as a dependency graph
+ *
+ * v0.0.16 changes:
+ * - Added targetPosition trades: side and size are derived from the current position
+ * - side is optional for targetPosition trades
+ *
+ * v0.0.15 changes:
+ * - Added optional sizeUnit (usdc / shares) and position-based sizing via closePosition / percentOfPosition
+ * - size is optional for trades sized from the current position
+ *
+ * v0.0.14 changes:
+ * - Added optional slicing (TWAP) policy splitting a trade into child orders across runs
+ *
+ * v0.0.13 changes:
+ * - Added TRAILING_STOP order type with trailingOffset / trailingPercent
+ *
+ * v0.0.12 changes:
+ * - Added optional orderGroup (OCO / BRACKET) linking trades whose fills cancel each other
+ *
+ * v0.0.11 changes:
+ * - Added STOP / TAKE_PROFIT trigger order types with triggerPrice and triggerReference
+ *
+ * v0.0.10 changes:
+ * - Added optional maxPrice (BUY) / minPrice (SELL) price protection for MARKET orders
+ *
+ * v0.0.9 changes:
+ * - Added optional timeInForce (GTC / IOC / FOK)
+ *
+ * v0.0.8 changes:
+ * - Added optional expiresAt / ttlMinutes for good-til-date LIMIT orders
+ *
  * v0.0.7 changes:
  * - Added optional notes field at trade level for individual trade documentation
  *
@@ -16,7 +60,7 @@ import { z } from 'zod';
  * - Renamed marketId to marketTokenId for clarity (token ID is required, not market ID)
  */
 
-export const TRADE_PLAN_SCHEMA_VERSION = 'v0.0.7';
+export const TRADE_PLAN_SCHEMA_VERSION = 'v0.0.21';
 
 // Enum schemas
 export const OutcomeSchema = z.enum(['YES', 'NO'], {
@@ -27,39 +71,302 @@ export const SideSchema = z.enum(['BUY', 'SELL'], {
   errorMap: () => ({ message: 'Side must be either "BUY" or "SELL"' }),
 });
 
-export const OrderTypeSchema = z.enum(['MARKET', 'LIMIT'], {
-  errorMap: () => ({ message: 'Order type must be either "MARKET" or "LIMIT"' }),
+export const OrderTypeSchema = z.enum(
+  ['MARKET', 'LIMIT', 'STOP', 'TAKE_PROFIT', 'TRAILING_STOP'],
+  {
+    errorMap: () => ({
+      message:
+        'Order type must be "MARKET", "LIMIT", "STOP", "TAKE_PROFIT" or "TRAILING_STOP"',
+    }),
+  }
+);
+
+export const TimeInForceSchema = z.enum(['GTC', 'IOC', 'FOK'], {
+  errorMap: () => ({ message: 'Time in force must be "GTC", "IOC" or "FOK"' }),
+});
+
+export const SizeUnitSchema = z.enum(['usdc', 'shares'], {
+  errorMap: () => ({ message: 'Size unit must be either "usdc" or "shares"' }),
 });
 
 export const ModeSchema = z.enum(['paper', 'live'], {
   errorMap: () => ({ message: 'Mode must be either "paper" or "live"' }),
 });
 
+export const OnErrorSchema = z.enum(['halt', 'continue'], {
+  errorMap: () => ({ message: 'onError must be either "halt" or "continue"' }),
+});
+
+export const TriggerReferenceSchema = z.enum(['midpoint', 'last_trade'], {
+  errorMap: () => ({ message: 'Trigger reference must be "midpoint" or "last_trade"' }),
+});
+
+export const OrderGroupTypeSchema = z.enum(['OCO', 'BRACKET'], {
+  errorMap: () => ({ message: 'Order group type must be "OCO" or "BRACKET"' }),
+});
+
+export const OrderGroupRoleSchema = z.enum(['entry', 'exit'], {
+  errorMap: () => ({ message: 'Order group role must be "entry" or "exit"' }),
+});
+
+export const DependencyConditionSchema = z.enum(['filled', 'not_filled', 'fill_price_below'], {
+  errorMap: () => ({
+    message: 'Dependency condition must be "filled", "not_filled" or "fill_price_below"',
+  }),
+});
+
+export const OrderGroupSchema = z
+  .object({
+    id: z
+      .string()
+      .min(1, 'Order group ID is required and cannot be empty')
+      .regex(
+        /^[a-zA-Z0-9-_]+$/,
+        'Order group ID must contain only alphanumeric characters, hyphens, and underscores'
+      )
+      .describe('Group identifier shared by every trade in the group (unique within the plan)'),
+
+    type: OrderGroupTypeSchema.describe(
+      'OCO: the first leg to fill cancels the others. BRACKET: one entry plus STOP / TAKE_PROFIT / TRAILING_STOP exits that arm once the entry fills; the first exit to fill cancels the others'
+    ),
+
+    role: OrderGroupRoleSchema.optional().describe(
+      'BRACKET only: entry (exactly one per group) or exit'
+    ),
+  })
+  .refine((group) => (group.type === 'BRACKET') === (group.role !== undefined), {
+    message: 'role is required for BRACKET groups and not allowed for OCO groups',
+    path: ['role'],
+  });
+
+export const SlicingSchema = z.object({
+  slices: z
+    .number()
+    .int('slices must be a whole number')
+    .min(2, 'slices must be at least 2')
+    .max(100, 'slices must be at most 100')
+    .describe('Number of child orders the trade size is split into'),
+
+  intervalMinutes: z
+    .number()
+    .positive('intervalMinutes must be greater than 0')
+    .describe('Minimum minutes between child orders (slices after the first are placed by sweeps)'),
+});
+
+export const TargetPositionSchema = z.object({
+  size: z
+    .number()
+    .nonnegative('targetPosition size cannot be negative')
+    .describe('Position to hold once the trade executes, in sizeUnit (0 = exit the position)'),
+
+  sizeUnit: SizeUnitSchema.optional().describe(
+    'Unit of size: usdc (default) for exposure valued at the current midpoint, shares for a token quantity'
+  ),
+});
+
+export const TradeDependencySchema = z
+  .object({
+    tradeId: z
+      .string()
+      .min(1, 'dependsOn tradeId is required and cannot be empty')
+      .describe('id of the trade in the same plan this trade waits for'),
+
+    condition: DependencyConditionSchema.describe(
+      'filled: the trade filled completely. not_filled: it did not (resting, cancelled, pending trigger or skipped). fill_price_below: it filled at an average price below price'
+    ),
+
+    price: z
+      .number()
+      .gt(0, 'dependsOn price must be greater than 0')
+      .lt(1, 'dependsOn price must be less than 1')
+      .optional()
+      .describe('fill_price_below only: average fill price the dependency must beat'),
+  })
+  .refine(
+    (dependency) =>
+      (dependency.condition === 'fill_price_below') === (dependency.price !== undefined),
+    {
+      message: 'price is required for fill_price_below conditions and not allowed otherwise',
+      path: ['price'],
+    }
+  );
+
+/**
+ * Whether an order type is a dormant trigger order (STOP / TAKE_PROFIT / TRAILING_STOP)
+ */
+export function isTriggerOrderType(orderType: OrderType): orderType is TriggerOrderType {
+  return orderType === 'STOP' || orderType === 'TAKE_PROFIT' || orderType === 'TRAILING_STOP';
+}
+
+/**
+ * Whether a trade is sized from the current position (closePosition / percentOfPosition)
+ */
+export function isPositionSized(data: {
+  closePosition?: boolean;
+  percentOfPosition?: number;
+}): boolean {
+  return data.closePosition === true || data.percentOfPosition !== undefined;
+}
+
+/**
+ * Whether a trade executes as a MARKET order once placed
+ *
+ * True for MARKET orders and for trigger orders without a limit price.
+ */
+function executesAsMarket(data: { orderType: OrderType; price?: number }): boolean {
+  return (
+    data.orderType === 'MARKET' ||
+    (isTriggerOrderType(data.orderType) && data.price === undefined)
+  );
+}
+
 // Trade schema with conditional validation
 export const TradeSchema = z
   .object({
+    id: z
+      .string()
+      .min(1, 'Trade ID cannot be empty')
+      .regex(
+        /^[a-zA-Z0-9-_]+$/,
+        'Trade ID must contain only alphanumeric characters, hyphens, and underscores'
+      )
+      .optional()
+      .describe('Optional identifier other trades reference in dependsOn (unique within the plan)'),
+
     marketTokenId: z
       .string()
       .min(1, 'Market token ID is required and cannot be empty')
-      .describe('Polymarket token ID (ERC1155 token ID for the specific market outcome). This is the long numeric ID used by the CLOB API, not the market ID or slug.'),
+      .describe('Polymarket token ID (ERC1155 token ID for the specific market outcome), the long numeric ID used by the CLOB API. A market slug is also accepted and resolved to the token ID of the trade\'s outcome via the Gamma API.'),
 
-    outcome: OutcomeSchema.describe('Outcome to trade: YES or NO'),
+    outcome: OutcomeSchema.optional().describe(
+      'Outcome to trade: YES or NO. Checked against the token\'s market; inferred from it when omitted (required with a market slug)'
+    ),
 
-    side: SideSchema.describe('Order side: BUY to acquire position, SELL to reduce position'),
+    side: SideSchema.optional().describe(
+      'Order side: BUY to acquire position, SELL to reduce position. Required unless targetPosition is set'
+    ),
 
-    orderType: OrderTypeSchema.describe('Order type: MARKET for immediate execution, LIMIT for specified price'),
+    orderType: OrderTypeSchema.describe(
+      'Order type: MARKET for immediate execution, LIMIT for specified price, STOP / TAKE_PROFIT for dormant orders placed once triggerPrice is reached, TRAILING_STOP for a SELL stop that ratchets up with the best observed price'
+    ),
 
     size: z
       .number()
       .positive('Size must be greater than 0')
-      .describe('Order size in USDC collateral (e.g., 100 = $100 worth)'),
+      .optional()
+      .describe(
+        'Order size in sizeUnit: USDC collateral by default (e.g., 100 = $100 worth). Required unless closePosition or percentOfPosition is set'
+      ),
+
+    sizeUnit: SizeUnitSchema.optional().describe(
+      'Unit of size: usdc (default) for USDC collateral, shares for an exact outcome token quantity'
+    ),
+
+    closePosition: z
+      .boolean()
+      .optional()
+      .describe(
+        'SELL the entire current position (resolved to a token quantity when the trade executes; trigger orders resolve when they fire)'
+      ),
+
+    percentOfPosition: z
+      .number()
+      .gt(0, 'percentOfPosition must be greater than 0')
+      .max(100, 'percentOfPosition must be at most 100')
+      .optional()
+      .describe(
+        'SELL this percentage of the current position (resolved to a token quantity when the trade executes; trigger orders resolve when they fire)'
+      ),
 
     price: z
       .number()
       .gt(0, 'Price must be greater than 0')
       .lt(1, 'Price must be less than 1')
       .optional()
-      .describe('Limit price (required for LIMIT orders, ignored for MARKET orders)'),
+      .describe(
+        'Limit price (required for LIMIT orders, ignored for MARKET orders). On STOP / TAKE_PROFIT orders, places a LIMIT at this price when triggered instead of a MARKET order'
+      ),
+
+    triggerPrice: z
+      .number()
+      .gt(0, 'triggerPrice must be greater than 0')
+      .lt(1, 'triggerPrice must be less than 1')
+      .optional()
+      .describe(
+        'Trigger level for STOP / TAKE_PROFIT orders. STOP fires when the reference price moves against the position (SELL: at or below, BUY: at or above); TAKE_PROFIT fires when it moves in favour (SELL: at or above, BUY: at or below)'
+      ),
+
+    triggerReference: TriggerReferenceSchema.optional().describe(
+      'Reference price compared against triggerPrice (or tracked by a trailing stop): midpoint (default) or last_trade'
+    ),
+
+    trailingOffset: z
+      .number()
+      .gt(0, 'trailingOffset must be greater than 0')
+      .lt(1, 'trailingOffset must be less than 1')
+      .optional()
+      .describe('TRAILING_STOP: stop sits this far (in price) below the best observed reference price'),
+
+    trailingPercent: z
+      .number()
+      .gt(0, 'trailingPercent must be greater than 0')
+      .lt(100, 'trailingPercent must be less than 100')
+      .optional()
+      .describe('TRAILING_STOP: stop sits this percentage below the best observed reference price'),
+
+    maxPrice: z
+      .number()
+      .gt(0, 'maxPrice must be greater than 0')
+      .lt(1, 'maxPrice must be less than 1')
+      .optional()
+      .describe(
+        'Price protection for MARKET BUY orders: never fill above this price. By default the part of the order available at or below the cap fills and the remainder keeps working at the cap (GTC); set timeInForce IOC to cancel the remainder instead, or FOK to fill the full size or nothing'
+      ),
+
+    minPrice: z
+      .number()
+      .gt(0, 'minPrice must be greater than 0')
+      .lt(1, 'minPrice must be less than 1')
+      .optional()
+      .describe(
+        'Price protection for MARKET SELL orders: never fill below this price. By default the part of the order available at or above the cap fills and the remainder keeps working at the cap (GTC); set timeInForce IOC to cancel the remainder instead, or FOK to fill the full size or nothing'
+      ),
+
+    timeInForce: TimeInForceSchema.optional().describe(
+      'Time in force: GTC rests until filled or cancelled (LIMIT default), IOC fills what crosses and cancels the rest, FOK fills the entire size or nothing. MARKET orders default to FOK, or to GTC when capped with maxPrice/minPrice (the remainder works at the cap); only capped MARKET orders may rest (GTC).'
+    ),
+
+    expiresAt: z
+      .string()
+      .datetime({ offset: true, message: 'expiresAt must be an ISO 8601 timestamp' })
+      .optional()
+      .describe('Good-til-date: ISO 8601 timestamp after which an unfilled LIMIT order expires (LIMIT only)'),
+
+    ttlMinutes: z
+      .number()
+      .positive('ttlMinutes must be greater than 0')
+      .optional()
+      .describe('Good-til-date: minutes after placement until an unfilled LIMIT order expires (LIMIT only)'),
+
+    targetPosition: TargetPositionSchema.optional().describe(
+      'Desired position instead of an order: side and size are derived from the difference to the current position when the trade executes'
+    ),
+
+    slicing: SlicingSchema.optional().describe(
+      'Optional TWAP policy: work size as a parent order through equal child orders placed across successive runs, resizing later slices to catch up on unfilled size'
+    ),
+
+    orderGroup: OrderGroupSchema.optional().describe(
+      'Optional OCO / BRACKET group: when a leg fills, its sibling legs are cancelled automatically'
+    ),
+
+    dependsOn: z
+      .array(TradeDependencySchema)
+      .min(1, 'dependsOn needs at least one dependency when set')
+      .optional()
+      .describe(
+        'Trades that must execute first; this trade is placed only if every condition holds once they have, and is recorded as cancelled otherwise'
+      ),
 
     notes: z
       .string()
@@ -78,36 +385,394 @@ export const TradeSchema = z
       message: 'Price is required for LIMIT orders',
       path: ['price'],
     }
-  );
+  )
+  .refine((data) => data.side !== undefined || data.targetPosition !== undefined, {
+    message: 'Side is required unless targetPosition is set',
+    path: ['side'],
+  })
+  .refine(
+    (data) =>
+      data.size !== undefined || isPositionSized(data) || data.targetPosition !== undefined,
+    {
+      message: 'Size is required unless closePosition, percentOfPosition or targetPosition is set',
+      path: ['size'],
+    }
+  )
+  .refine(
+    (data) =>
+      data.targetPosition === undefined ||
+      (data.side === undefined &&
+        data.size === undefined &&
+        data.sizeUnit === undefined &&
+        !isPositionSized(data)),
+    {
+      message:
+        'targetPosition derives side and size from the current position: set it without side, size, sizeUnit, closePosition or percentOfPosition',
+      path: ['targetPosition'],
+    }
+  )
+  .refine(
+    (data) =>
+      data.targetPosition === undefined ||
+      ((data.orderType === 'MARKET' || data.orderType === 'LIMIT') &&
+        data.orderGroup === undefined),
+    {
+      message: 'targetPosition is only supported for MARKET and LIMIT orders outside order groups',
+      path: ['targetPosition'],
+    }
+  )
+  .refine(
+    (data) =>
+      !isPositionSized(data) ||
+      (data.size === undefined &&
+        data.sizeUnit === undefined &&
+        !(data.closePosition === true && data.percentOfPosition !== undefined)),
+    {
+      message:
+        'closePosition and percentOfPosition size the trade from the current position: set one of them, without size or sizeUnit',
+      path: ['closePosition'],
+    }
+  )
+  .refine((data) => !isPositionSized(data) || data.side === 'SELL', {
+    message: 'closePosition and percentOfPosition are only supported for SELL orders',
+    path: ['side'],
+  })
+  .refine(
+    (data) =>
+      !(data.orderType === 'STOP' || data.orderType === 'TAKE_PROFIT') ||
+      data.triggerPrice !== undefined,
+    {
+      message: 'triggerPrice is required for STOP and TAKE_PROFIT orders',
+      path: ['triggerPrice'],
+    }
+  )
+  .refine(
+    (data) =>
+      data.orderType === 'STOP' ||
+      data.orderType === 'TAKE_PROFIT' ||
+      data.triggerPrice === undefined,
+    {
+      message: 'triggerPrice is only supported for STOP and TAKE_PROFIT orders',
+      path: ['triggerPrice'],
+    }
+  )
+  .refine(
+    (data) => isTriggerOrderType(data.orderType) || data.triggerReference === undefined,
+    {
+      message: 'triggerReference is only supported for STOP, TAKE_PROFIT and TRAILING_STOP orders',
+      path: ['triggerReference'],
+    }
+  )
+  .refine(
+    (data) =>
+      data.orderType === 'TRAILING_STOP'
+        ? (data.trailingOffset === undefined) !== (data.trailingPercent === undefined)
+        : data.trailingOffset === undefined && data.trailingPercent === undefined,
+    {
+      message: 'TRAILING_STOP orders require exactly one of trailingOffset or trailingPercent (and other order types accept neither)',
+      path: ['trailingOffset'],
+    }
+  )
+  .refine(
+    (data) =>
+      data.orderType !== 'TRAILING_STOP' || (data.side === 'SELL' && data.price === undefined),
+    {
+      message: 'TRAILING_STOP orders must be SELL orders without a price (use minPrice for price protection)',
+      path: ['orderType'],
+    }
+  )
+  .refine(
+    (data) => !(data.expiresAt !== undefined && data.ttlMinutes !== undefined),
+    {
+      message: 'Specify either expiresAt or ttlMinutes, not both',
+      path: ['ttlMinutes'],
+    }
+  )
+  .refine(
+    (data) =>
+      data.orderType === 'LIMIT' ||
+      (data.expiresAt === undefined && data.ttlMinutes === undefined),
+    {
+      message: 'expiresAt and ttlMinutes are only supported for LIMIT orders',
+      path: ['orderType'],
+    }
+  )
+  .refine(
+    (data) =>
+      data.maxPrice === undefined || (executesAsMarket(data) && data.side !== 'SELL'),
+    {
+      message:
+        'maxPrice is only supported for MARKET BUY orders and trigger BUY orders without a price (use price for LIMIT orders); targetPosition trades apply it when they BUY',
+      path: ['maxPrice'],
+    }
+  )
+  .refine(
+    (data) =>
+      data.minPrice === undefined || (executesAsMarket(data) && data.side !== 'BUY'),
+    {
+      message:
+        'minPrice is only supported for MARKET SELL orders and trigger SELL orders without a price (use price for LIMIT orders); targetPosition trades apply it when they SELL',
+      path: ['minPrice'],
+    }
+  )
+  .refine(
+    (data) =>
+      !(
+        executesAsMarket(data) &&
+        data.timeInForce === 'GTC' &&
+        data.maxPrice === undefined &&
+        data.minPrice === undefined
+      ),
+    {
+      message: 'MARKET orders without maxPrice/minPrice cannot rest on the book: use IOC or FOK',
+      path: ['timeInForce'],
+    }
+  )
+  .refine(
+    (data) =>
+      data.timeInForce === undefined ||
+      data.timeInForce === 'GTC' ||
+      (data.expiresAt === undefined && data.ttlMinutes === undefined),
+    {
+      message: 'expiresAt and ttlMinutes only apply to GTC orders',
+      path: ['timeInForce'],
+    }
+  )
+  .refine(
+    (data) =>
+      data.slicing === undefined ||
+      ((data.orderType === 'MARKET' || data.orderType === 'LIMIT') &&
+        data.orderGroup === undefined),
+    {
+      message: 'slicing is only supported for MARKET and LIMIT orders outside order groups',
+      path: ['slicing'],
+    }
+  )
+  .refine(
+    (data) => data.orderGroup?.role !== 'exit' || isTriggerOrderType(data.orderType),
+    {
+      message: 'BRACKET exits must be STOP, TAKE_PROFIT or TRAILING_STOP orders',
+      path: ['orderGroup', 'role'],
+    }
+  )
+  .refine((data) => data.dependsOn === undefined || data.orderGroup === undefined, {
+    message: 'dependsOn is not supported for order group legs (other trades may depend on them)',
+    path: ['dependsOn'],
+  });
 
 // Trade Plan schema
-export const TradePlanSchema = z.object({
-  planId: z
-    .string()
-    .min(1, 'Plan ID is required and cannot be empty')
-    .regex(
-      /^[a-zA-Z0-9-_]+$/,
-      'Plan ID must contain only alphanumeric characters, hyphens, and underscores'
-    )
-    .describe('Unique identifier for this trade plan execution (used for idempotency)'),
-
-  mode: ModeSchema.describe("Execution mode: 'paper' for simulation, 'live' for real trading"),
-
-  notes: z
-    .string()
-    .optional()
-    .describe('Optional notes about the trade plan rationale, strategy, or context'),
-
-  trades: z
-    .array(TradeSchema)
-    .min(1, 'At least one trade is required')
-    .describe('List of trades to execute in this plan'),
-});
+export const TradePlanSchema = z
+  .object({
+    planId: z
+      .string()
+      .min(1, 'Plan ID is required and cannot be empty')
+      .regex(
+        /^[a-zA-Z0-9-_]+$/,
+        'Plan ID must contain only alphanumeric characters, hyphens, and underscores'
+      )
+      .describe('Unique identifier for this trade plan execution (used for idempotency)'),
+
+    mode: ModeSchema.describe("Execution mode: 'paper' for simulation, 'live' for real trading"),
+
+    onError: OnErrorSchema.optional().describe(
+      "What a failed trade does to the rest of the plan: 'halt' (default) stops the run, 'continue' records the trade as a failed order and runs the remaining trades"
+    ),
+
+    atomic: z
+      .boolean()
+      .optional()
+      .describe(
+        'All-or-nothing: quote every trade against current books and check SELL positions before executing anything. Paper plans also persist in a single transaction, so a failure leaves no orders behind'
+      ),
+
+    notes: z
+      .string()
+      .optional()
+      .describe('Optional notes about the trade plan rationale, strategy, or context'),
+
+    trades: z
+      .array(TradeSchema)
+      .min(1, 'At least one trade is required')
+      .describe('List of trades to execute in this plan'),
+  })
+  .superRefine((plan, ctx) => {
+    if (plan.atomic) {
+      if (plan.onError === 'continue') {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Atomic plans cannot use onError 'continue'",
+          path: ['onError'],
+        });
+      }
+
+      // Everything an atomic plan does must happen (and be quoted) now
+      plan.trades.forEach((trade, index) => {
+        if (
+          (trade.orderType !== 'MARKET' && trade.orderType !== 'LIMIT') ||
+          trade.slicing ||
+          trade.orderGroup ||
+          trade.dependsOn
+        ) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message:
+              'Atomic plans only support MARKET and LIMIT trades without slicing, orderGroup or dependsOn',
+            path: ['trades', index],
+          });
+        }
+      });
+    }
+
+    // Trade ids and dependencies span trades, so they are validated at plan level
+    const tradeIndexes = new Map<string, number>();
+    plan.trades.forEach((trade, index) => {
+      if (trade.id === undefined) {
+        return;
+      }
+      if (tradeIndexes.has(trade.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Trade ID '${trade.id}' is used by more than one trade`,
+          path: ['trades', index, 'id'],
+        });
+        return;
+      }
+      tradeIndexes.set(trade.id, index);
+    });
+
+    let dependenciesResolved = true;
+    plan.trades.forEach((trade, index) => {
+      trade.dependsOn?.forEach((dependency, dependencyIndex) => {
+        const target = tradeIndexes.get(dependency.tradeId);
+        if (target === undefined || target === index) {
+          dependenciesResolved = false;
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message:
+              target === undefined
+                ? `dependsOn references unknown trade ID '${dependency.tradeId}'`
+                : 'A trade cannot depend on itself',
+            path: ['trades', index, 'dependsOn', dependencyIndex, 'tradeId'],
+          });
+        }
+      });
+    });
+
+    if (dependenciesResolved) {
+      // Depth-first search: reaching a trade still on the stack closes a cycle
+      const state = new Map<number, 'visiting' | 'done'>();
+      const findCycle = (index: number): number | undefined => {
+        state.set(index, 'visiting');
+        for (const dependency of plan.trades[index].dependsOn ?? []) {
+          const target = tradeIndexes.get(dependency.tradeId)!;
+          if (state.get(target) === 'visiting') {
+            return index;
+          }
+          if (state.get(target) === undefined) {
+            const found = findCycle(target);
+            if (found !== undefined) {
+              return found;
+            }
+          }
+        }
+        state.set(index, 'done');
+        return undefined;
+      };
+
+      for (let index = 0; index < plan.trades.length; index++) {
+        const cycle = state.has(index) ? undefined : findCycle(index);
+        if (cycle !== undefined) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: 'dependsOn forms a cycle: trades cannot (indirectly) depend on each other',
+            path: ['trades', cycle, 'dependsOn'],
+          });
+          break;
+        }
+      }
+    }
+
+    // Order groups span trades, so they are validated at plan level
+    const groups = new Map<string, number[]>();
+    plan.trades.forEach((trade, index) => {
+      if (trade.orderGroup) {
+        groups.set(trade.orderGroup.id, [...(groups.get(trade.orderGroup.id) ?? []), index]);
+      }
+    });
+
+    for (const [groupId, indexes] of groups) {
+      const legs = indexes.map((index) => plan.trades[index]);
+      const issue = (index: number, message: string) =>
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Order group '${groupId}': ${message}`,
+          path: ['trades', index, 'orderGroup'],
+        });
+
+      if (legs.length < 2) {
+        issue(indexes[0], 'a group needs at least two trades');
+        continue;
+      }
+
+      const type = legs[0].orderGroup!.type;
+      const mixed = legs.findIndex((leg) => leg.orderGroup!.type !== type);
+      if (mixed !== -1) {
+        issue(indexes[mixed], `all trades in a group must share the same type (${type})`);
+        continue;
+      }
+
+      if (type !== 'BRACKET') {
+        continue;
+      }
+
+      const entries = legs.filter((leg) => leg.orderGroup!.role === 'entry');
+      if (entries.length !== 1) {
+        issue(indexes[0], 'a BRACKET group needs exactly one entry');
+        continue;
+      }
+      if (legs[0].orderGroup!.role !== 'entry') {
+        issue(indexes[0], 'the BRACKET entry must be listed before its exits');
+        continue;
+      }
+
+      const entry = legs[0];
+      legs.slice(1).forEach((exit, offset) => {
+        if (
+          exit.marketTokenId !== entry.marketTokenId ||
+          (exit.outcome !== undefined &&
+            entry.outcome !== undefined &&
+            exit.outcome !== entry.outcome) ||
+          exit.side === entry.side
+        ) {
+          issue(
+            indexes[offset + 1],
+            'BRACKET exits must trade the same token and outcome as the entry, on the opposite side'
+          );
+        }
+      });
+    }
+  });
 
 // Export TypeScript types inferred from Zod schemas
 export type Outcome = z.infer<typeof OutcomeSchema>;
 export type Side = z.infer<typeof SideSchema>;
 export type OrderType = z.infer<typeof OrderTypeSchema>;
+export type TriggerOrderType = Extract<OrderType, 'STOP' | 'TAKE_PROFIT' | 'TRAILING_STOP'>;
+export type TimeInForce = z.infer<typeof TimeInForceSchema>;
+export type SizeUnit = z.infer<typeof SizeUnitSchema>;
+export type TriggerReference = z.infer<typeof TriggerReferenceSchema>;
+export type OrderGroup = z.infer<typeof OrderGroupSchema>;
+export type DependencyCondition = z.infer<typeof DependencyConditionSchema>;
+export type TradeDependency = z.infer<typeof TradeDependencySchema>;
+export type TargetPosition = z.infer<typeof TargetPositionSchema>;
+export type Slicing = z.infer<typeof SlicingSchema>;
 export type Mode = z.infer<typeof ModeSchema>;
-export type Trade = z.infer<typeof TradeSchema>;
-export type TradePlan = z.infer<typeof TradePlanSchema>;
+export type OnError = z.infer<typeof OnErrorSchema>;
+export type SubmittedTrade = z.infer<typeof TradeSchema>;
+export type SubmittedTradePlan = z.infer<typeof TradePlanSchema>;
+
+/**
+ * Trade after market lookup: token ID resolved, outcome checked or inferred
+ */
+export type Trade = SubmittedTrade & { outcome: Outcome };
+export type TradePlan = Omit<SubmittedTradePlan, 'trades'> & { trades: Trade[] };
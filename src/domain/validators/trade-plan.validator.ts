@@ -1,5 +1,5 @@
 import { ZodError } from 'zod';
-import { TradePlanSchema, TradePlan } from '../schemas/trade-plan.schema';
+import { TradePlanSchema, SubmittedTradePlan } from '../schemas/trade-plan.schema';
 import { ValidationError } from '../errors/validation.error';
 import { validateMarketIdFormat, parseMarketId } from '../utils/market-id-parser';
 import { logger } from '../../infrastructure/logging/logger';
@@ -8,14 +8,15 @@ import { logger } from '../../infrastructure/logging/logger';
  * Validate a trade plan against the Zod schema
  *
  * @param input - Raw JSON input to validate
- * @returns Validated and typed TradePlan object
+ * @returns Validated plan (market slugs and omitted outcomes are resolved
+ *   by the market lookup service before execution)
  * @throws ValidationError if validation fails
  *
  * @example
  * const plan = validateTradePlan(jsonInput);
- * // plan is now typed as TradePlan with all fields validated
+ * // plan is now typed as SubmittedTradePlan with all fields validated
  */
-export function validateTradePlan(input: unknown): TradePlan {
+export function validateTradePlan(input: unknown): SubmittedTradePlan {
   try {
     // Step 1: Parse against Zod schema
     const parsed = TradePlanSchema.parse(input);
@@ -55,7 +56,7 @@ export function validateTradePlan(input: unknown): TradePlan {
  * @param plan - Parsed trade plan
  * @throws ValidationError if any market ID is invalid
  */
-function validateMarketIds(plan: TradePlan): void {
+function validateMarketIds(plan: SubmittedTradePlan): void {
   const errors: Array<{ field: string; message: string; code: string }> = [];
 
   plan.trades.forEach((trade, index) => {
@@ -110,7 +111,7 @@ function validateMarketIds(plan: TradePlan): void {
  */
 export function safeValidateTradePlan(
   input: unknown
-): { success: true; data: TradePlan } | { success: false; error: ValidationError } {
+): { success: true; data: SubmittedTradePlan } | { success: false; error: ValidationError } {
   try {
     const data = validateTradePlan(input);
     return { success: true, data };
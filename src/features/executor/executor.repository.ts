@@ -1,18 +1,64 @@
-import { eq, and } from 'drizzle-orm';
+import { eq, and, or, asc, inArray, isNull, lt, lte, sql, type SQL } from 'drizzle-orm';
 import { getDb } from '../../infrastructure/database/client.js';
 import {
   orders,
   executions,
+  positions,
+  positionLots,
+  lotClosures,
   type NewOrder,
   type NewExecution,
+  type NewPositionRecord,
+  type NewPositionLot,
+  type NewLotClosure,
   type Order,
   type Execution,
+  type PositionRecord,
 } from '../../infrastructure/database/schema.js';
+import { env } from '../../config/env.js';
 import { logger } from '../../infrastructure/logging/logger.js';
-import type { Position } from './executor.types.js';
+import { ExecutionError } from '../../domain/errors/execution.error.js';
+import {
+  allocateSell,
+  openLot,
+  sumUnits,
+  summarizeAllocations,
+  parseUnits,
+  AMOUNT_SCALE,
+  QUANTITY_SCALE,
+  type LotAllocation,
+  type OpenLot,
+} from '../positions/lot-ledger.js';
+import type {
+  Position,
+  OrderCancellation,
+  OrderWithFills,
+  RemainderHandling,
+} from './executor.types.js';
 
 const repoLogger = logger.child({ module: 'executor-repository' });
 
+/**
+ * Order statuses that are still working (may fill, be cancelled or expire)
+ */
+const WORKING_STATUSES: Array<Order['status']> = ['open', 'partially_filled'];
+
+/**
+ * Order statuses that can be cancelled: working orders, dormant trigger
+ * orders and sliced parents
+ */
+const CANCELLABLE_STATUSES: Array<Order['status']> = [
+  ...WORKING_STATUSES,
+  'pending',
+  'working',
+];
+
+/**
+ * Rows per insert when rewriting the positions tables (stays well under the
+ * Postgres bind parameter limit)
+ */
+const INSERT_BATCH_SIZE = 1000;
+
 /**
  * Repository for executor-related database operations
  * Handles orders, executions, and position calculations
@@ -33,15 +79,27 @@ export class ExecutorRepository {
 
   /**
    * Create a new execution record
+   * Applies it to the order's position in the same transaction
    */
   async createExecution(executionData: NewExecution): Promise<Execution> {
     repoLogger.debug({ executionData }, 'Creating execution');
 
     const db = getDb();
-    const [execution] = await db
-      .insert(executions)
-      .values(executionData)
-      .returning();
+    const execution = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(executions)
+        .values(executionData)
+        .returning();
+
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(eq(orders.id, created.orderId))
+        .limit(1);
+
+      await applyExecutionsToPosition(tx, order, [created]);
+      return created;
+    });
 
     repoLogger.info(
       { executionId: execution.id, orderId: execution.orderId },
@@ -55,7 +113,7 @@ export class ExecutorRepository {
    */
   async updateOrderStatus(
     orderId: string,
-    status: 'open' | 'filled' | 'partially_filled' | 'cancelled' | 'failed'
+    status: Order['status']
   ): Promise<void> {
     repoLogger.debug({ orderId, status }, 'Updating order status');
 
@@ -65,6 +123,121 @@ export class ExecutorRepository {
     repoLogger.info({ orderId, status }, 'Order status updated');
   }
 
+  /**
+   * Cancel a working order and record the cancellation audit fields
+   *
+   * @param orderId - Order to cancel
+   * @param cancellation - Who cancelled the order and why
+   * @returns Updated order, or null if the order was not in a cancellable status
+   */
+  async cancelOrder(
+    orderId: string,
+    cancellation: OrderCancellation
+  ): Promise<Order | null> {
+    repoLogger.debug({ orderId, cancellation }, 'Cancelling order');
+
+    const db = getDb();
+    const [order] = await db
+      .update(orders)
+      .set({
+        status: 'cancelled',
+        cancelledAt: new Date(),
+        cancelledBy: cancellation.cancelledBy,
+        cancelReason: cancellation.reason,
+      })
+      .where(
+        and(eq(orders.id, orderId), inArray(orders.status, CANCELLABLE_STATUSES))
+      )
+      .returning();
+
+    if (!order) {
+      repoLogger.warn({ orderId }, 'Order not in a cancellable status');
+      return null;
+    }
+
+    repoLogger.info(
+      { orderId, cancelledBy: cancellation.cancelledBy },
+      'Order cancelled'
+    );
+    return order;
+  }
+
+  /**
+   * Get a single order by ID
+   */
+  async getOrderById(orderId: string): Promise<Order | null> {
+    repoLogger.debug({ orderId }, 'Fetching order');
+
+    const db = getDb();
+    const result = await db
+      .select()
+      .from(orders)
+      .where(eq(orders.id, orderId))
+      .limit(1);
+
+    return result[0] ?? null;
+  }
+
+  /**
+   * Get the full cancel/replace chain containing an order
+   *
+   * Follows amendment links only (replaced_by_order_id): up to the original
+   * order, then down to the latest amendment. Trigger and slice children
+   * share parent_order_id but are not part of the chain.
+   *
+   * @param orderId - Any order in the chain
+   * @returns Orders ordered from original to latest replacement
+   */
+  async getOrderChain(orderId: string): Promise<Order[]> {
+    repoLogger.debug({ orderId }, 'Fetching order chain');
+
+    const start = await this.getOrderById(orderId);
+    if (!start) {
+      return [];
+    }
+
+    // Walk up to the original order
+    const ancestors: Order[] = [];
+    let current: Order = start;
+    while (current.parentOrderId) {
+      const parent = await this.getOrderById(current.parentOrderId);
+      if (parent?.replacedByOrderId !== current.id) {
+        break;
+      }
+      ancestors.unshift(parent);
+      current = parent;
+    }
+
+    // Walk down through replacements
+    const descendants: Order[] = [];
+    let tip: Order = start;
+    while (tip.replacedByOrderId) {
+      const replacement = await this.getOrderById(tip.replacedByOrderId);
+      if (!replacement) {
+        break;
+      }
+      descendants.push(replacement);
+      tip = replacement;
+    }
+
+    const chain = [...ancestors, start, ...descendants];
+    repoLogger.debug({ orderId, chainLength: chain.length }, 'Order chain fetched');
+    return chain;
+  }
+
+  /**
+   * Link an amended order to the order that replaced it
+   */
+  async setReplacedBy(orderId: string, replacementOrderId: string): Promise<void> {
+    const db = getDb();
+    await db
+      .update(orders)
+      .set({ replacedByOrderId: replacementOrderId })
+      .where(eq(orders.id, orderId));
+
+    repoLogger.debug({ orderId, replacementOrderId }, 'Order replacement linked');
+  }
+
   /**
    * Get all orders for a plan
    */
@@ -84,6 +257,349 @@ export class ExecutorRepository {
     return planOrders;
   }
 
+  /**
+   * Get every order in an OCO / BRACKET group with its filled quantity
+   *
+   * @param planId - Plan the group belongs to (group IDs are plan-scoped)
+   * @param orderGroupId - Group identifier
+   * @returns Group orders, oldest first
+   */
+  async getOrderGroup(planId: string, orderGroupId: string): Promise<OrderWithFills[]> {
+    repoLogger.debug({ planId, orderGroupId }, 'Fetching order group');
+
+    return await this.getOrdersWithFills(
+      and(eq(orders.planId, planId), eq(orders.orderGroupId, orderGroupId))!
+    );
+  }
+
+  /**
+   * Get the child orders placed by a sliced (TWAP) parent, with their fills
+   *
+   * @returns Child orders, oldest first
+   */
+  async getChildOrders(parentOrderId: string): Promise<OrderWithFills[]> {
+    repoLogger.debug({ parentOrderId }, 'Fetching child orders');
+
+    return await this.getOrdersWithFills(eq(orders.parentOrderId, parentOrderId));
+  }
+
+  /**
+   * Select orders matching `where` with their filled quantity and notional
+   */
+  private async getOrdersWithFills(where: SQL): Promise<OrderWithFills[]> {
+    const db = getDb();
+    const rows = await db
+      .select({
+        order: orders,
+        filledQuantity: sql<string>`coalesce(sum(${executions.quantity}), 0)`,
+        filledNotional: sql<string>`coalesce(sum(${executions.quantity} * ${executions.price}), 0)`,
+      })
+      .from(orders)
+      .leftJoin(executions, eq(executions.orderId, orders.id))
+      .where(where)
+      .groupBy(orders.id)
+      .orderBy(asc(orders.createdAt));
+
+    return rows.map((row) => ({
+      order: row.order,
+      filledQuantity: parseFloat(row.filledQuantity),
+      filledNotional: parseFloat(row.filledNotional),
+    }));
+  }
+
+  /**
+   * Get all sliced (TWAP) parents still working for a mode, oldest first
+   */
+  async getWorkingSlicedOrders(mode: 'paper' | 'live'): Promise<Order[]> {
+    repoLogger.debug({ mode }, 'Fetching working sliced orders');
+
+    const db = getDb();
+    return await db
+      .select()
+      .from(orders)
+      .where(and(eq(orders.status, 'working'), eq(orders.mode, mode)))
+      .orderBy(asc(orders.createdAt));
+  }
+
+  /**
+   * Claim the next slice of a sliced parent
+   *
+   * Advances slices_placed and next_slice_at only if no other run claimed the
+   * slice first (slices_placed still equals `slicesPlaced`).
+   *
+   * @param orderId - Sliced parent order
+   * @param slicesPlaced - Slices placed before this one
+   * @param nextSliceAt - When the slice after this one becomes due
+   * @returns True if the slice was claimed
+   */
+  async claimSlice(
+    orderId: string,
+    slicesPlaced: number,
+    nextSliceAt: Date
+  ): Promise<boolean> {
+    const db = getDb();
+    const claimed = await db
+      .update(orders)
+      .set({ slicesPlaced: slicesPlaced + 1, nextSliceAt })
+      .where(
+        and(
+          eq(orders.id, orderId),
+          eq(orders.status, 'working'),
+          eq(orders.slicesPlaced, slicesPlaced)
+        )
+      )
+      .returning({ id: orders.id });
+
+    return claimed.length > 0;
+  }
+
+  /**
+   * Undo a slice claim after placing the child order failed
+   *
+   * The slice becomes due again immediately.
+   */
+  async releaseSlice(orderId: string, slicesPlaced: number): Promise<void> {
+    const db = getDb();
+    await db
+      .update(orders)
+      .set({ slicesPlaced, nextSliceAt: new Date() })
+      .where(
+        and(
+          eq(orders.id, orderId),
+          eq(orders.status, 'working'),
+          eq(orders.slicesPlaced, slicesPlaced + 1)
+        )
+      );
+
+    repoLogger.info({ orderId, slicesPlaced }, 'Slice claim released');
+  }
+
+  /**
+   * Finish a sliced parent once its target is filled or its slices are used up
+   *
+   * @param orderId - Sliced parent order
+   * @param cancellation - Recorded when the parent finishes short of its target
+   * @returns Updated order, or null if the parent was no longer working
+   */
+  async completeSlicedOrder(
+    orderId: string,
+    cancellation?: OrderCancellation
+  ): Promise<Order | null> {
+    const db = getDb();
+    const [order] = await db
+      .update(orders)
+      .set(
+        cancellation
+          ? {
+              status: 'cancelled',
+              cancelledAt: new Date(),
+              cancelledBy: cancellation.cancelledBy,
+              cancelReason: cancellation.reason,
+            }
+          : { status: 'filled' }
+      )
+      .where(and(eq(orders.id, orderId), eq(orders.status, 'working')))
+      .returning();
+
+    if (order) {
+      repoLogger.info({ orderId, status: order.status }, 'Sliced order completed');
+    }
+    return order ?? null;
+  }
+
+  /**
+   * Get all working (open or partially filled) orders for a mode, oldest first
+   */
+  async getOpenOrders(mode: 'paper' | 'live'): Promise<Order[]> {
+    repoLogger.debug({ mode }, 'Fetching open orders');
+
+    const db = getDb();
+    const openOrders = await db
+      .select()
+      .from(orders)
+      .where(
+        and(inArray(orders.status, WORKING_STATUSES), eq(orders.mode, mode))
+      )
+      .orderBy(asc(orders.createdAt));
+
+    repoLogger.debug(
+      { mode, orderCount: openOrders.length },
+      'Open orders fetched'
+    );
+    return openOrders;
+  }
+
+  /**
+   * Get every cancellable order (working, pending trigger or sliced parent)
+   * for a mode, oldest first
+   */
+  async getCancellableOrders(mode: 'paper' | 'live'): Promise<Order[]> {
+    repoLogger.debug({ mode }, 'Fetching cancellable orders');
+
+    const db = getDb();
+    const cancellableOrders = await db
+      .select()
+      .from(orders)
+      .where(
+        and(inArray(orders.status, CANCELLABLE_STATUSES), eq(orders.mode, mode))
+      )
+      .orderBy(asc(orders.createdAt));
+
+    repoLogger.debug(
+      { mode, orderCount: cancellableOrders.length },
+      'Cancellable orders fetched'
+    );
+    return cancellableOrders;
+  }
+
+  /**
+   * Get all dormant trigger orders (STOP / TAKE_PROFIT / TRAILING_STOP) for a mode, oldest first
+   */
+  async getPendingTriggerOrders(mode: 'paper' | 'live'): Promise<Order[]> {
+    repoLogger.debug({ mode }, 'Fetching pending trigger orders');
+
+    const db = getDb();
+    const pendingOrders = await db
+      .select()
+      .from(orders)
+      .where(and(eq(orders.status, 'pending'), eq(orders.mode, mode)))
+      .orderBy(asc(orders.createdAt));
+
+    repoLogger.debug(
+      { mode, orderCount: pendingOrders.length },
+      'Pending trigger orders fetched'
+    );
+    return pendingOrders;
+  }
+
+  /**
+   * Claim a pending trigger order for placement
+   *
+   * Moves the order from 'pending' to 'triggered' in a single conditional
+   * update, so concurrent evaluations cannot place it twice.
+   *
+   * @param orderId - Trigger order to claim
+   * @param referencePrice - Reference price that fired the trigger
+   * @returns Claimed order, or null if it was no longer pending
+   */
+  async claimTriggerOrder(
+    orderId: string,
+    referencePrice: number,
+    triggeredAt: Date = new Date()
+  ): Promise<Order | null> {
+    const db = getDb();
+    const [order] = await db
+      .update(orders)
+      .set({
+        status: 'triggered',
+        triggeredAt,
+        triggeredReferencePrice: referencePrice.toString(),
+      })
+      .where(and(eq(orders.id, orderId), eq(orders.status, 'pending')))
+      .returning();
+
+    if (!order) {
+      repoLogger.warn({ orderId }, 'Trigger order no longer pending');
+      return null;
+    }
+
+    repoLogger.info({ orderId, referencePrice }, 'Trigger order claimed');
+    return order;
+  }
+
+  /**
+   * Raise a pending trailing stop's high-water mark and stop level
+   *
+   * Only ever moves the mark up: the update is skipped if the stored mark is
+   * already at or above `highWaterMark`.
+   *
+   * @param orderId - Pending TRAILING_STOP order
+   * @param highWaterMark - New best observed reference price
+   * @param triggerPrice - Stop level derived from the new mark
+   * @returns True if the order was updated
+   */
+  async ratchetTrailingStop(
+    orderId: string,
+    highWaterMark: number,
+    triggerPrice: number,
+    observedAt: Date = new Date()
+  ): Promise<boolean> {
+    const db = getDb();
+    const updated = await db
+      .update(orders)
+      .set({
+        highWaterMark: highWaterMark.toString(),
+        highWaterMarkAt: observedAt,
+        triggerPrice: triggerPrice.toString(),
+      })
+      .where(
+        and(
+          eq(orders.id, orderId),
+          eq(orders.status, 'pending'),
+          or(
+            isNull(orders.highWaterMark),
+            lt(orders.highWaterMark, highWaterMark.toString())
+          )
+        )
+      )
+      .returning({ id: orders.id });
+
+    if (updated.length > 0) {
+      repoLogger.info({ orderId, highWaterMark, triggerPrice }, 'Trailing stop ratcheted');
+    }
+    return updated.length > 0;
+  }
+
+  /**
+   * Return a claimed trigger order to 'pending' after its placement failed
+   */
+  async releaseTriggerOrder(orderId: string): Promise<void> {
+    const db = getDb();
+    await db
+      .update(orders)
+      .set({ status: 'pending', triggeredAt: null, triggeredReferencePrice: null })
+      .where(and(eq(orders.id, orderId), eq(orders.status, 'triggered')));
+
+    repoLogger.info({ orderId }, 'Trigger order released back to pending');
+  }
+
+  /**
+   * Expire working orders whose good-til-date has passed
+   *
+   * @param mode - Execution mode to expire orders for
+   * @param now - Reference time (orders with expires_at <= now expire)
+   * @param scope - Only expire one plan's orders, or a single order
+   * @returns Orders moved to 'expired'
+   */
+  async expireOrders(
+    mode: 'paper' | 'live',
+    now: Date = new Date(),
+    scope: { planId?: string; orderId?: string } = {}
+  ): Promise<Order[]> {
+    const db = getDb();
+    const expiredOrders = await db
+      .update(orders)
+      .set({ status: 'expired' })
+      .where(
+        and(
+          eq(orders.mode, mode),
+          inArray(orders.status, WORKING_STATUSES),
+          lte(orders.expiresAt, now),
+          scope.planId ? eq(orders.planId, scope.planId) : undefined,
+          scope.orderId ? eq(orders.id, scope.orderId) : undefined
+        )
+      )
+      .returning();
+
+    if (expiredOrders.length > 0) {
+      repoLogger.info(
+        { mode, orderIds: expiredOrders.map((o) => o.id) },
+        'Orders expired'
+      );
+    }
+    return expiredOrders;
+  }
+
   /**
    * Get all executions for an order
    */
@@ -103,14 +619,40 @@ export class ExecutorRepository {
     return orderExecutions;
   }
 
+  /**
+   * Get every token and outcome with a positive net position for a mode
+   *
+   * @returns Held positions (net quantity only; see calculatePosition for P&L)
+   */
+  async getHeldPositions(
+    mode: 'paper' | 'live'
+  ): Promise<Array<{ marketTokenId: string; outcome: 'YES' | 'NO'; netQuantity: number }>> {
+    repoLogger.debug({ mode }, 'Fetching held positions');
+
+    const db = getDb();
+    const netQuantity = sql<string>`${positions.buyQuantity} - ${positions.sellQuantity}`;
+    const rows = await db
+      .select({
+        marketTokenId: positions.marketTokenId,
+        outcome: positions.outcome,
+        netQuantity,
+      })
+      .from(positions)
+      .where(and(eq(positions.mode, mode), sql`${netQuantity} > 0`));
+
+    repoLogger.debug({ mode, positionCount: rows.length }, 'Held positions fetched');
+    return rows.map((row) => ({ ...row, netQuantity: parseFloat(row.netQuantity) }));
+  }
+
   /**
    * Calculate position for a market token
-   * Aggregates all executions to determine net position
+   * Derives net position, cost basis and realized P&L from the token's
+   * positions row (maintained with the lot ledger)
    *
    * @param marketTokenId - Market token identifier
    * @param outcome - YES or NO
    * @param mode - paper or live
-   * @returns Position with net quantity and average price
+   * @returns Position with net quantity and average price, or null if never traded
    */
   async calculatePosition(
     marketTokenId: string,
@@ -120,67 +662,43 @@ export class ExecutorRepository {
     repoLogger.debug({ marketTokenId, outcome, mode }, 'Calculating position');
 
     const db = getDb();
-
-    // Join executions with orders to get side (BUY/SELL) information
-    const result = await db
-      .select({
-        side: orders.side,
-        quantity: executions.quantity,
-        price: executions.price,
-      })
-      .from(executions)
-      .innerJoin(orders, eq(orders.id, executions.orderId))
+    const [record] = await db
+      .select()
+      .from(positions)
       .where(
         and(
-          eq(orders.marketTokenId, marketTokenId),
-          eq(orders.outcome, outcome),
-          eq(orders.mode, mode)
+          eq(positions.marketTokenId, marketTokenId),
+          eq(positions.outcome, outcome),
+          eq(positions.mode, mode)
         )
-      );
+      )
+      .limit(1);
 
-    if (result.length === 0) {
+    if (!record) {
       repoLogger.debug({ marketTokenId, outcome }, 'No position found');
       return null;
     }
 
-    // Calculate net position and average price
-    let buyQuantity = 0;
-    let buyTotal = 0;
-    let sellQuantity = 0;
-    let sellTotal = 0;
-
-    for (const row of result) {
-      const quantity = parseFloat(row.quantity);
-      const price = parseFloat(row.price);
-
-      if (row.side === 'BUY') {
-        buyQuantity += quantity;
-        buyTotal += quantity * price;
-      } else {
-        sellQuantity += quantity;
-        sellTotal += quantity * price;
-      }
-    }
-
-    const netQuantity = buyQuantity - sellQuantity;
-
-    // Calculate weighted average entry price for remaining position
-    // For closed positions (netQuantity = 0), avgPrice is based on buy side
-    const avgPrice = netQuantity !== 0
-      ? (netQuantity > 0 ? buyTotal / buyQuantity : sellTotal / sellQuantity)
-      : (buyQuantity > 0 ? buyTotal / buyQuantity : 0);
+    const netQuantity = parseFloat(record.buyQuantity) - parseFloat(record.sellQuantity);
 
-    // Calculate realized P&L from closed trades
-    const closedQuantity = Math.min(buyQuantity, sellQuantity);
-    const realizedPnL = closedQuantity > 0
-      ? sellTotal - (buyTotal * (closedQuantity / buyQuantity))
+    // Average cost of the open lots: their notional plus the buy fees still
+    // in the cost basis (fees of closed quantity are charged to realized P&L)
+    const avgPrice = netQuantity > 0
+      ? (parseFloat(record.openCost) + parseFloat(record.openFees)) / netQuantity
       : 0;
 
+    // Realized P&L of every lot closure (see position_lots / lot_closures)
+    const grossPnL = parseFloat(record.realizedGrossPnl);
+    const fees = parseFloat(record.realizedFees);
+    const realizedPnL = grossPnL - fees;
+
     const position: Position = {
       marketTokenId,
       outcome,
       netQuantity,
       avgPrice,
+      grossPnL,
+      fees,
       realizedPnL,
     };
 
@@ -188,19 +706,106 @@ export class ExecutorRepository {
     return position;
   }
 
+  /**
+   * Get every stored positions row
+   */
+  async getPositionRecords(): Promise<PositionRecord[]> {
+    const db = getDb();
+    return await db.select().from(positions);
+  }
+
+  /**
+   * Get every execution with its order's position key and side, in the
+   * order they were recorded (executions.sequence)
+   */
+  async getLedgerExecutions(): Promise<
+    Array<
+      Execution & Pick<Order, 'marketTokenId' | 'outcome' | 'mode' | 'side'>
+    >
+  > {
+    const db = getDb();
+    const rows = await db
+      .select({
+        execution: executions,
+        marketTokenId: orders.marketTokenId,
+        outcome: orders.outcome,
+        mode: orders.mode,
+        side: orders.side,
+      })
+      .from(executions)
+      .innerJoin(orders, eq(orders.id, executions.orderId))
+      .orderBy(asc(executions.sequence));
+
+    return rows.map(({ execution, ...order }) => ({ ...execution, ...order }));
+  }
+
+  /**
+   * Block execution writes to the positions table until the current
+   * transaction ends (reads stay allowed)
+   */
+  async lockPositions(): Promise<void> {
+    const db = getDb();
+    await db.execute(sql`lock table ${positions} in exclusive mode`);
+  }
+
+  /**
+   * Replace every positions row, lot and lot closure
+   *
+   * Call inside a transaction (after lockPositions) so no execution is
+   * applied between the deletes and the inserts.
+   */
+  async replacePositions(
+    records: NewPositionRecord[],
+    lots: NewPositionLot[],
+    closures: NewLotClosure[]
+  ): Promise<void> {
+    const db = getDb();
+    await db.delete(lotClosures);
+    await db.delete(positionLots);
+    await db.delete(positions);
+
+    for (let index = 0; index < records.length; index += INSERT_BATCH_SIZE) {
+      await db.insert(positions).values(records.slice(index, index + INSERT_BATCH_SIZE));
+    }
+    for (let index = 0; index < lots.length; index += INSERT_BATCH_SIZE) {
+      await db.insert(positionLots).values(lots.slice(index, index + INSERT_BATCH_SIZE));
+    }
+    for (let index = 0; index < closures.length; index += INSERT_BATCH_SIZE) {
+      await db.insert(lotClosures).values(closures.slice(index, index + INSERT_BATCH_SIZE));
+    }
+
+    repoLogger.info(
+      { positionCount: records.length, lotCount: lots.length, closureCount: closures.length },
+      'Positions table rebuilt'
+    );
+  }
+
   /**
    * Execute a trade within a transaction
-   * Creates order and execution records atomically
+   * Creates order and execution records and updates the position atomically
    *
    * @param orderData - Order data to insert
-   * @param executionData - Execution data to insert (without orderId)
-   * @returns Created order and execution
+   * @param executionData - Execution rows to insert (without orderId), one per
+   *   fill (e.g. one per order book level consumed)
+   * @param remainder - Set when the order only partly filled: the remainder
+   *   either keeps working ('partially_filled') or is cancelled (IOC)
+   * @returns Created order and executions
    */
   async executeTradeTransaction(
     orderData: NewOrder,
-    executionData: Omit<NewExecution, 'orderId'>
-  ): Promise<{ order: Order; execution: Execution }> {
-    repoLogger.debug({ orderData }, 'Starting trade execution transaction');
+    executionData: Array<Omit<NewExecution, 'orderId'>>,
+    remainder?: RemainderHandling
+  ): Promise<{ order: Order; executions: Execution[] }> {
+    repoLogger.debug(
+      { orderData, executionCount: executionData.length },
+      'Starting trade execution transaction'
+    );
+
+    if (executionData.length === 0) {
+      throw new ExecutionError('Trade execution requires at least one fill', {
+        details: { orderData },
+      });
+    }
 
     const db = getDb();
 
@@ -214,38 +819,269 @@ export class ExecutorRepository {
 
       repoLogger.debug({ orderId: order.id }, 'Order created in transaction');
 
-      // 2. Create execution linked to order
-      const [execution] = await tx
+      // 2. Create executions linked to order
+      const created = await tx
         .insert(executions)
-        .values({
-          ...executionData,
-          orderId: order.id,
-        })
+        .values(executionData.map((data) => ({ ...data, orderId: order.id })))
         .returning();
 
       repoLogger.debug(
-        { executionId: execution.id },
-        'Execution created in transaction'
+        { executionIds: created.map((e) => e.id) },
+        'Executions created in transaction'
       );
 
-      // 3. Update order status to 'filled'
-      await tx
+      await applyExecutionsToPosition(tx, order, created);
+
+      // 3. Update order status ('filled', or per remainder handling)
+      const [updated] = await tx
         .update(orders)
-        .set({ status: 'filled' })
-        .where(eq(orders.id, order.id));
+        .set(
+          remainder?.type === 'cancelled'
+            ? {
+                status: 'cancelled',
+                cancelledAt: new Date(),
+                cancelledBy: remainder.cancellation.cancelledBy,
+                cancelReason: remainder.cancellation.reason,
+              }
+            : { status: remainder ? 'partially_filled' : 'filled' }
+        )
+        .where(eq(orders.id, order.id))
+        .returning();
 
-      repoLogger.debug({ orderId: order.id }, 'Order status updated to filled');
+      repoLogger.debug(
+        { orderId: order.id, status: updated.status },
+        'Order status updated'
+      );
 
-      return { order, execution };
+      return { order: updated, executions: created };
     });
 
     repoLogger.info(
-      { orderId: result.order.id, executionId: result.execution.id },
+      {
+        orderId: result.order.id,
+        executionIds: result.executions.map((e) => e.id),
+      },
       'Trade execution transaction completed'
     );
 
     return result;
   }
+
+  /**
+   * Fill an existing working order within a transaction
+   * Creates the executions, applies them to the position and updates the
+   * order status atomically
+   *
+   * @param orderId - Open or partially filled order
+   * @param executionData - Execution rows to insert (without orderId)
+   * @param status - Resulting status: 'filled', or 'partially_filled' if size remains
+   * @returns Created executions
+   * @throws ExecutionError if the order is no longer working
+   */
+  async fillOrderTransaction(
+    orderId: string,
+    executionData: Array<Omit<NewExecution, 'orderId'>>,
+    status: 'filled' | 'partially_filled' = 'filled'
+  ): Promise<Execution[]> {
+    repoLogger.debug({ orderId, status }, 'Starting order fill transaction');
+
+    const db = getDb();
+
+    const created = await db.transaction(async (tx) => {
+      // 1. Update order status only if it is still working
+      const updated = await tx
+        .update(orders)
+        .set({ status })
+        .where(
+          and(eq(orders.id, orderId), inArray(orders.status, WORKING_STATUSES))
+        )
+        .returning();
+
+      if (updated.length === 0) {
+        throw new ExecutionError(`Order ${orderId} is no longer open`, {
+          details: { orderId },
+        });
+      }
+
+      // 2. Create executions linked to order
+      const inserted = await tx
+        .insert(executions)
+        .values(executionData.map((data) => ({ ...data, orderId })))
+        .returning();
+
+      // 3. Apply them to the position
+      await applyExecutionsToPosition(tx, updated[0], inserted);
+      return inserted;
+    });
+
+    repoLogger.info(
+      { orderId, status, executionIds: created.map((e) => e.id) },
+      'Order fill transaction completed'
+    );
+
+    return created;
+  }
+}
+
+/**
+ * Add executions of one order to its position
+ *
+ * Updates the positions row (creating it on the position's first
+ * execution), then the lot ledger: BUY executions open a lot each, SELL
+ * executions close lots by the configured accounting method and book the
+ * realized P&L. Totals are summed in SQL from the stored decimals, so the
+ * row matches what rebuild:positions replays from the executions log.
+ */
+async function applyExecutionsToPosition(
+  db: ReturnType<typeof getDb>,
+  order: Pick<Order, 'marketTokenId' | 'outcome' | 'mode' | 'side'>,
+  created: Execution[]
+): Promise<void> {
+  if (created.length === 0) {
+    return;
+  }
+
+  const key = and(
+    eq(positions.marketTokenId, order.marketTokenId),
+    eq(positions.outcome, order.outcome),
+    eq(positions.mode, order.mode)
+  );
+  const total = (value: (execution: Execution) => SQL) =>
+    sql`${sql.join(created.map(value), sql` + `)}`;
+  const quantity = total((e) => sql`${e.quantity}::numeric`);
+  const notional = total((e) => sql`${e.quantity}::numeric * ${e.price}::numeric`);
+  const fees = total((e) => sql`${e.fee}::numeric`);
+  const opened = order.side === 'BUY' ? created.map(openLot) : [];
+
+  // 1. Running totals (the upsert also locks the row until the transaction
+  //    ends, so concurrent SELLs close lots one after the other)
+  await db
+    .insert(positions)
+    .values({
+      marketTokenId: order.marketTokenId,
+      outcome: order.outcome,
+      mode: order.mode,
+      ...(order.side === 'BUY'
+        ? {
+            buyQuantity: quantity,
+            buyTotal: notional,
+            buyFees: fees,
+            openCost: sumUnits(opened.map((lot) => lot.cost), AMOUNT_SCALE),
+            openFees: sumUnits(opened.map((lot) => lot.fees), AMOUNT_SCALE),
+          }
+        : { sellQuantity: quantity, sellTotal: notional, sellFees: fees }),
+      updatedAt: new Date(),
+    })
+    .onConflictDoUpdate({
+      target: [positions.marketTokenId, positions.outcome, positions.mode],
+      set: {
+        buyQuantity: sql`${positions.buyQuantity} + excluded.buy_quantity`,
+        buyTotal: sql`${positions.buyTotal} + excluded.buy_total`,
+        buyFees: sql`${positions.buyFees} + excluded.buy_fees`,
+        sellQuantity: sql`${positions.sellQuantity} + excluded.sell_quantity`,
+        sellTotal: sql`${positions.sellTotal} + excluded.sell_total`,
+        sellFees: sql`${positions.sellFees} + excluded.sell_fees`,
+        openCost: sql`${positions.openCost} + excluded.open_cost`,
+        openFees: sql`${positions.openFees} + excluded.open_fees`,
+        updatedAt: sql`excluded.updated_at`,
+      },
+    });
+
+  // 2. BUY: one lot per execution
+  if (order.side === 'BUY') {
+    await db.insert(positionLots).values(
+      created.map((execution, index) => ({
+        marketTokenId: order.marketTokenId,
+        outcome: order.outcome,
+        mode: order.mode,
+        executionId: execution.id,
+        quantity: opened[index].quantity,
+        cost: opened[index].cost,
+        fees: opened[index].fees,
+        remainingQuantity: opened[index].quantity,
+        remainingCost: opened[index].cost,
+        remainingFees: opened[index].fees,
+      }))
+    );
+
+    repoLogger.debug({ ...order, lotsOpened: created.length }, 'Position updated');
+    return;
+  }
+
+  // 3. SELL: close open lots, oldest first
+  const method = env.POSITION_ACCOUNTING_METHOD;
+  const openLots: OpenLot[] = await db
+    .select({
+      id: positionLots.id,
+      remainingQuantity: positionLots.remainingQuantity,
+      remainingCost: positionLots.remainingCost,
+      remainingFees: positionLots.remainingFees,
+    })
+    .from(positionLots)
+    .innerJoin(executions, eq(executions.id, positionLots.executionId))
+    .where(
+      and(
+        eq(positionLots.marketTokenId, order.marketTokenId),
+        eq(positionLots.outcome, order.outcome),
+        eq(positionLots.mode, order.mode),
+        sql`${positionLots.remainingQuantity} > 0`
+      )
+    )
+    .orderBy(asc(executions.sequence));
+
+  let lots = openLots;
+  const allocations: LotAllocation[] = [];
+  const closures: NewLotClosure[] = [];
+  for (const execution of [...created].sort((a, b) => a.sequence - b.sequence)) {
+    const sale = allocateSell(lots, execution, method);
+    lots = sale.lots;
+    allocations.push(...sale.allocations);
+    closures.push(
+      ...sale.allocations.map((allocation) => ({ ...allocation, executionId: execution.id, method }))
+    );
+
+    if (parseUnits(sale.unmatchedQuantity, QUANTITY_SCALE) > 0n) {
+      repoLogger.warn(
+        { ...order, executionId: execution.id, unmatchedQuantity: sale.unmatchedQuantity },
+        'SELL exceeds open lots - unmatched quantity not realized'
+      );
+    }
+  }
+
+  if (closures.length === 0) {
+    return;
+  }
+
+  // allocateSell returns untouched lots as-is
+  for (const [index, lot] of lots.entries()) {
+    if (lot !== openLots[index]) {
+      await db
+        .update(positionLots)
+        .set({
+          remainingQuantity: lot.remainingQuantity,
+          remainingCost: lot.remainingCost,
+          remainingFees: lot.remainingFees,
+        })
+        .where(eq(positionLots.id, lot.id));
+    }
+  }
+  await db.insert(lotClosures).values(closures);
+
+  const realized = summarizeAllocations(allocations);
+  await db
+    .update(positions)
+    .set({
+      openCost: sql`${positions.openCost} - ${realized.cost}::numeric`,
+      openFees: sql`${positions.openFees} - ${realized.buyFees}::numeric`,
+      realizedGrossPnl: sql`${positions.realizedGrossPnl} + ${realized.grossPnL}::numeric`,
+      realizedFees: sql`${positions.realizedFees} + ${realized.fees}::numeric`,
+    })
+    .where(key);
+
+  repoLogger.debug(
+    { ...order, method, lotsClosed: closures.length, realizedGrossPnL: realized.grossPnL },
+    'Position updated'
+  );
 }
 
 /**
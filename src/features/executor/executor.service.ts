@@ -1,8 +1,35 @@
 import { getPaperExecutor } from './paper-executor.js';
+import { getLiveExecutor } from './live-executor.js';
+import { getExecutorRepository } from './executor.repository.js';
+import { getOrderGroupService } from '../order-groups/order-group.service.js';
+import { getPreflightService } from '../preflight/preflight.service.js';
 import { logger } from '../../infrastructure/logging/logger.js';
+import { withTransaction } from '../../infrastructure/database/client.js';
 import { ExecutionError } from '../../domain/errors/execution.error.js';
-import type { TradePlan, Trade } from '../../domain/schemas/trade-plan.schema.js';
-import type { ExecutionResult } from './executor.types.js';
+import {
+  isTriggerOrderType,
+  type TradePlan,
+  type Trade,
+} from '../../domain/schemas/trade-plan.schema.js';
+import { resolvePriceLimit } from './fill-model.js';
+import { getExecutionOrder, getUnmetDependency } from './trade-graph.js';
+import { orderGroupColumns, orderToTrade, sizeColumns } from './order.mapper.js';
+import {
+  getNextSliceSize,
+  getSliceProgress,
+  SLICE_SIZE_TOLERANCE,
+  toSliceTrade,
+} from '../slicing/slice-schedule.js';
+import { resolveTradeSize } from '../positions/position-sizing.js';
+import { getReferencePrice } from '../triggers/reference-price.js';
+import { trailingStopPrice } from '../triggers/trigger-evaluator.js';
+import type { Order } from '../../infrastructure/database/schema.js';
+import type {
+  ExecutionResult,
+  OrderCancellation,
+  SizedTrade,
+  TradeExecutionOptions,
+} from './executor.types.js';
 
 const executorLogger = logger.child({ module: 'executor-service' });
 
@@ -11,16 +38,47 @@ const executorLogger = logger.child({ module: 'executor-service' });
  *
  * Routes trade execution to appropriate executor (paper vs live).
  * Phase 1: Paper mode only.
- * Phase 3+: Will add live trading mode.
+ * Phase 3+: Live mode routed to LiveExecutor.
+ * STOP / TAKE_PROFIT / TRAILING_STOP trades are stored as dormant 'pending'
+ * orders in either mode; the trigger service places them once their trigger
+ * price is reached.
+ * Sliced (TWAP) trades become a 'working' parent order whose first child is
+ * placed immediately; sweeps place the remaining slices.
+ * Grouped (OCO / BRACKET) trades are skipped once their group has resolved,
+ * and a fill on a grouped trade cancels its siblings.
+ * closePosition / percentOfPosition trades are sized from the position when
+ * they execute; trigger orders are sized again when they fire.
+ * targetPosition trades become the BUY or SELL that reaches the target, and
+ * are recorded as cancelled when the position is already there.
+ * Plans run as a dependency graph: a trade with dependsOn executes after the
+ * trades it references, and is recorded as cancelled if a condition fails.
+ * With onError 'continue', a trade that throws is recorded as a 'failed'
+ * order and the remaining trades still run.
+ * Atomic plans pass pre-flight checks before any trade executes; in paper
+ * mode their orders and executions are written in a single transaction.
  */
 export class ExecutorService {
   private paperExecutor = getPaperExecutor();
+  private liveExecutor = getLiveExecutor();
+  private repository = getExecutorRepository();
+  private orderGroupService = getOrderGroupService();
+  private preflightService = getPreflightService();
 
   /**
    * Execute all trades in a trade plan
    *
+   * Trades execute one at a time in dependency order (plan order when no
+   * trade declares dependsOn). onError 'halt' (default) rethrows the first
+   * failure; 'continue' records it as a failed result and moves on.
+   *
+   * Atomic plans are checked first and rejected before anything executes if
+   * any trade would not land. Paper atomic plans then run in one database
+   * transaction, so a failure rolls back every order; live orders already
+   * posted to the exchange cannot be rolled back.
+   *
    * @param tradePlan - Complete trade plan to execute
-   * @returns Array of execution results
+   * @returns Array of execution results, in execution order
+   * @throws ExecutionError if an atomic plan fails its pre-flight checks
    */
   async executeTradePlan(tradePlan: TradePlan): Promise<ExecutionResult[]> {
     executorLogger.info(
@@ -28,29 +86,45 @@ export class ExecutorService {
         planId: tradePlan.planId,
         mode: tradePlan.mode,
         tradeCount: tradePlan.trades.length,
+        atomic: tradePlan.atomic ?? false,
       },
       'Starting trade plan execution'
     );
 
-    // Phase 1: Only paper mode is supported
-    if (tradePlan.mode === 'live') {
+    if (!tradePlan.atomic) {
+      return await this.executeTrades(tradePlan);
+    }
+
+    const preflight = await this.preflightService.checkPlan(tradePlan);
+    if (preflight.issues.length > 0) {
       throw new ExecutionError(
-        'Live trading mode is not supported in Phase 1. Please use "paper" mode.',
-        { details: { planId: tradePlan.planId, mode: tradePlan.mode } }
+        `Atomic plan '${tradePlan.planId}' failed pre-flight checks, no trades executed:\n  - ${preflight.issues.join('\n  - ')}`,
+        { details: { planId: tradePlan.planId, issues: preflight.issues } }
       );
     }
 
+    return tradePlan.mode === 'paper'
+      ? await withTransaction(() => this.executeTrades(tradePlan))
+      : await this.executeTrades(tradePlan);
+  }
+
+  /**
+   * Execute a plan's trades in dependency order, applying its onError policy
+   */
+  private async executeTrades(tradePlan: TradePlan): Promise<ExecutionResult[]> {
     const results: ExecutionResult[] = [];
+    const resultsByTradeId = new Map<string, ExecutionResult>();
+    const executionOrder = getExecutionOrder(tradePlan.trades);
 
-    // Execute trades sequentially
-    // Phase 1: Fail-fast on first error
-    for (let i = 0; i < tradePlan.trades.length; i++) {
-      const trade = tradePlan.trades[i];
+    // Execute trades sequentially in dependency order
+    for (const index of executionOrder) {
+      const trade = tradePlan.trades[index];
 
       executorLogger.info(
         {
           planId: tradePlan.planId,
-          tradeIndex: i + 1,
+          tradeIndex: index + 1,
+          tradeId: trade.id,
           totalTrades: tradePlan.trades.length,
           trade,
         },
@@ -58,43 +132,65 @@ export class ExecutorService {
       );
 
       try {
-        const result = await this.executeTrade(
-          tradePlan.planId,
-          trade,
-          tradePlan.mode
-        );
+        const unmetDependency = getUnmetDependency(trade, resultsByTradeId);
+
+        const result = unmetDependency
+          ? await this.recordSkippedTrade(tradePlan.planId, trade, tradePlan.mode, unmetDependency)
+          : await this.executeTrade(tradePlan.planId, trade, tradePlan.mode);
 
         results.push(result);
+        if (trade.id !== undefined) {
+          resultsByTradeId.set(trade.id, result);
+        }
 
         executorLogger.info(
           {
             planId: tradePlan.planId,
-            tradeIndex: i + 1,
+            tradeIndex: index + 1,
+            tradeId: trade.id,
             orderId: result.orderId,
             status: result.status,
           },
-          'Trade executed successfully'
+          unmetDependency ? 'Trade skipped - dependency not met' : 'Trade executed successfully'
         );
       } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+
         executorLogger.error(
           {
             planId: tradePlan.planId,
-            tradeIndex: i + 1,
+            tradeIndex: index + 1,
+            tradeId: trade.id,
             trade,
-            error: error instanceof Error ? error.message : String(error),
+            error: errorMessage,
           },
           'Trade execution failed'
         );
 
-        // Fail-fast: stop on first error
-        throw error;
+        if (tradePlan.onError !== 'continue') {
+          // Fail-fast: stop on first error
+          throw error;
+        }
+
+        const result = await this.recordFailedTrade(
+          tradePlan.planId,
+          trade,
+          tradePlan.mode,
+          errorMessage
+        );
+
+        results.push(result);
+        if (trade.id !== undefined) {
+          resultsByTradeId.set(trade.id, result);
+        }
       }
     }
 
     executorLogger.info(
       {
         planId: tradePlan.planId,
-        successfulTrades: results.length,
+        successfulTrades: results.filter((result) => result.status !== 'failed').length,
+        failedTrades: results.filter((result) => result.status === 'failed').length,
         totalTrades: tradePlan.trades.length,
       },
       'Trade plan execution completed'
@@ -111,27 +207,380 @@ export class ExecutorService {
    * @param planId - Trade plan identifier
    * @param trade - Trade to execute
    * @param mode - Execution mode (paper or live)
+   * @param options - Optional linkage to an existing order
    * @returns Execution result
    */
   async executeTrade(
     planId: string,
     trade: Trade,
-    mode: 'paper' | 'live'
+    mode: 'paper' | 'live',
+    options: TradeExecutionOptions = {}
+  ): Promise<ExecutionResult> {
+    // Trigger orders may be placed before the position they close exists
+    const allowEmptyPosition = isTriggerOrderType(trade.orderType);
+
+    if (!trade.orderGroup) {
+      const sizedTrade = await resolveTradeSize(trade, mode, allowEmptyPosition);
+
+      if (trade.targetPosition && sizedTrade.size === 0) {
+        return await this.recordCancelledTrade(planId, sizedTrade, mode, options, {
+          cancelledBy: 'system:target-position',
+          reason: `Already at target position (${trade.targetPosition.size} ${trade.targetPosition.sizeUnit ?? 'usdc'})`,
+        });
+      }
+
+      return await this.routeTrade(planId, sizedTrade, mode, options);
+    }
+
+    const cancellation = await this.orderGroupService.getPlacementCancellation(
+      planId,
+      trade,
+      options.parentOrderId
+    );
+
+    if (cancellation) {
+      const sizedTrade = await resolveTradeSize(trade, mode, true);
+      return await this.recordCancelledTrade(planId, sizedTrade, mode, options, cancellation);
+    }
+
+    const sizedTrade = await resolveTradeSize(trade, mode, allowEmptyPosition);
+    const result = await this.routeTrade(planId, sizedTrade, mode, options);
+
+    if (result.quantity) {
+      const order = await this.repository.getOrderById(result.orderId);
+      if (order) {
+        await this.orderGroupService.cancelSiblings(order);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Route a trade to the executor for its mode (or store it as a trigger order)
+   */
+  private async routeTrade(
+    planId: string,
+    trade: SizedTrade,
+    mode: 'paper' | 'live',
+    options: TradeExecutionOptions
   ): Promise<ExecutionResult> {
     executorLogger.debug(
-      { planId, trade, mode },
+      { planId, trade, mode, options },
       'Routing trade to executor'
     );
 
+    if (isTriggerOrderType(trade.orderType)) {
+      return await this.placeTriggerOrder(planId, trade, mode, options);
+    }
+
+    if (trade.slicing) {
+      return await this.placeSlicedOrder(planId, trade, mode);
+    }
+
     if (mode === 'paper') {
-      return await this.paperExecutor.executeTrade(planId, trade);
+      return await this.paperExecutor.executeTrade(planId, trade, options);
+    }
+
+    if (mode === 'live') {
+      return await this.liveExecutor.executeTrade(planId, trade, options);
+    }
+
+    throw new ExecutionError(`Unknown execution mode: ${mode}`, {
+      details: { planId, trade, mode },
+    });
+  }
+
+  /**
+   * Store a STOP / TAKE_PROFIT / TRAILING_STOP trade as a dormant 'pending' order
+   *
+   * Nothing is posted to the CLOB until the trigger fires, so SELL position
+   * checks run at placement rather than here. Trailing stops start their
+   * high-water mark at the current reference price.
+   */
+  private async placeTriggerOrder(
+    planId: string,
+    trade: SizedTrade,
+    mode: 'paper' | 'live',
+    options: TradeExecutionOptions
+  ): Promise<ExecutionResult> {
+    const triggerReference = trade.triggerReference ?? 'midpoint';
+    let triggerPrice = trade.triggerPrice;
+    let highWaterMark: number | undefined;
+
+    if (trade.orderType === 'TRAILING_STOP') {
+      highWaterMark = await getReferencePrice(trade.marketTokenId, triggerReference);
+      triggerPrice = trailingStopPrice(
+        highWaterMark,
+        trade.trailingOffset,
+        trade.trailingPercent
+      );
+    }
+
+    const order = await this.repository.createOrder({
+      planId,
+      marketTokenId: trade.marketTokenId,
+      outcome: trade.outcome,
+      side: trade.side,
+      orderType: trade.orderType,
+      timeInForce: trade.timeInForce,
+      ...sizeColumns(trade),
+      price: trade.price?.toString() || null,
+      priceCap: trade.price === undefined ? resolvePriceLimit(trade)?.toString() ?? null : null,
+      status: 'pending',
+      mode,
+      triggerPrice: triggerPrice!.toString(),
+      triggerReference,
+      trailingOffset: trade.trailingOffset?.toString() ?? null,
+      trailingPercent: trade.trailingPercent?.toString() ?? null,
+      highWaterMark: highWaterMark?.toString() ?? null,
+      highWaterMarkAt: highWaterMark !== undefined ? new Date() : null,
+      parentOrderId: options.parentOrderId,
+      ...orderGroupColumns(trade),
+    });
+
+    executorLogger.info(
+      {
+        orderId: order.id,
+        planId,
+        orderType: trade.orderType,
+        triggerPrice,
+        triggerReference,
+        highWaterMark,
+      },
+      'Trigger order stored as pending'
+    );
+
+    return {
+      orderId: order.id,
+      trade,
+      status: 'pending',
+      executedAt: new Date(),
+    };
+  }
+
+  /**
+   * Store a sliced (TWAP) trade as a 'working' parent and place its first slice
+   */
+  private async placeSlicedOrder(
+    planId: string,
+    trade: SizedTrade,
+    mode: 'paper' | 'live'
+  ): Promise<ExecutionResult> {
+    const parent = await this.repository.createOrder({
+      planId,
+      marketTokenId: trade.marketTokenId,
+      outcome: trade.outcome,
+      side: trade.side,
+      orderType: trade.orderType,
+      timeInForce: trade.timeInForce,
+      ...sizeColumns(trade),
+      price: trade.price?.toString() || null,
+      priceCap: trade.orderType === 'MARKET' ? resolvePriceLimit(trade)?.toString() ?? null : null,
+      status: 'working',
+      mode,
+      sliceCount: trade.slicing!.slices,
+      sliceIntervalMinutes: trade.slicing!.intervalMinutes.toString(),
+      slicesPlaced: 0,
+      nextSliceAt: new Date(),
+    });
+
+    executorLogger.info(
+      { orderId: parent.id, planId, size: trade.size, slicing: trade.slicing },
+      'Sliced order created'
+    );
+
+    await this.placeSlice(parent);
+
+    return {
+      orderId: parent.id,
+      trade,
+      status: 'working',
+      executedAt: new Date(),
+    };
+  }
+
+  /**
+   * Place the next child order of a sliced (TWAP) parent
+   *
+   * The slice is claimed before placing, so concurrent runs cannot place it
+   * twice; the claim is released if placement fails.
+   *
+   * @param parent - Working sliced parent order
+   * @returns Child order result, or null if no size was left to allocate
+   *   (resting child orders already cover the remainder)
+   */
+  async placeSlice(parent: Order): Promise<ExecutionResult | null> {
+    const children = await this.repository.getChildOrders(parent.id);
+    const progress = getSliceProgress(parent, children);
+    const size = getNextSliceSize(progress);
+
+    const intervalMs = parseFloat(parent.sliceIntervalMinutes ?? '0') * 60_000;
+    const nextSliceAt = new Date(Date.now() + intervalMs);
+
+    const claimed = await this.repository.claimSlice(
+      parent.id,
+      progress.slicesPlaced,
+      nextSliceAt
+    );
+
+    if (!claimed) {
+      throw new ExecutionError(
+        `Slice ${progress.slicesPlaced + 1} of order ${parent.id} was already placed`,
+        { details: { orderId: parent.id, slicesPlaced: progress.slicesPlaced } }
+      );
+    }
+
+    if (size < SLICE_SIZE_TOLERANCE) {
+      executorLogger.info(
+        { orderId: parent.id, slice: progress.slicesPlaced + 1, progress },
+        'Slice skipped - resting child orders cover the remainder'
+      );
+      return null;
     }
 
-    // Phase 3+: Add live executor
-    throw new ExecutionError(
-      'Live trading mode is not supported in Phase 1. Please use "paper" mode.',
-      { details: { planId, trade, mode } }
+    try {
+      const result = await this.routeTrade(
+        parent.planId,
+        toSliceTrade(orderToTrade(parent), size),
+        parent.mode,
+        { parentOrderId: parent.id }
+      );
+
+      executorLogger.info(
+        {
+          orderId: parent.id,
+          slice: progress.slicesPlaced + 1,
+          sliceCount: progress.sliceCount,
+          childOrderId: result.orderId,
+          size,
+          status: result.status,
+        },
+        'Slice placed'
+      );
+
+      return result;
+    } catch (error) {
+      await this.repository.releaseSlice(parent.id, progress.slicesPlaced);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a trade whose dependsOn conditions do not hold as cancelled
+   *
+   * Sized like a group cancellation: from the current position, without
+   * requiring one to exist.
+   */
+  private async recordSkippedTrade(
+    planId: string,
+    trade: Trade,
+    mode: 'paper' | 'live',
+    reason: string
+  ): Promise<ExecutionResult> {
+    const sizedTrade = await resolveTradeSize(trade, mode, true);
+    return await this.recordCancelledTrade(planId, sizedTrade, mode, {}, {
+      cancelledBy: 'system:dependency',
+      reason,
+    });
+  }
+
+  /**
+   * Record a trade as cancelled without placing it, because a sibling leg
+   * of its group already filled, its target position is already held or its
+   * dependencies were not met
+   */
+  private async recordCancelledTrade(
+    planId: string,
+    trade: SizedTrade,
+    mode: 'paper' | 'live',
+    options: TradeExecutionOptions,
+    cancellation: OrderCancellation
+  ): Promise<ExecutionResult> {
+    const order = await this.repository.createOrder({
+      planId,
+      marketTokenId: trade.marketTokenId,
+      outcome: trade.outcome,
+      side: trade.side,
+      orderType: trade.orderType,
+      timeInForce: trade.timeInForce,
+      ...sizeColumns(trade),
+      price: trade.price?.toString() || null,
+      triggerPrice: trade.triggerPrice?.toString() ?? null,
+      triggerReference: trade.triggerReference ?? null,
+      trailingOffset: trade.trailingOffset?.toString() ?? null,
+      trailingPercent: trade.trailingPercent?.toString() ?? null,
+      status: 'cancelled',
+      mode,
+      parentOrderId: options.parentOrderId,
+      ...orderGroupColumns(trade),
+      cancelledAt: new Date(),
+      cancelledBy: cancellation.cancelledBy,
+      cancelReason: cancellation.reason,
+    });
+
+    executorLogger.info(
+      { orderId: order.id, planId, orderGroupId: trade.orderGroup?.id, reason: cancellation.reason },
+      'Trade recorded as cancelled without placing'
+    );
+
+    return {
+      orderId: order.id,
+      trade,
+      status: 'cancelled',
+      executedAt: new Date(),
+    };
+  }
+
+  /**
+   * Record a trade that threw as a 'failed' order with its error message
+   *
+   * The failure may have come from sizing itself, so the trade falls back to
+   * its stated side and size (BUY / 0 when it had none).
+   */
+  private async recordFailedTrade(
+    planId: string,
+    trade: Trade,
+    mode: 'paper' | 'live',
+    errorMessage: string
+  ): Promise<ExecutionResult> {
+    const sizedTrade: SizedTrade = await resolveTradeSize(trade, mode, true).catch(() => ({
+      ...trade,
+      side: trade.side ?? 'BUY',
+      size: trade.size ?? 0,
+    }));
+
+    const order = await this.repository.createOrder({
+      planId,
+      marketTokenId: sizedTrade.marketTokenId,
+      outcome: sizedTrade.outcome,
+      side: sizedTrade.side,
+      orderType: sizedTrade.orderType,
+      timeInForce: sizedTrade.timeInForce,
+      ...sizeColumns(sizedTrade),
+      price: sizedTrade.price?.toString() || null,
+      triggerPrice: sizedTrade.triggerPrice?.toString() ?? null,
+      triggerReference: sizedTrade.triggerReference ?? null,
+      trailingOffset: sizedTrade.trailingOffset?.toString() ?? null,
+      trailingPercent: sizedTrade.trailingPercent?.toString() ?? null,
+      status: 'failed',
+      mode,
+      ...orderGroupColumns(sizedTrade),
+      errorMessage,
+    });
+
+    executorLogger.warn(
+      { orderId: order.id, planId, tradeId: trade.id, error: errorMessage },
+      'Trade recorded as failed - continuing plan'
     );
+
+    return {
+      orderId: order.id,
+      trade: sizedTrade,
+      status: 'failed',
+      executedAt: new Date(),
+      errorMessage,
+    };
   }
 }
 
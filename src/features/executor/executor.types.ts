@@ -1,14 +1,24 @@
-import type { Trade } from '../../domain/schemas/trade-plan.schema.js';
+import type { Side, Trade } from '../../domain/schemas/trade-plan.schema.js';
+import type { Order } from '../../infrastructure/database/schema.js';
+
+/**
+ * Trade with an explicit side and size
+ *
+ * Position-sized trades (closePosition / percentOfPosition) and
+ * targetPosition trades are resolved to a token quantity (and, for targets,
+ * a side) before they reach an executor.
+ */
+export type SizedTrade = Trade & { side: Side; size: number };
 
 /**
  * Execution result for a single trade
  */
 export interface ExecutionResult {
   orderId: string;
-  trade: Trade;
+  trade: SizedTrade;
   fillPrice?: number; // Undefined for open LIMIT orders
   quantity?: number; // Undefined for open LIMIT orders
-  status: 'filled' | 'open' | 'failed';
+  status: 'filled' | 'partially_filled' | 'open' | 'pending' | 'working' | 'cancelled' | 'expired' | 'failed'; // 'pending': dormant trigger order, 'working': sliced parent, 'cancelled': IOC/FOK remainder not filled, 'expired': good-til-date passed
   executedAt: Date;
   errorMessage?: string;
 }
@@ -20,8 +30,10 @@ export interface Position {
   marketTokenId: string;
   outcome: 'YES' | 'NO';
   netQuantity: number; // Positive = long, negative = short, zero = flat
-  avgPrice: number; // Weighted average entry price
-  realizedPnL: number; // Locked-in profit/loss from closed trades
+  avgPrice: number; // Average cost of the open lots, including fees (0 when flat)
+  grossPnL: number; // Realized P&L of closed lots before fees
+  fees: number; // Buy and sell fees of closed lots, charged against realized P&L
+  realizedPnL: number; // Locked-in profit/loss from closed lots, net of fees
   unrealizedPnL?: number; // Current P&L (requires current market price)
 }
 
@@ -35,6 +47,13 @@ export interface ExecutionContext {
   trade: Trade;
 }
 
+/**
+ * Optional order linkage applied when an executor persists a new order
+ */
+export interface TradeExecutionOptions {
+  parentOrderId?: string; // Order replaced by this one (amendments), or trigger / sliced parent that placed it
+}
+
 /**
  * Fill simulation result
  */
@@ -43,3 +62,30 @@ export interface FillSimulation {
   quantity: number;
   executedAt: Date;
 }
+
+/**
+ * Cancellation audit details recorded on an order
+ */
+export interface OrderCancellation {
+  cancelledBy: string; // Operator name or 'system:<reason>' for automatic cancels
+  reason: string;
+}
+
+/**
+ * What happens to the unfilled size of an order that only partly filled
+ *
+ * - working: remainder keeps resting (order becomes 'partially_filled')
+ * - cancelled: remainder is cancelled, e.g. IOC (order becomes 'cancelled')
+ */
+export type RemainderHandling =
+  | { type: 'working' }
+  | { type: 'cancelled'; cancellation: OrderCancellation };
+
+/**
+ * An order with the quantity filled so far
+ */
+export interface OrderWithFills {
+  order: Order;
+  filledQuantity: number; // Outcome tokens
+  filledNotional: number; // USDC (quantity * price)
+}
@@ -0,0 +1,49 @@
+import { env } from '../../config/env.js';
+
+/**
+ * Fee Schedule
+ *
+ * Maker/taker fees in basis points of fill notional, configured per
+ * environment via FEE_MAKER_BPS / FEE_TAKER_BPS.
+ *
+ * - Taker: the order crossed the spread when placed (MARKET, IOC/FOK,
+ *   crossing LIMIT)
+ * - Maker: a resting LIMIT order filled later (sweeps)
+ */
+
+/**
+ * Liquidity role of a fill
+ */
+export type LiquidityRole = 'maker' | 'taker';
+
+export interface FeeSchedule {
+  makerBps: number;
+  takerBps: number;
+}
+
+/**
+ * Get the configured fee schedule
+ */
+export function getFeeSchedule(): FeeSchedule {
+  return {
+    makerBps: parseFloat(env.FEE_MAKER_BPS),
+    takerBps: parseFloat(env.FEE_TAKER_BPS),
+  };
+}
+
+/**
+ * Calculate the USDC fee for a fill
+ *
+ * @param notional - Fill notional in USDC (quantity * price)
+ * @param role - Maker or taker
+ * @param schedule - Fee schedule (defaults to the configured schedule)
+ * @returns Fee in USDC
+ */
+export function calculateFee(
+  notional: number,
+  role: LiquidityRole,
+  schedule: FeeSchedule = getFeeSchedule()
+): number {
+  const bps = role === 'maker' ? schedule.makerBps : schedule.takerBps;
+  return (notional * bps) / 10_000;
+}
@@ -0,0 +1,188 @@
+import type { OrderBookSummary } from '@polymarket/clob-client';
+import type { SizeUnit, TimeInForce, Trade } from '../../domain/schemas/trade-plan.schema.js';
+import type { Execution } from '../../infrastructure/database/schema.js';
+import type { OrderCancellation } from './executor.types.js';
+
+/**
+ * Fill Model
+ *
+ * Pure helpers for simulating fills against visible order book depth.
+ * No I/O: callers fetch the book and persist the result.
+ */
+
+/**
+ * Single price level of an order book
+ */
+export interface BookLevel {
+  price: number;
+  size: number; // Outcome tokens resting at this price
+}
+
+/**
+ * Quantity filled at a single book level
+ */
+export interface LevelFill {
+  price: number;
+  quantity: number;
+}
+
+/**
+ * Result of walking the book for a given size (USDC notional or token quantity)
+ */
+export interface DepthFill {
+  fills: LevelFill[]; // One entry per level consumed, best price first
+  quantity: number; // Outcome tokens filled
+  notional: number; // USDC consumed (BUY) or received (SELL)
+  avgPrice: number; // Volume-weighted fill price, 0 if nothing filled
+  complete: boolean; // True if the full requested size was filled
+}
+
+/**
+ * Resolve the effective time in force for a trade
+ *
+ * LIMIT orders default to GTC. MARKET orders default to FOK, unless they
+ * carry a maxPrice/minPrice cap: those default to GTC, filling what the
+ * book offers within the cap and working the remainder at the cap.
+ */
+export function resolveTimeInForce(trade: Trade): TimeInForce {
+  if (trade.timeInForce) {
+    return trade.timeInForce;
+  }
+  return trade.orderType === 'LIMIT' || resolvePriceLimit(trade) !== undefined ? 'GTC' : 'FOK';
+}
+
+/**
+ * Resolve the worst price a trade may fill at
+ *
+ * LIMIT orders use their limit price; MARKET orders use their optional
+ * price protection cap (maxPrice for BUY, minPrice for SELL).
+ *
+ * @returns Price limit, or undefined for an uncapped MARKET order
+ */
+export function resolvePriceLimit(trade: Trade): number | undefined {
+  if (trade.orderType === 'LIMIT') {
+    return trade.price;
+  }
+  return trade.side === 'BUY' ? trade.maxPrice : trade.minPrice;
+}
+
+/**
+ * Format a size in its unit for cancellation reasons (e.g. "10.00 USDC")
+ */
+export function formatSizeAmount(amount: number, sizeUnit: SizeUnit = 'usdc'): string {
+  return `${amount.toFixed(2)} ${sizeUnit === 'shares' ? 'shares' : 'USDC'}`;
+}
+
+/**
+ * Build the cancellation recorded when IOC/FOK leaves size unfilled
+ *
+ * @param timeInForce - IOC (remainder cancelled) or FOK (whole order killed)
+ * @param filledSize - Size that could be filled
+ * @param requestedSize - Size requested by the trade
+ * @param sizeUnit - Unit of both sizes
+ */
+export function timeInForceCancellation(
+  timeInForce: 'IOC' | 'FOK',
+  filledSize: number,
+  requestedSize: number,
+  sizeUnit: SizeUnit = 'usdc'
+): OrderCancellation {
+  const filled = `${filledSize.toFixed(2)} of ${formatSizeAmount(requestedSize, sizeUnit)}`;
+
+  return {
+    cancelledBy: 'system:time-in-force',
+    reason:
+      timeInForce === 'FOK'
+        ? `FOK: killed, visible depth covers ${filled}`
+        : `IOC: unfilled remainder cancelled, filled ${filled}`,
+  };
+}
+
+/**
+ * Get the levels a trade would take liquidity from, best price first
+ *
+ * BUY orders consume asks (lowest first), SELL orders consume bids
+ * (highest first). Sorted explicitly rather than trusting API ordering.
+ */
+export function getOpposingLevels(
+  orderBook: OrderBookSummary,
+  side: 'BUY' | 'SELL'
+): BookLevel[] {
+  const raw = side === 'BUY' ? orderBook.asks : orderBook.bids;
+
+  return (raw || [])
+    .map((level) => ({ price: parseFloat(level.price), size: parseFloat(level.size) }))
+    .filter((level) => level.size > 0)
+    .sort((a, b) => (side === 'BUY' ? a.price - b.price : b.price - a.price));
+}
+
+/**
+ * Walk opposing levels until `size` is filled
+ *
+ * @param levels - Opposing levels, best price first
+ * @param side - Side of the incoming order
+ * @param size - USDC to spend (BUY) or receive (SELL), or tokens to trade
+ * @param limitPrice - Optional limit; levels that don't cross are skipped
+ * @param sizeUnit - Unit of `size`
+ * @returns Filled quantity, notional and VWAP
+ */
+export function walkBook(
+  levels: BookLevel[],
+  side: 'BUY' | 'SELL',
+  size: number,
+  limitPrice?: number,
+  sizeUnit: SizeUnit = 'usdc'
+): DepthFill {
+  const fills: LevelFill[] = [];
+  let remaining = size;
+  let quantity = 0;
+  let notional = 0;
+
+  for (const level of levels) {
+    if (remaining <= 0) {
+      break;
+    }
+
+    const crosses =
+      limitPrice === undefined ||
+      (side === 'BUY' ? level.price <= limitPrice : level.price >= limitPrice);
+
+    if (!crosses) {
+      break;
+    }
+
+    const levelSize = sizeUnit === 'shares' ? level.size : level.price * level.size;
+    const taken = Math.min(remaining, levelSize);
+    const levelQuantity = sizeUnit === 'shares' ? taken : taken / level.price;
+
+    fills.push({ price: level.price, quantity: levelQuantity });
+    quantity += levelQuantity;
+    notional += levelQuantity * level.price;
+    remaining -= taken;
+  }
+
+  return {
+    fills,
+    quantity,
+    notional,
+    avgPrice: quantity > 0 ? notional / quantity : 0,
+    // Tolerate floating-point dust when the last level exactly covers the order
+    complete: remaining <= size * 1e-9,
+  };
+}
+
+/**
+ * Size already filled by an order's executions, in the order's size unit
+ *
+ * USDC notional for USDC-sized orders, token quantity for share-sized
+ * orders, so the unfilled remainder is `size - filledSize`.
+ */
+export function getFilledSize(executions: Execution[], sizeUnit: SizeUnit = 'usdc'): number {
+  return executions.reduce(
+    (total, execution) =>
+      total +
+      parseFloat(execution.quantity) *
+        (sizeUnit === 'shares' ? 1 : parseFloat(execution.price)),
+    0
+  );
+}
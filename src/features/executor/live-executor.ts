@@ -0,0 +1,616 @@
+import { getPolymarketAdapter } from '../../integrations/polymarket/polymarket.adapter.js';
+import { getExecutorRepository } from './executor.repository.js';
+import { validateSellPosition } from '../positions/position-calculator.js';
+import { logger } from '../../infrastructure/logging/logger.js';
+import { ExecutionError } from '../../domain/errors/execution.error.js';
+import { withTransaction } from '../../infrastructure/database/client.js';
+import type { TimeInForce } from '../../domain/schemas/trade-plan.schema.js';
+import type { Order } from '../../infrastructure/database/schema.js';
+import {
+  orderGroupColumns,
+  orderToTrade,
+  resolveExpiresAt,
+  sizeColumns,
+} from './order.mapper.js';
+import {
+  getOpposingLevels,
+  resolvePriceLimit,
+  resolveTimeInForce,
+  timeInForceCancellation,
+  walkBook,
+} from './fill-model.js';
+import { calculateFee } from './fee-schedule.js';
+import type { PostedOrder } from '../../integrations/polymarket/polymarket.types.js';
+import type {
+  ExecutionResult,
+  FillSimulation,
+  RemainderHandling,
+  SizedTrade,
+  TradeExecutionOptions,
+} from './executor.types.js';
+
+const liveLogger = logger.child({ module: 'live-executor' });
+
+/**
+ * Tolerance (USDC, or tokens for share-sized trades) when deciding whether
+ * an IOC fill covered the full size (CLOB amounts are rounded to cents)
+ */
+const FILL_SIZE_TOLERANCE = 0.01;
+
+/**
+ * Token quantity below which CLOB and recorded matched sizes are treated as equal
+ */
+const MATCHED_QUANTITY_TOLERANCE = 0.000001;
+
+/**
+ * CLOB statuses of orders that will never match further
+ */
+const CLOB_TERMINAL_STATUSES = ['canceled', 'cancelled', 'unmatched'];
+
+/**
+ * Live Trading Executor
+ *
+ * Signs and posts real orders to the Polymarket CLOB.
+ * Phase 3+: MARKET orders post as Fill-or-Kill, LIMIT orders as Good-til-Cancelled
+ * (or Good-til-Date when the trade sets expiresAt / ttlMinutes). MARKET orders
+ * capped with maxPrice/minPrice post as GTC LIMIT orders at the cap unless they
+ * set IOC/FOK. IOC trades post as Fill-and-Kill; unfilled IOC/FOK size is
+ * recorded as a cancellation.
+ * A LIMIT order that matches partly is stored as partially_filled with the
+ * rest resting; orders the CLOB reports as 'delayed' are stored open.
+ *
+ * The CLOB order ID is stored on the order (external_order_id) and each
+ * matched fill is stored with its settlement transaction hash
+ * (external_execution_id) for reconciliation. Working live orders are
+ * reconciled with the CLOB on each sweep (syncOpenOrder).
+ */
+export class LiveExecutor {
+  private adapter = getPolymarketAdapter();
+  private repository = getExecutorRepository();
+
+  /**
+   * Execute a single trade in live mode
+   *
+   * @param planId - Trade plan identifier
+   * @param trade - Trade to execute
+   * @param options - Optional linkage to an existing order
+   * @returns Execution result with order and execution details
+   */
+  async executeTrade(
+    planId: string,
+    trade: SizedTrade,
+    options: TradeExecutionOptions = {}
+  ): Promise<ExecutionResult> {
+    liveLogger.info(
+      {
+        planId,
+        marketTokenId: trade.marketTokenId,
+        outcome: trade.outcome,
+        side: trade.side,
+        orderType: trade.orderType,
+        size: trade.size,
+        sizeUnit: trade.sizeUnit,
+        price: trade.price,
+      },
+      'Starting live trade execution'
+    );
+
+    try {
+      const expiresAt = resolveExpiresAt(trade);
+      const timeInForce = resolveTimeInForce(trade);
+
+      // Step 1: Post order to the CLOB
+      let postedOrder: PostedOrder;
+
+      if (trade.orderType === 'MARKET' && timeInForce === 'GTC') {
+        // Capped MARKET orders without IOC/FOK work at the cap like a LIMIT order
+        postedOrder = await this.postLimitOrder(
+          { ...trade, price: resolvePriceLimit(trade) },
+          timeInForce,
+          expiresAt
+        );
+      } else if (trade.orderType === 'MARKET') {
+        postedOrder = await this.postMarketOrder(
+          trade,
+          timeInForce === 'IOC' ? 'IOC' : 'FOK'
+        );
+      } else if (trade.orderType === 'LIMIT') {
+        postedOrder = await this.postLimitOrder(trade, timeInForce, expiresAt);
+      } else {
+        throw new ExecutionError(
+          `Order type ${trade.orderType} not supported.`,
+          { details: { trade } }
+        );
+      }
+
+      // Step 2: Persist order (and fill if matched immediately)
+      const fill = this.toFill(postedOrder, trade.side);
+
+      if (fill === null && isImmediate(timeInForce) && postedOrder.status === 'unmatched') {
+        // IOC/FOK never rest: nothing matched, so the CLOB killed the order
+        const cancellation = timeInForceCancellation(
+          timeInForce,
+          0,
+          trade.size,
+          trade.sizeUnit
+        );
+        const order = await this.repository.createOrder({
+          planId,
+          marketTokenId: trade.marketTokenId,
+          outcome: trade.outcome,
+          side: trade.side,
+          orderType: trade.orderType,
+          timeInForce,
+          ...sizeColumns(trade),
+          price: trade.price?.toString() || null,
+          priceCap: trade.orderType === 'MARKET' ? resolvePriceLimit(trade)?.toString() ?? null : null,
+          status: 'cancelled',
+          mode: 'live',
+          externalOrderId: postedOrder.orderId,
+          parentOrderId: options.parentOrderId,
+          ...orderGroupColumns(trade),
+          cancelledAt: new Date(),
+          cancelledBy: cancellation.cancelledBy,
+          cancelReason: cancellation.reason,
+        });
+
+        liveLogger.info(
+          { orderId: order.id, externalOrderId: postedOrder.orderId, timeInForce },
+          'Live immediate order not matched - cancelled'
+        );
+
+        return {
+          orderId: order.id,
+          trade,
+          status: 'cancelled',
+          executedAt: new Date(),
+        };
+      }
+
+      if (fill === null) {
+        // Order is resting on the book (LIMIT) or still being matched ('delayed');
+        // reconciliation records its fills or cancellation later
+        const order = await this.repository.createOrder({
+          planId,
+          marketTokenId: trade.marketTokenId,
+          outcome: trade.outcome,
+          side: trade.side,
+          orderType: trade.orderType,
+          timeInForce,
+          ...sizeColumns(trade),
+          price: trade.price?.toString() || null,
+          priceCap: trade.orderType === 'MARKET' ? resolvePriceLimit(trade)?.toString() ?? null : null,
+          status: 'open',
+          mode: 'live',
+          externalOrderId: postedOrder.orderId,
+          expiresAt,
+          parentOrderId: options.parentOrderId,
+          ...orderGroupColumns(trade),
+        });
+
+        liveLogger.info(
+          {
+            orderId: order.id,
+            externalOrderId: postedOrder.orderId,
+            clobStatus: postedOrder.status,
+          },
+          'Live order posted (resting on book)'
+        );
+
+        return {
+          orderId: order.id,
+          trade,
+          status: 'open',
+          executedAt: new Date(),
+        };
+      }
+
+      // FOK matches in full. IOC (Fill-and-Kill) may match less than requested and
+      // the rest is cancelled; GTC/GTD rest the rest on the book. Orders posted at
+      // a limit were sized at it, so USDC sizes are measured at the limit too.
+      const filledSize =
+        trade.sizeUnit === 'shares'
+          ? fill.quantity
+          : fill.quantity *
+            (trade.orderType === 'LIMIT' || timeInForce === 'GTC'
+              ? resolvePriceLimit(trade)!
+              : fill.fillPrice);
+      const complete =
+        timeInForce === 'FOK' || filledSize >= trade.size - FILL_SIZE_TOLERANCE;
+      const remainder: RemainderHandling | undefined = complete
+        ? undefined
+        : timeInForce === 'IOC'
+          ? {
+              type: 'cancelled',
+              cancellation: timeInForceCancellation('IOC', filledSize, trade.size, trade.sizeUnit),
+            }
+          : { type: 'working' };
+
+      const { order, executions } = await this.repository.executeTradeTransaction(
+        {
+          planId,
+          marketTokenId: trade.marketTokenId,
+          outcome: trade.outcome,
+          side: trade.side,
+          orderType: trade.orderType,
+          timeInForce,
+          ...sizeColumns(trade),
+          price: trade.price?.toString() || null,
+          priceCap: trade.orderType === 'MARKET' ? resolvePriceLimit(trade)?.toString() ?? null : null,
+          status: 'open', // Will be updated to 'filled' in transaction
+          mode: 'live',
+          externalOrderId: postedOrder.orderId,
+          expiresAt,
+          parentOrderId: options.parentOrderId,
+          ...orderGroupColumns(trade),
+        },
+        [
+          {
+            quantity: fill.quantity.toString(),
+            price: fill.fillPrice.toString(),
+            fee: calculateFee(fill.quantity * fill.fillPrice, 'taker').toString(),
+            executedAt: fill.executedAt,
+            externalExecutionId:
+              postedOrder.transactionHashes[0] || postedOrder.orderId,
+          },
+        ],
+        remainder
+      );
+
+      liveLogger.info(
+        {
+          orderId: order.id,
+          executionId: executions[0].id,
+          externalOrderId: postedOrder.orderId,
+          fillPrice: fill.fillPrice,
+          quantity: fill.quantity,
+          complete,
+        },
+        complete
+          ? 'Live trade executed successfully'
+          : 'Live trade partially matched'
+      );
+
+      return {
+        orderId: order.id,
+        trade,
+        fillPrice: fill.fillPrice,
+        quantity: fill.quantity,
+        status: complete ? 'filled' : remainder?.type === 'working' ? 'partially_filled' : 'cancelled',
+        executedAt: fill.executedAt,
+      };
+    } catch (error) {
+      liveLogger.error(
+        {
+          planId,
+          trade,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Live trade execution failed'
+      );
+
+      if (error instanceof ExecutionError) {
+        throw error;
+      }
+
+      throw new ExecutionError(
+        `Failed to execute live trade: ${error instanceof Error ? error.message : String(error)}`,
+        { details: { trade }, cause: error instanceof Error ? error : undefined }
+      );
+    }
+  }
+
+  /**
+   * Reconcile a working live order with its state on the CLOB
+   *
+   * Size matched on the CLOB since the last check is recorded as one fill at
+   * the order's price (maker fee for resting orders, taker fee for delayed
+   * IOC/FOK orders). Fully matched orders become 'filled'; orders the CLOB
+   * cancelled or killed are cancelled here too, keeping what filled. Live
+   * orders only expire here: a good-til-date order the CLOB killed after its
+   * expires_at becomes 'expired', so fills matched before the CLOB's own
+   * expiry are never lost to a local one.
+   *
+   * @param order - Open or partially filled live order
+   * @returns Execution result for this check ('filled', 'partially_filled', 'open', 'cancelled' or 'expired')
+   */
+  async syncOpenOrder(order: Order): Promise<ExecutionResult> {
+    const trade = orderToTrade(order);
+
+    if (
+      (order.status !== 'open' && order.status !== 'partially_filled') ||
+      order.mode !== 'live' ||
+      !order.externalOrderId
+    ) {
+      throw new ExecutionError(
+        `Order ${order.id} is not a working live order`,
+        { details: { orderId: order.id, status: order.status, mode: order.mode, externalOrderId: order.externalOrderId } }
+      );
+    }
+
+    const state = await this.adapter.getOrder(order.externalOrderId);
+    const previousExecutions = await this.repository.getExecutionsByOrderId(order.id);
+    const recordedQuantity = previousExecutions.reduce(
+      (total, execution) => total + parseFloat(execution.quantity),
+      0
+    );
+
+    const quantity = state.sizeMatched - recordedQuantity;
+    const matched = quantity > MATCHED_QUANTITY_TOLERANCE;
+    const fullyMatched =
+      state.status === 'matched' ||
+      (state.originalSize > 0 && state.sizeMatched >= state.originalSize - MATCHED_QUANTITY_TOLERANCE);
+    const killed = !fullyMatched && CLOB_TERMINAL_STATUSES.includes(state.status);
+
+    liveLogger.info(
+      { orderId: order.id, externalOrderId: order.externalOrderId, state, recordedQuantity },
+      'Live order state fetched'
+    );
+
+    if (!matched && !killed) {
+      return {
+        orderId: order.id,
+        trade,
+        status: order.status,
+        executedAt: new Date(),
+      };
+    }
+
+    const fillPrice = state.price || parseFloat(order.price ?? order.priceCap ?? '0');
+    const status = fullyMatched ? 'filled' : 'partially_filled';
+    const executedAt = new Date();
+    // The CLOB kills GTD orders once their expiration passes
+    const expired = killed && order.expiresAt !== null && order.expiresAt <= executedAt;
+
+    // The fill and the cancellation of a killed remainder land together
+    await withTransaction(async () => {
+      if (matched) {
+        await this.repository.fillOrderTransaction(
+          order.id,
+          [
+            {
+              quantity: quantity.toString(),
+              price: fillPrice.toString(),
+              fee: calculateFee(
+                quantity * fillPrice,
+                isImmediate(resolveTimeInForce(trade)) ? 'taker' : 'maker'
+              ).toString(),
+              executedAt,
+              externalExecutionId: state.tradeIds[state.tradeIds.length - 1] || order.externalOrderId,
+            },
+          ],
+          status
+        );
+      }
+
+      if (expired) {
+        await this.repository.expireOrders('live', executedAt, { orderId: order.id });
+      } else if (killed) {
+        await this.repository.cancelOrder(order.id, {
+          cancelledBy: 'system:clob',
+          reason: `CLOB reports order ${state.status}, matched ${state.sizeMatched.toFixed(2)} of ${state.originalSize.toFixed(2)} shares`,
+        });
+      }
+    });
+
+    liveLogger.info(
+      {
+        orderId: order.id,
+        externalOrderId: order.externalOrderId,
+        clobStatus: state.status,
+        fillPrice,
+        quantity: matched ? quantity : 0,
+      },
+      expired
+        ? 'Live order expired on CLOB'
+        : killed
+          ? 'Live order ended on CLOB - cancelled'
+          : 'Live order fill recorded'
+    );
+
+    return {
+      orderId: order.id,
+      trade,
+      ...(matched && { fillPrice, quantity }),
+      status: expired ? 'expired' : killed ? 'cancelled' : status,
+      executedAt,
+    };
+  }
+
+  /**
+   * Post a MARKET order
+   *
+   * BUY orders spend `size` USDC. SELL orders are converted to a token
+   * quantity at the best bid, matching the paper executor's sizing.
+   * Share-sized orders trade exactly `size` tokens; a BUY spends the USDC
+   * that buys them at visible ask depth.
+   * maxPrice/minPrice caps are signed into the order as its price.
+   */
+  private async postMarketOrder(
+    trade: SizedTrade,
+    timeInForce: 'IOC' | 'FOK'
+  ): Promise<PostedOrder> {
+    if (trade.side === 'BUY') {
+      return await this.adapter.postMarketOrder(
+        trade.marketTokenId,
+        'BUY',
+        trade.sizeUnit === 'shares' ? await this.getBuyNotional(trade) : trade.size,
+        timeInForce,
+        resolvePriceLimit(trade)
+      );
+    }
+
+    if (trade.sizeUnit === 'shares') {
+      await this.validateSellQuantity(trade, trade.size);
+
+      return await this.adapter.postMarketOrder(
+        trade.marketTokenId,
+        'SELL',
+        trade.size,
+        timeInForce,
+        resolvePriceLimit(trade)
+      );
+    }
+
+    const orderBook = await this.adapter.getOrderBook(trade.marketTokenId);
+
+    if (!orderBook.bids || orderBook.bids.length === 0) {
+      throw new ExecutionError(
+        `No bids available in order book for market ${trade.marketTokenId}. Cannot execute SELL order.`,
+        { details: { trade, marketTokenId: trade.marketTokenId } }
+      );
+    }
+
+    const bestBid = parseFloat(orderBook.bids[0].price);
+    const quantity = trade.size / bestBid;
+    await this.validateSellQuantity(trade, quantity);
+
+    return await this.adapter.postMarketOrder(
+      trade.marketTokenId,
+      'SELL',
+      quantity,
+      timeInForce,
+      resolvePriceLimit(trade)
+    );
+  }
+
+  /**
+   * USDC a share-sized MARKET BUY spends to buy `size` tokens
+   *
+   * Walks visible ask depth up to the maxPrice cap; if depth is short, only
+   * what is visible is bought.
+   */
+  private async getBuyNotional(trade: SizedTrade): Promise<number> {
+    const orderBook = await this.adapter.getOrderBook(trade.marketTokenId);
+    const depthFill = walkBook(
+      getOpposingLevels(orderBook, 'BUY'),
+      'BUY',
+      trade.size,
+      resolvePriceLimit(trade),
+      'shares'
+    );
+
+    if (depthFill.quantity === 0) {
+      throw new ExecutionError(
+        `No asks available in order book for market ${trade.marketTokenId}. Cannot execute BUY order.`,
+        { details: { trade, marketTokenId: trade.marketTokenId } }
+      );
+    }
+
+    return depthFill.notional;
+  }
+
+  /**
+   * Post a LIMIT order
+   *
+   * USDC size is converted to a token quantity at the limit price;
+   * share-sized orders post `size` tokens as is.
+   */
+  private async postLimitOrder(
+    trade: SizedTrade,
+    timeInForce: TimeInForce,
+    expiresAt?: Date
+  ): Promise<PostedOrder> {
+    if (!trade.price) {
+      throw new ExecutionError('LIMIT orders require a price', {
+        details: { trade },
+      });
+    }
+
+    const quantity =
+      trade.sizeUnit === 'shares' ? trade.size : trade.size / trade.price;
+
+    if (trade.side === 'SELL') {
+      await this.validateSellQuantity(trade, quantity);
+    }
+
+    return await this.adapter.postLimitOrder(
+      trade.marketTokenId,
+      trade.side,
+      trade.price,
+      quantity,
+      timeInForce,
+      expiresAt
+    );
+  }
+
+  /**
+   * Validate SELL order has sufficient live position
+   *
+   * @throws ExecutionError if position is insufficient
+   */
+  private async validateSellQuantity(
+    trade: SizedTrade,
+    requiredQuantity: number
+  ): Promise<void> {
+    const validation = await validateSellPosition(
+      trade.marketTokenId,
+      trade.outcome,
+      'live',
+      requiredQuantity
+    );
+
+    if (!validation.valid) {
+      throw new ExecutionError(
+        validation.message || 'Insufficient position for SELL order',
+        {
+          details: {
+            trade,
+            requiredQuantity,
+            currentQuantity: validation.currentQuantity,
+          },
+        }
+      );
+    }
+  }
+
+  /**
+   * Convert a posted order into a fill, if it matched
+   *
+   * @returns Fill details, or null if the order is resting/unmatched
+   */
+  private toFill(
+    postedOrder: PostedOrder,
+    side: 'BUY' | 'SELL'
+  ): FillSimulation | null {
+    if (postedOrder.status !== 'matched') {
+      return null;
+    }
+
+    // BUY: making = USDC, taking = tokens. SELL: making = tokens, taking = USDC.
+    const usdc = side === 'BUY' ? postedOrder.makingAmount : postedOrder.takingAmount;
+    const quantity = side === 'BUY' ? postedOrder.takingAmount : postedOrder.makingAmount;
+
+    if (quantity <= 0 || usdc <= 0) {
+      throw new ExecutionError(
+        `CLOB reported order ${postedOrder.orderId} as matched without fill amounts`,
+        { details: { postedOrder } }
+      );
+    }
+
+    return {
+      fillPrice: usdc / quantity,
+      quantity,
+      executedAt: new Date(),
+    };
+  }
+}
+
+/**
+ * IOC and FOK orders never rest on the book
+ */
+function isImmediate(timeInForce: TimeInForce): timeInForce is 'IOC' | 'FOK' {
+  return timeInForce === 'IOC' || timeInForce === 'FOK';
+}
+
+/**
+ * Singleton live executor instance
+ */
+let liveExecutorInstance: LiveExecutor | null = null;
+
+export function getLiveExecutor(): LiveExecutor {
+  if (!liveExecutorInstance) {
+    liveExecutorInstance = new LiveExecutor();
+  }
+  return liveExecutorInstance;
+}
@@ -0,0 +1,106 @@
+import type { Trade } from '../../domain/schemas/trade-plan.schema.js';
+import type { NewOrder, Order } from '../../infrastructure/database/schema.js';
+import { ExecutionError } from '../../domain/errors/execution.error.js';
+import type { SizedTrade } from './executor.types.js';
+
+/**
+ * Rebuild the trade parameters of a persisted order
+ *
+ * Used when an existing order is re-evaluated (sweeps), replaced (amendments)
+ * or placed by a fired trigger. Position-sized orders keep their resolved
+ * size; closePosition comes back as percentOfPosition 100.
+ */
+export function orderToTrade(order: Order): SizedTrade {
+  return {
+    marketTokenId: order.marketTokenId,
+    outcome: order.outcome,
+    side: order.side,
+    orderType: order.orderType,
+    timeInForce: order.timeInForce ?? undefined,
+    size: parseFloat(order.size),
+    sizeUnit: order.sizeUnit,
+    percentOfPosition: order.positionPercent ? parseFloat(order.positionPercent) : undefined,
+    price: order.price ? parseFloat(order.price) : undefined,
+    maxPrice: order.priceCap && order.side === 'BUY' ? parseFloat(order.priceCap) : undefined,
+    minPrice: order.priceCap && order.side === 'SELL' ? parseFloat(order.priceCap) : undefined,
+    expiresAt: order.expiresAt?.toISOString(),
+    // Trailing stops persist their current stop level, which is not a trade input
+    triggerPrice:
+      order.triggerPrice && order.orderType !== 'TRAILING_STOP'
+        ? parseFloat(order.triggerPrice)
+        : undefined,
+    triggerReference: order.triggerReference ?? undefined,
+    trailingOffset: order.trailingOffset ? parseFloat(order.trailingOffset) : undefined,
+    trailingPercent: order.trailingPercent ? parseFloat(order.trailingPercent) : undefined,
+    slicing:
+      order.sliceCount && order.sliceIntervalMinutes
+        ? {
+            slices: order.sliceCount,
+            intervalMinutes: parseFloat(order.sliceIntervalMinutes),
+          }
+        : undefined,
+    orderGroup:
+      order.orderGroupId && order.orderGroupType
+        ? {
+            id: order.orderGroupId,
+            type: order.orderGroupType,
+            role: order.orderGroupRole ?? undefined,
+          }
+        : undefined,
+  };
+}
+
+/**
+ * Size columns persisted for a trade's order
+ */
+export function sizeColumns(
+  trade: SizedTrade
+): Pick<NewOrder, 'size' | 'sizeUnit' | 'positionPercent'> {
+  const positionPercent = trade.closePosition ? 100 : trade.percentOfPosition;
+
+  return {
+    size: trade.size.toString(),
+    sizeUnit: trade.sizeUnit ?? 'usdc',
+    positionPercent: positionPercent?.toString() ?? null,
+  };
+}
+
+/**
+ * OCO / BRACKET group columns persisted for a trade's order
+ */
+export function orderGroupColumns(
+  trade: Trade
+): Pick<NewOrder, 'orderGroupId' | 'orderGroupType' | 'orderGroupRole'> {
+  return {
+    orderGroupId: trade.orderGroup?.id ?? null,
+    orderGroupType: trade.orderGroup?.type ?? null,
+    orderGroupRole: trade.orderGroup?.role ?? null,
+  };
+}
+
+/**
+ * Resolve a trade's good-til-date expiry to an absolute time
+ *
+ * ttlMinutes is measured from `now` (order placement).
+ *
+ * @returns Expiry time, or undefined for good-til-cancelled trades
+ * @throws ExecutionError if the expiry has already passed
+ */
+export function resolveExpiresAt(trade: Trade, now: Date = new Date()): Date | undefined {
+  let expiresAt: Date | undefined;
+
+  if (trade.expiresAt !== undefined) {
+    expiresAt = new Date(trade.expiresAt);
+  } else if (trade.ttlMinutes !== undefined) {
+    expiresAt = new Date(now.getTime() + trade.ttlMinutes * 60_000);
+  }
+
+  if (expiresAt && expiresAt.getTime() <= now.getTime()) {
+    throw new ExecutionError(
+      `Trade expired at ${expiresAt.toISOString()} before it could be placed`,
+      { details: { trade, expiresAt: expiresAt.toISOString() } }
+    );
+  }
+
+  return expiresAt;
+}
@@ -3,8 +3,32 @@ import { getExecutorRepository } from './executor.repository.js';
 import { validateSellPosition } from '../positions/position-calculator.js';
 import { logger } from '../../infrastructure/logging/logger.js';
 import { ExecutionError } from '../../domain/errors/execution.error.js';
-import type { Trade } from '../../domain/schemas/trade-plan.schema.js';
-import type { ExecutionResult, FillSimulation } from './executor.types.js';
+import type {
+  NewExecution,
+  NewOrder,
+  Order,
+} from '../../infrastructure/database/schema.js';
+import {
+  orderGroupColumns,
+  orderToTrade,
+  resolveExpiresAt,
+  sizeColumns,
+} from './order.mapper.js';
+import { calculateFee, type LiquidityRole } from './fee-schedule.js';
+import {
+  getFilledSize,
+  getOpposingLevels,
+  resolvePriceLimit,
+  resolveTimeInForce,
+  timeInForceCancellation,
+  walkBook,
+  type DepthFill,
+} from './fill-model.js';
+import type {
+  ExecutionResult,
+  SizedTrade,
+  TradeExecutionOptions,
+} from './executor.types.js';
 
 const paperLogger = logger.child({ module: 'paper-executor' });
 
@@ -12,7 +36,15 @@ const paperLogger = logger.child({ module: 'paper-executor' });
  * Paper Trading Executor
  *
  * Simulates trade execution using real market data from Polymarket CLOB.
- * Phase 1: MARKET orders only, zero slippage model.
+ *
+ * MARKET orders walk the order book level by level (one execution per
+ * level consumed), so large orders pay realistic slippage. Orders sized in
+ * shares walk the book for an exact token quantity instead of USDC.
+ *
+ * Time in force mirrors the CLOB: GTC LIMIT orders rest until they cross,
+ * IOC/FOK orders fill against visible depth immediately and never rest.
+ * MARKET orders capped with maxPrice/minPrice work like GTC LIMIT orders at
+ * the cap unless they set IOC/FOK; uncapped MARKET orders are FOK.
  */
 export class PaperExecutor {
   private adapter = getPolymarketAdapter();
@@ -23,9 +55,14 @@ export class PaperExecutor {
    *
    * @param planId - Trade plan identifier
    * @param trade - Trade to execute
+   * @param options - Optional linkage to an existing order
    * @returns Execution result with order and execution details
    */
-  async executeTrade(planId: string, trade: Trade): Promise<ExecutionResult> {
+  async executeTrade(
+    planId: string,
+    trade: SizedTrade,
+    options: TradeExecutionOptions = {}
+  ): Promise<ExecutionResult> {
     paperLogger.info(
       {
         planId,
@@ -34,55 +71,64 @@ export class PaperExecutor {
         side: trade.side,
         orderType: trade.orderType,
         size: trade.size,
+        sizeUnit: trade.sizeUnit,
         price: trade.price,
       },
       'Starting paper trade execution'
     );
 
     try {
-      // Step 1: Validate SELL orders have sufficient position (for MARKET orders only)
-      // LIMIT SELL orders will be validated if/when they fill
-      if (trade.side === 'SELL' && trade.orderType === 'MARKET') {
-        await this.validateSellOrder(trade);
-      }
+      // Good-til-date LIMIT orders carry an absolute expiry
+      const expiresAt = resolveExpiresAt(trade);
+      const timeInForce = resolveTimeInForce(trade);
 
-      // Step 2: Simulate fill based on order type
-      let fillSimulation: FillSimulation | null;
+      // IOC/FOK orders (uncapped MARKET orders are FOK) fill against visible depth
+      if (timeInForce !== 'GTC') {
+        return await this.executeImmediateOrder(planId, trade, timeInForce, options);
+      }
 
-      if (trade.orderType === 'MARKET') {
-        fillSimulation = await this.simulateMarketOrderFill(trade);
-      } else if (trade.orderType === 'LIMIT') {
-        fillSimulation = await this.simulateLimitOrderFill(trade);
-      } else {
+      // GTC LIMIT, or MARKET at its price cap: fills what crosses (up to visible depth), the rest rests
+      const limitPrice = resolvePriceLimit(trade);
+      if (limitPrice === undefined) {
         throw new ExecutionError(
-          `Order type ${trade.orderType} not supported.`,
+          `Order type ${trade.orderType} cannot rest on the book (GTC) without a price limit.`,
           { details: { trade } }
         );
       }
 
-      // Step 3: Persist order to database
-      // If fillSimulation is null (LIMIT order didn't cross), create order without execution
-      if (fillSimulation === null) {
-        // LIMIT order stays open (did not cross spread)
-        const order = await this.repository.createOrder({
-          planId,
-          marketTokenId: trade.marketTokenId,
-          outcome: trade.outcome,
-          side: trade.side,
-          orderType: trade.orderType,
-          size: trade.size.toString(),
-          price: trade.price!.toString(), // LIMIT orders always have price
-          status: 'open',
-          mode: 'paper',
-        });
+      const depthFill = await this.simulateLimitOrderFill(trade, trade.size);
+
+      const orderData: NewOrder = {
+        planId,
+        marketTokenId: trade.marketTokenId,
+        outcome: trade.outcome,
+        side: trade.side,
+        orderType: trade.orderType,
+        ...sizeColumns(trade),
+        price: trade.price?.toString() || null,
+        priceCap: trade.orderType === 'MARKET' ? limitPrice.toString() : null,
+        status: 'open',
+        timeInForce,
+        mode: 'paper',
+        expiresAt,
+        parentOrderId: options.parentOrderId,
+        ...orderGroupColumns(trade),
+      };
+
+      // Persist order to database
+      // If nothing crosses, create order without execution
+      if (depthFill.quantity === 0) {
+        // Order stays open (did not cross spread)
+        const order = await this.repository.createOrder(orderData);
 
         paperLogger.info(
           {
             orderId: order.id,
-            limitPrice: trade.price,
+            orderType: trade.orderType,
+            limitPrice,
             side: trade.side,
           },
-          'LIMIT order created (waiting for price)'
+          `${trade.orderType} order created (waiting for price)`
         );
 
         return {
@@ -91,46 +137,37 @@ export class PaperExecutor {
           status: 'open',
           executedAt: new Date(),
         };
-      } else {
-        // Order fills immediately (MARKET or LIMIT that crosses spread)
-        const { order, execution } = await this.repository.executeTradeTransaction(
-          {
-            planId,
-            marketTokenId: trade.marketTokenId,
-            outcome: trade.outcome,
-            side: trade.side,
-            orderType: trade.orderType,
-            size: trade.size.toString(),
-            price: trade.price?.toString() || null,
-            status: 'open', // Will be updated to 'filled' in transaction
-            mode: 'paper',
-          },
-          {
-            quantity: fillSimulation.quantity.toString(),
-            price: fillSimulation.fillPrice.toString(),
-            executedAt: fillSimulation.executedAt,
-          }
-        );
+      }
 
-        paperLogger.info(
-          {
-            orderId: order.id,
-            executionId: execution.id,
-            fillPrice: fillSimulation.fillPrice,
-            quantity: fillSimulation.quantity,
-          },
-          'Paper trade executed successfully'
-        );
+      // Order crosses the spread: fill available depth, keep remainder working
+      const executedAt = new Date();
+      const { order, executions } = await this.repository.executeTradeTransaction(
+        orderData,
+        toExecutionRows(depthFill, executedAt, 'taker'),
+        depthFill.complete ? undefined : { type: 'working' }
+      );
 
-        return {
+      paperLogger.info(
+        {
           orderId: order.id,
-          trade,
-          fillPrice: fillSimulation.fillPrice,
-          quantity: fillSimulation.quantity,
-          status: 'filled',
-          executedAt: fillSimulation.executedAt,
-        };
-      }
+          executionIds: executions.map((e) => e.id),
+          fillPrice: depthFill.avgPrice,
+          quantity: depthFill.quantity,
+          complete: depthFill.complete,
+        },
+        depthFill.complete
+          ? 'Paper trade executed successfully'
+          : 'Paper trade partially filled - remainder working'
+      );
+
+      return {
+        orderId: order.id,
+        trade,
+        fillPrice: depthFill.avgPrice,
+        quantity: depthFill.quantity,
+        status: depthFill.complete ? 'filled' : 'partially_filled',
+        executedAt,
+      };
     } catch (error) {
       paperLogger.error(
         {
@@ -153,106 +190,235 @@ export class PaperExecutor {
   }
 
   /**
-   * Simulate MARKET order fill using order book data
+   * Execute an IOC or FOK order against visible order book depth
    *
-   * Phase 1: Zero slippage model
-   * - BUY orders fill at best ask price
-   * - SELL orders fill at best bid price
-   * - Always fills 100% immediately
+   * - Walks opposing levels (up to the limit price for LIMIT orders, or the
+   *   maxPrice/minPrice cap for MARKET orders)
+   * - Records one execution per level consumed; the result reports the VWAP
+   * - FOK: kills the whole order unless the full size can fill
+   * - IOC: fills what crosses and cancels the remainder
+   * - The order never rests; unfilled size is recorded as a cancellation
    *
-   * @param trade - Trade to simulate
-   * @returns Fill simulation with price and quantity
+   * @param planId - Trade plan identifier
+   * @param trade - Trade to execute
+   * @param timeInForce - IOC or FOK
+   * @param options - Optional linkage to an existing order
+   * @returns Execution result ('filled' or 'cancelled')
    */
-  private async simulateMarketOrderFill(trade: Trade): Promise<FillSimulation> {
-    paperLogger.debug(
-      { marketTokenId: trade.marketTokenId, side: trade.side, size: trade.size },
-      'Simulating MARKET order fill'
+  private async executeImmediateOrder(
+    planId: string,
+    trade: SizedTrade,
+    timeInForce: 'IOC' | 'FOK',
+    options: TradeExecutionOptions
+  ): Promise<ExecutionResult> {
+    const orderBook = await this.adapter.getOrderBook(trade.marketTokenId);
+    const levels = getOpposingLevels(orderBook, trade.side);
+    const limitPrice = resolvePriceLimit(trade);
+    const depthFill = walkBook(levels, trade.side, trade.size, limitPrice, trade.sizeUnit);
+
+    paperLogger.info(
+      { timeInForce, limitPrice, requested: trade.size, depthFill },
+      'Immediate order depth simulated'
     );
 
-    // Fetch order book for the market
-    const orderBook = await this.adapter.getOrderBook(trade.marketTokenId);
+    const orderData: NewOrder = {
+      planId,
+      marketTokenId: trade.marketTokenId,
+      outcome: trade.outcome,
+      side: trade.side,
+      orderType: trade.orderType,
+      timeInForce,
+      ...sizeColumns(trade),
+      price: trade.price?.toString() || null,
+      priceCap: trade.orderType === 'MARKET' ? limitPrice?.toString() ?? null : null,
+      status: 'open',
+      mode: 'paper',
+      parentOrderId: options.parentOrderId,
+      ...orderGroupColumns(trade),
+    };
+
+    const cancellation = timeInForceCancellation(
+      timeInForce,
+      trade.sizeUnit === 'shares' ? depthFill.quantity : depthFill.notional,
+      trade.size,
+      trade.sizeUnit
+    );
 
-    // Determine fill price based on side
-    let fillPrice: number;
+    // Nothing fills: FOK without full depth, or IOC with nothing crossing
+    if (depthFill.quantity === 0 || (timeInForce === 'FOK' && !depthFill.complete)) {
+      const order = await this.repository.createOrder({
+        ...orderData,
+        status: 'cancelled',
+        cancelledAt: new Date(),
+        cancelledBy: cancellation.cancelledBy,
+        cancelReason: cancellation.reason,
+      });
+
+      paperLogger.info(
+        { orderId: order.id, timeInForce, reason: cancellation.reason },
+        'Immediate order not filled - cancelled'
+      );
 
-    if (trade.side === 'BUY') {
-      // BUY at best ask (lowest sell price)
-      if (!orderBook.asks || orderBook.asks.length === 0) {
-        throw new ExecutionError(
-          `No asks available in order book for market ${trade.marketTokenId}. Cannot execute BUY order.`,
-          { details: { trade, marketTokenId: trade.marketTokenId } }
-        );
-      }
+      return {
+        orderId: order.id,
+        trade,
+        status: 'cancelled',
+        executedAt: new Date(),
+      };
+    }
 
-      fillPrice = parseFloat(orderBook.asks[0].price);
-      paperLogger.debug(
-        { bestAsk: fillPrice },
-        'BUY order will fill at best ask'
+    if (trade.side === 'SELL') {
+      const validation = await validateSellPosition(
+        trade.marketTokenId,
+        trade.outcome,
+        'paper',
+        depthFill.quantity
       );
-    } else {
-      // SELL at best bid (highest buy price)
-      if (!orderBook.bids || orderBook.bids.length === 0) {
+
+      if (!validation.valid) {
         throw new ExecutionError(
-          `No bids available in order book for market ${trade.marketTokenId}. Cannot execute SELL order.`,
-          { details: { trade, marketTokenId: trade.marketTokenId } }
+          validation.message || `Insufficient position for SELL ${timeInForce} order`,
+          {
+            details: {
+              trade,
+              requiredQuantity: depthFill.quantity,
+              currentQuantity: validation.currentQuantity,
+            },
+          }
         );
       }
-
-      fillPrice = parseFloat(orderBook.bids[0].price);
-      paperLogger.debug(
-        { bestBid: fillPrice },
-        'SELL order will fill at best bid'
-      );
     }
 
-    // Validate fill price
-    if (fillPrice <= 0 || fillPrice >= 1) {
+    const executedAt = new Date();
+    const { order, executions } = await this.repository.executeTradeTransaction(
+      orderData,
+      toExecutionRows(depthFill, executedAt, 'taker'),
+      depthFill.complete ? undefined : { type: 'cancelled', cancellation }
+    );
+
+    paperLogger.info(
+      {
+        orderId: order.id,
+        executionIds: executions.map((e) => e.id),
+        levelsConsumed: depthFill.fills.length,
+        timeInForce,
+        fillPrice: depthFill.avgPrice,
+        quantity: depthFill.quantity,
+        complete: depthFill.complete,
+      },
+      'Immediate paper order executed'
+    );
+
+    return {
+      orderId: order.id,
+      trade,
+      fillPrice: depthFill.avgPrice,
+      quantity: depthFill.quantity,
+      status: depthFill.complete ? 'filled' : 'cancelled',
+      executedAt,
+    };
+  }
+
+  /**
+   * Re-check a resting paper order against a fresh order book
+   *
+   * Applies the same crossing logic as new LIMIT orders to the order's
+   * unfilled remainder (at the price cap for MARKET orders). Fills are
+   * recorded with the status change in one transaction; orders that still
+   * don't cross keep their status.
+   *
+   * @param order - Open or partially filled paper LIMIT order, or capped MARKET order
+   * @returns Execution result for this re-check ('filled', 'partially_filled' or 'open')
+   */
+  async fillOpenOrder(order: Order): Promise<ExecutionResult> {
+    const trade = orderToTrade(order);
+
+    const limitPrice = resolvePriceLimit(trade);
+
+    paperLogger.info(
+      { orderId: order.id, planId: order.planId, side: trade.side, limitPrice },
+      'Re-checking open paper order'
+    );
+
+    if (
+      (order.status !== 'open' && order.status !== 'partially_filled') ||
+      order.mode !== 'paper' ||
+      (order.orderType !== 'LIMIT' && order.orderType !== 'MARKET') ||
+      limitPrice === undefined
+    ) {
       throw new ExecutionError(
-        `Invalid fill price ${fillPrice} for market ${trade.marketTokenId}. Price must be between 0 and 1.`,
-        { details: { trade, fillPrice, marketTokenId: trade.marketTokenId } }
+        `Order ${order.id} is not an open paper LIMIT or capped MARKET order`,
+        { details: { orderId: order.id, status: order.status, mode: order.mode, orderType: order.orderType } }
       );
     }
 
-    // Calculate quantity: tokens = size (USDC) / price
-    // Example: $100 USDC / $0.40 per token = 250 tokens
-    const quantity = trade.size / fillPrice;
+    const previousExecutions = await this.repository.getExecutionsByOrderId(order.id);
+    const remainingSize = trade.size - getFilledSize(previousExecutions, trade.sizeUnit);
+    const depthFill = await this.simulateLimitOrderFill(trade, remainingSize);
+
+    if (depthFill.quantity === 0) {
+      return {
+        orderId: order.id,
+        trade,
+        status: order.status,
+        executedAt: new Date(),
+      };
+    }
 
-    const fillSimulation: FillSimulation = {
-      fillPrice,
-      quantity,
-      executedAt: new Date(),
-    };
+    const executedAt = new Date();
+    const status = depthFill.complete ? 'filled' : 'partially_filled';
+    const executions = await this.repository.fillOrderTransaction(
+      order.id,
+      toExecutionRows(depthFill, executedAt, 'maker'),
+      status
+    );
 
     paperLogger.info(
       {
-        marketTokenId: trade.marketTokenId,
-        side: trade.side,
-        size: trade.size,
-        fillPrice,
-        quantity,
+        orderId: order.id,
+        executionIds: executions.map((e) => e.id),
+        fillPrice: depthFill.avgPrice,
+        quantity: depthFill.quantity,
+        remainingSize:
+          remainingSize - (trade.sizeUnit === 'shares' ? depthFill.quantity : depthFill.notional),
       },
-      'MARKET order fill simulated'
+      depthFill.complete ? 'Open paper order filled' : 'Open paper order partially filled'
     );
 
-    return fillSimulation;
+    return {
+      orderId: order.id,
+      trade,
+      fillPrice: depthFill.avgPrice,
+      quantity: depthFill.quantity,
+      status,
+      executedAt,
+    };
   }
 
   /**
-   * Simulate LIMIT order fill using order book data
+   * Simulate a resting order fill using order book depth
    *
-   * Phase 7: LIMIT order crossing logic
-   * - BUY LIMIT: Fills if limit price >= best ask (willing to pay more)
-   * - SELL LIMIT: Fills if limit price <= best bid (willing to accept less)
-   * - Orders that cross fill immediately at best opposing price
-   * - Orders that don't cross return null (stay open)
+   * LIMIT order crossing logic (capped MARKET orders use their cap as the limit)
+   * - BUY LIMIT: Consumes asks priced at or below the limit (lowest first)
+   * - SELL LIMIT: Consumes bids priced at or above the limit (highest first)
+   * - Fills up to `size` (USDC, or tokens for share-sized trades); less if
+   *   visible crossing depth is smaller
+   * - Orders that don't cross return an empty fill (stay open)
    *
-   * @param trade - LIMIT trade to simulate
-   * @returns Fill simulation if order crosses spread, null if stays open
+   * @param trade - LIMIT or capped MARKET trade to simulate
+   * @param size - Unfilled size to fill, in the trade's size unit
+   * @returns Depth fill (quantity 0 if the order does not cross)
    */
-  private async simulateLimitOrderFill(trade: Trade): Promise<FillSimulation | null> {
-    if (!trade.price) {
+  private async simulateLimitOrderFill(
+    trade: SizedTrade,
+    size: number
+  ): Promise<DepthFill> {
+    const limitPrice = resolvePriceLimit(trade);
+    if (!limitPrice) {
       throw new ExecutionError(
-        'LIMIT orders require a price',
+        trade.orderType === 'LIMIT'
+          ? 'LIMIT orders require a price'
+          : 'Resting MARKET orders require a maxPrice/minPrice cap',
         { details: { trade } }
       );
     }
@@ -261,96 +427,52 @@ export class PaperExecutor {
       {
         marketTokenId: trade.marketTokenId,
         side: trade.side,
-        size: trade.size,
-        limitPrice: trade.price,
+        size,
+        sizeUnit: trade.sizeUnit,
+        limitPrice,
       },
       'Simulating LIMIT order fill'
     );
 
     // Fetch order book for the market
     const orderBook = await this.adapter.getOrderBook(trade.marketTokenId);
+    const levels = getOpposingLevels(orderBook, trade.side);
 
-    let fillPrice: number | null = null;
-
-    if (trade.side === 'BUY') {
-      // BUY LIMIT: Only fill if limit price >= best ask
-      if (!orderBook.asks || orderBook.asks.length === 0) {
-        throw new ExecutionError(
-          `No asks available in order book for market ${trade.marketTokenId}. Cannot execute BUY LIMIT order.`,
-          { details: { trade, marketTokenId: trade.marketTokenId } }
-        );
-      }
-
-      const bestAsk = parseFloat(orderBook.asks[0].price);
-
-      if (trade.price >= bestAsk) {
-        // Order crosses spread - fill at best ask (favorable execution)
-        fillPrice = bestAsk;
-        paperLogger.info(
-          { limitPrice: trade.price, bestAsk, fillPrice },
-          'BUY LIMIT order crosses spread - filling at best ask'
-        );
-      } else {
-        // Order does not cross - stays open
-        paperLogger.info(
-          { limitPrice: trade.price, bestAsk },
-          'BUY LIMIT order does not cross spread - staying open'
-        );
-        return null;
-      }
-    } else {
-      // SELL LIMIT: Only fill if limit price <= best bid
-      if (!orderBook.bids || orderBook.bids.length === 0) {
-        throw new ExecutionError(
-          `No bids available in order book for market ${trade.marketTokenId}. Cannot execute SELL LIMIT order.`,
-          { details: { trade, marketTokenId: trade.marketTokenId } }
-        );
-      }
-
-      const bestBid = parseFloat(orderBook.bids[0].price);
-
-      if (trade.price <= bestBid) {
-        // Order crosses spread - fill at best bid (favorable execution)
-        fillPrice = bestBid;
-        paperLogger.info(
-          { limitPrice: trade.price, bestBid, fillPrice },
-          'SELL LIMIT order crosses spread - filling at best bid'
-        );
-      } else {
-        // Order does not cross - stays open
-        paperLogger.info(
-          { limitPrice: trade.price, bestBid },
-          'SELL LIMIT order does not cross spread - staying open'
-        );
-        return null;
-      }
+    if (levels.length === 0) {
+      const bookSide = trade.side === 'BUY' ? 'asks' : 'bids';
+      throw new ExecutionError(
+        `No ${bookSide} available in order book for market ${trade.marketTokenId}. Cannot execute ${trade.side} ${trade.orderType} order.`,
+        { details: { trade, marketTokenId: trade.marketTokenId } }
+      );
     }
 
-    // Validate fill price
-    if (fillPrice <= 0 || fillPrice >= 1) {
-      throw new ExecutionError(
-        `Invalid fill price ${fillPrice} for market ${trade.marketTokenId}. Price must be between 0 and 1.`,
-        { details: { trade, fillPrice, marketTokenId: trade.marketTokenId } }
+    const depthFill = walkBook(levels, trade.side, size, limitPrice, trade.sizeUnit);
+
+    if (depthFill.quantity === 0) {
+      // Order does not cross - stays open
+      paperLogger.info(
+        { limitPrice, bestOpposingPrice: levels[0].price },
+        `${trade.side} ${trade.orderType} order does not cross spread - staying open`
       );
+      return depthFill;
     }
 
     // Validate SELL order position if filling
     if (trade.side === 'SELL') {
-      const requiredQuantity = trade.size / fillPrice;
       const validation = await validateSellPosition(
         trade.marketTokenId,
         trade.outcome,
         'paper',
-        requiredQuantity
+        depthFill.quantity
       );
 
       if (!validation.valid) {
         throw new ExecutionError(
-          validation.message || 'Insufficient position for SELL LIMIT order',
+          validation.message || `Insufficient position for SELL ${trade.orderType} order`,
           {
             details: {
               trade,
-              requiredQuantity,
+              requiredQuantity: depthFill.quantity,
               currentQuantity: validation.currentQuantity,
             }
           }
@@ -358,95 +480,39 @@ export class PaperExecutor {
       }
     }
 
-    // Calculate quantity: tokens = size (USDC) / price
-    const quantity = trade.size / fillPrice;
-
-    const fillSimulation: FillSimulation = {
-      fillPrice,
-      quantity,
-      executedAt: new Date(),
-    };
-
     paperLogger.info(
       {
         marketTokenId: trade.marketTokenId,
         side: trade.side,
-        limitPrice: trade.price,
-        fillPrice,
-        quantity,
+        limitPrice,
+        fillPrice: depthFill.avgPrice,
+        quantity: depthFill.quantity,
+        levelsConsumed: depthFill.fills.length,
+        complete: depthFill.complete,
       },
       'LIMIT order fill simulated'
     );
 
-    return fillSimulation;
+    return depthFill;
   }
+}
 
-  /**
-   * Validate SELL order has sufficient position
-   *
-   * @param trade - SELL trade to validate
-   * @throws ExecutionError if position is insufficient
-   */
-  private async validateSellOrder(trade: Trade): Promise<void> {
-    paperLogger.debug(
-      { marketTokenId: trade.marketTokenId, outcome: trade.outcome, size: trade.size },
-      'Validating SELL order position'
-    );
-
-    // Get order book to calculate required quantity
-    const orderBook = await this.adapter.getOrderBook(trade.marketTokenId);
-
-    if (!orderBook.bids || orderBook.bids.length === 0) {
-      throw new ExecutionError(
-        `No bids available in order book for market ${trade.marketTokenId}. Cannot validate SELL order.`,
-        { details: { trade, marketTokenId: trade.marketTokenId } }
-      );
-    }
-
-    const expectedFillPrice = parseFloat(orderBook.bids[0].price);
-    const requiredQuantity = trade.size / expectedFillPrice;
-
-    paperLogger.debug(
-      {
-        marketTokenId: trade.marketTokenId,
-        bestBid: expectedFillPrice,
-        tradeSize: trade.size,
-        calculatedRequiredQuantity: requiredQuantity,
-        topBids: orderBook.bids.slice(0, 3).map(b => ({ price: b.price, size: b.size }))
-      },
-      'SELL order quantity calculation debug'
-    );
-
-    const validation = await validateSellPosition(
-      trade.marketTokenId,
-      trade.outcome,
-      'paper',
-      requiredQuantity
-    );
-
-    if (!validation.valid) {
-      throw new ExecutionError(
-        validation.message || 'Insufficient position for SELL order',
-        {
-          details: {
-            trade,
-            requiredQuantity,
-            currentQuantity: validation.currentQuantity,
-          }
-        }
-      );
-    }
-
-    paperLogger.debug(
-      {
-        marketTokenId: trade.marketTokenId,
-        outcome: trade.outcome,
-        requiredQuantity,
-        currentQuantity: validation.currentQuantity,
-      },
-      'SELL order position validation passed'
-    );
-  }
+/**
+ * Convert a depth fill into execution rows, one per level consumed
+ *
+ * @param role - Taker for fills on placement, maker for resting orders filled later
+ */
+function toExecutionRows(
+  depthFill: DepthFill,
+  executedAt: Date,
+  role: LiquidityRole
+): Array<Omit<NewExecution, 'orderId'>> {
+  return depthFill.fills.map((fill) => ({
+    quantity: fill.quantity.toString(),
+    price: fill.price.toString(),
+    fee: calculateFee(fill.quantity * fill.price, role).toString(),
+    executedAt,
+  }));
 }
 
 /**
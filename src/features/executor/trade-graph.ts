@@ -0,0 +1,119 @@
+import type { Trade, TradeDependency } from '../../domain/schemas/trade-plan.schema.js';
+import type { ExecutionResult } from './executor.types.js';
+
+/**
+ * Trade Graph
+ *
+ * Pure helpers for executing a plan's trades as a dependency graph
+ * (trade ids + dependsOn). No I/O: the executor service places the trades.
+ */
+
+/**
+ * Outcome of a trade that dependency conditions are evaluated against
+ * (an execution result, or a pre-flight quote)
+ */
+export type DependencyResult = Pick<ExecutionResult, 'status' | 'quantity' | 'fillPrice'>;
+
+/**
+ * Order in which a plan's trades execute
+ *
+ * Topological order of the dependsOn graph. Among trades whose dependencies
+ * have all executed, the one listed first in the plan goes next, so plans
+ * without dependencies keep their listed order.
+ *
+ * @returns Trade indexes in execution order
+ * @throws Error if dependsOn references an unknown id or forms a cycle
+ *   (rejected by plan validation)
+ */
+export function getExecutionOrder(trades: Trade[]): number[] {
+  const indexById = new Map<string, number>();
+  trades.forEach((trade, index) => {
+    if (trade.id !== undefined) {
+      indexById.set(trade.id, index);
+    }
+  });
+
+  const waitingOn = trades.map((trade) => {
+    const dependencies = new Set<number>();
+    for (const dependency of trade.dependsOn ?? []) {
+      const index = indexById.get(dependency.tradeId);
+      if (index === undefined) {
+        throw new Error(`dependsOn references unknown trade ID '${dependency.tradeId}'`);
+      }
+      dependencies.add(index);
+    }
+    return dependencies;
+  });
+
+  const order: number[] = [];
+  const executed = new Set<number>();
+
+  while (order.length < trades.length) {
+    const next = waitingOn.findIndex(
+      (dependencies, index) =>
+        !executed.has(index) && [...dependencies].every((dependency) => executed.has(dependency))
+    );
+
+    if (next === -1) {
+      throw new Error('dependsOn forms a cycle');
+    }
+
+    order.push(next);
+    executed.add(next);
+  }
+
+  return order;
+}
+
+/**
+ * Check one dependency against the result of the trade it references
+ *
+ * Conditions are evaluated once, when the dependent trade is reached: a
+ * LIMIT order that fills on a later sweep does not release it.
+ *
+ * @returns Reason the condition does not hold, or undefined if it does
+ */
+export function checkDependency(
+  dependency: TradeDependency,
+  result: DependencyResult
+): string | undefined {
+  const label = `Dependency '${dependency.tradeId}'`;
+
+  switch (dependency.condition) {
+    case 'filled':
+      return result.status === 'filled' ? undefined : `${label} not filled (${result.status})`;
+    case 'not_filled':
+      return result.status === 'filled' ? `${label} filled` : undefined;
+    case 'fill_price_below':
+      if (!result.quantity || result.fillPrice === undefined) {
+        return `${label} has no fill (${result.status})`;
+      }
+      return result.fillPrice < dependency.price!
+        ? undefined
+        : `${label} filled at ${result.fillPrice.toFixed(4)}, not below ${dependency.price}`;
+  }
+}
+
+/**
+ * Find the first unmet dependency of a trade
+ *
+ * @param trade - Trade about to execute
+ * @param resultsByTradeId - Results of the plan's trades executed so far
+ * @returns Reason the trade must be skipped, or undefined if it can execute
+ */
+export function getUnmetDependency(
+  trade: Trade,
+  resultsByTradeId: Map<string, DependencyResult>
+): string | undefined {
+  for (const dependency of trade.dependsOn ?? []) {
+    const result = resultsByTradeId.get(dependency.tradeId);
+    const reason = result
+      ? checkDependency(dependency, result)
+      : `Dependency '${dependency.tradeId}' has not executed`;
+
+    if (reason) {
+      return reason;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,173 @@
+import { getGammaAdapter } from '../../integrations/polymarket/gamma.adapter.js';
+import { getPolymarketAdapter } from '../../integrations/polymarket/polymarket.adapter.js';
+import { parseMarketId } from '../../domain/utils/market-id-parser.js';
+import { MarketNotFoundError } from '../../domain/errors/execution.error.js';
+import { ValidationError, type ValidationIssue } from '../../domain/errors/validation.error.js';
+import { logger } from '../../infrastructure/logging/logger.js';
+import {
+  OutcomeSchema,
+  type SubmittedTrade,
+  type SubmittedTradePlan,
+  type Trade,
+  type TradePlan,
+} from '../../domain/schemas/trade-plan.schema.js';
+import type { Market } from '../../integrations/polymarket/polymarket.types.js';
+
+const lookupLogger = logger.child({ module: 'market-lookup-service' });
+
+/**
+ * How long a token's market metadata is reused before fetching it again
+ */
+const MARKET_CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * Market Lookup Service
+ *
+ * Checks every trade of a plan against its market before anything executes,
+ * so orders and positions (keyed by marketTokenId:outcome) stay consistent:
+ * - Market slugs are resolved to the CLOB token ID of their outcome (Gamma)
+ * - The token's outcome must match the trade's outcome (CLOB market metadata);
+ *   an omitted outcome is inferred from the token
+ * - Inactive and closed markets are rejected
+ */
+export class MarketLookupService {
+  private gamma = getGammaAdapter();
+  private adapter = getPolymarketAdapter();
+  private marketsByToken = new Map<string, { market: Market; fetchedAt: number }>();
+
+  /**
+   * Resolve and check every trade of a plan
+   *
+   * @param plan - Validated trade plan (marketTokenId may be a slug, outcome may be omitted)
+   * @returns Copy of the plan with token IDs and outcomes on every trade
+   * @throws ValidationError listing every trade that failed a check
+   */
+  async resolvePlan(plan: SubmittedTradePlan): Promise<TradePlan> {
+    const results = await Promise.all(
+      plan.trades.map((trade, index) => this.resolveTrade(plan.planId, trade, index))
+    );
+
+    const issues = results.filter((result): result is ValidationIssue => 'code' in result);
+    if (issues.length > 0) {
+      lookupLogger.warn({ planId: plan.planId, issues }, 'Market lookup failed');
+      throw new ValidationError('Market lookup failed', issues, {
+        details: { planId: plan.planId },
+      });
+    }
+
+    return { ...plan, trades: results as Trade[] };
+  }
+
+  /**
+   * Resolve a trade's slug and check its token against the market
+   *
+   * @returns Trade with token ID and outcome, or the issue that rejects it
+   */
+  private async resolveTrade(
+    planId: string,
+    trade: SubmittedTrade,
+    index: number
+  ): Promise<Trade | ValidationIssue> {
+    const field = (name: string) => `trades[${index}].${name}`;
+    const parsed = parseMarketId(trade.marketTokenId);
+    let tokenId = trade.marketTokenId;
+
+    if (parsed.type === 'slug') {
+      if (!trade.outcome) {
+        return {
+          field: field('outcome'),
+          message: 'Outcome is required when marketTokenId is a market slug',
+          code: 'missing_outcome',
+        };
+      }
+
+      try {
+        tokenId = await this.gamma.resolveTokenId(parsed.value, trade.outcome);
+        lookupLogger.info(
+          { planId, tradeIndex: index, slug: parsed.value, outcome: trade.outcome, tokenId },
+          'Market slug resolved to token ID'
+        );
+      } catch (error) {
+        return {
+          field: field('marketTokenId'),
+          message: error instanceof Error ? error.message : String(error),
+          code: error instanceof MarketNotFoundError ? 'market_not_found' : 'unresolved_market_slug',
+        };
+      }
+    }
+
+    let market: Market;
+    try {
+      market = await this.getMarketForToken(tokenId);
+    } catch (error) {
+      return {
+        field: field('marketTokenId'),
+        message: `Market metadata unavailable for token ${tokenId}: ${error instanceof Error ? error.message : String(error)}`,
+        code: 'market_not_found',
+      };
+    }
+
+    if (market.closed || !market.active) {
+      return {
+        field: field('marketTokenId'),
+        message: `Market '${market.question}' is ${market.closed ? 'closed' : 'not active'}`,
+        code: market.closed ? 'market_closed' : 'market_inactive',
+      };
+    }
+
+    const token = market.tokens.find((candidate) => candidate.token_id === tokenId);
+    const tokenOutcome = OutcomeSchema.safeParse(token?.outcome.toUpperCase());
+    if (!token || !tokenOutcome.success) {
+      return {
+        field: field('marketTokenId'),
+        message: token
+          ? `Token ${tokenId} trades outcome '${token.outcome}', not YES or NO`
+          : `Token ${tokenId} is not an outcome of market '${market.question}'`,
+        code: 'unsupported_outcome',
+      };
+    }
+
+    if (trade.outcome && trade.outcome !== tokenOutcome.data) {
+      return {
+        field: field('outcome'),
+        message: `Token ${tokenId} is the ${tokenOutcome.data} token of '${market.question}', not ${trade.outcome}`,
+        code: 'outcome_mismatch',
+      };
+    }
+
+    if (!trade.outcome) {
+      lookupLogger.info(
+        { planId, tradeIndex: index, tokenId, outcome: tokenOutcome.data },
+        'Outcome inferred from market metadata'
+      );
+    }
+
+    return { ...trade, marketTokenId: tokenId, outcome: tokenOutcome.data };
+  }
+
+  /**
+   * Market a token trades in, cached per token
+   */
+  private async getMarketForToken(tokenId: string): Promise<Market> {
+    const cached = this.marketsByToken.get(tokenId);
+    if (cached && Date.now() - cached.fetchedAt < MARKET_CACHE_TTL_MS) {
+      return cached.market;
+    }
+
+    const market = await this.adapter.getMarketForToken(tokenId);
+    this.marketsByToken.set(tokenId, { market, fetchedAt: Date.now() });
+    return market;
+  }
+}
+
+/**
+ * Singleton market lookup service instance
+ */
+let serviceInstance: MarketLookupService | null = null;
+
+export function getMarketLookupService(): MarketLookupService {
+  if (!serviceInstance) {
+    serviceInstance = new MarketLookupService();
+  }
+  return serviceInstance;
+}
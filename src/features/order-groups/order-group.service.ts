@@ -0,0 +1,169 @@
+import { getExecutorRepository } from '../executor/executor.repository.js';
+import { getPolymarketAdapter } from '../../integrations/polymarket/polymarket.adapter.js';
+import { logger } from '../../infrastructure/logging/logger.js';
+import type { Trade } from '../../domain/schemas/trade-plan.schema.js';
+import type { Order } from '../../infrastructure/database/schema.js';
+import type { OrderCancellation, OrderWithFills } from '../executor/executor.types.js';
+import type { BracketExitState } from './order-group.types.js';
+
+const groupLogger = logger.child({ module: 'order-group-service' });
+
+/**
+ * Order Group Service
+ *
+ * Enforces OCO / BRACKET groups declared in trade plans:
+ * - OCO: the first leg to fill cancels every other working or pending leg
+ * - BRACKET: exits (trigger orders) stay dormant until the entry fills;
+ *   the first exit to fill cancels the other exits
+ *
+ * Orders placed from a group leg (trigger children, amendments) inherit the
+ * group, so their fills resolve the group too. A leg's own lineage
+ * (parent_order_id) is never treated as a sibling.
+ */
+export class OrderGroupService {
+  private repository = getExecutorRepository();
+  private adapter = getPolymarketAdapter();
+
+  /**
+   * Check whether a grouped trade should still be placed
+   *
+   * @param planId - Plan the trade belongs to
+   * @param trade - Grouped trade about to be placed
+   * @param parentOrderId - Order the trade is placed from, if any
+   * @returns Cancellation to record instead of placing, or null to place
+   */
+  async getPlacementCancellation(
+    planId: string,
+    trade: Trade,
+    parentOrderId?: string
+  ): Promise<OrderCancellation | null> {
+    const group = trade.orderGroup;
+    if (!group || group.role === 'entry') {
+      return null;
+    }
+
+    const legs = await this.repository.getOrderGroup(planId, group.id);
+    const filled = legs.find(
+      (leg) =>
+        leg.filledQuantity > 0 &&
+        leg.order.id !== parentOrderId &&
+        (group.type === 'OCO' || leg.order.orderGroupRole === 'exit')
+    );
+
+    return filled ? groupCancellation(filled.order, 'already filled') : null;
+  }
+
+  /**
+   * Determine whether a BRACKET exit may fire
+   */
+  async getBracketExitState(order: Order): Promise<BracketExitState> {
+    const legs = await this.repository.getOrderGroup(order.planId, order.orderGroupId!);
+    const entries = legs.filter((leg) => leg.order.orderGroupRole === 'entry');
+
+    if (entries.some((leg) => leg.filledQuantity > 0)) {
+      return 'armed';
+    }
+
+    const working = entries.some((leg) =>
+      ['open', 'partially_filled', 'pending', 'triggered'].includes(leg.order.status)
+    );
+    return working ? 'waiting' : 'orphaned';
+  }
+
+  /**
+   * Cancel a BRACKET exit whose entry ended without filling
+   */
+  async cancelOrphanedExit(order: Order): Promise<Order | null> {
+    return await this.repository.cancelOrder(order.id, {
+      cancelledBy: 'system:bracket',
+      reason: `BRACKET: entry in group '${order.orderGroupId}' ended without filling`,
+    });
+  }
+
+  /**
+   * Cancel the siblings of a group leg that just filled
+   *
+   * Live siblings resting on the CLOB are cancelled there first; a sibling
+   * that cannot be cancelled is logged and skipped.
+   *
+   * @param order - Leg that filled (fully or partially)
+   * @returns IDs of the sibling orders cancelled
+   */
+  async cancelSiblings(order: Order): Promise<string[]> {
+    if (!order.orderGroupId || order.orderGroupRole === 'entry') {
+      return [];
+    }
+
+    const legs = await this.repository.getOrderGroup(order.planId, order.orderGroupId);
+    const lineage = new Set([order.id, order.parentOrderId]);
+    const siblings = legs.filter(
+      (leg) =>
+        !lineage.has(leg.order.id) &&
+        (order.orderGroupType === 'OCO' || leg.order.orderGroupRole === 'exit') &&
+        isCancellable(leg)
+    );
+
+    const cancellation = groupCancellation(order, 'filled');
+    const cancelledIds: string[] = [];
+
+    for (const { order: sibling } of siblings) {
+      try {
+        if (sibling.mode === 'live' && sibling.status !== 'pending' && sibling.externalOrderId) {
+          await this.adapter.cancelOrder(sibling.externalOrderId);
+        }
+
+        const cancelled = await this.repository.cancelOrder(sibling.id, cancellation);
+        if (cancelled) {
+          cancelledIds.push(sibling.id);
+        }
+      } catch (error) {
+        groupLogger.error(
+          {
+            orderId: sibling.id,
+            orderGroupId: order.orderGroupId,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          'Failed to cancel order group sibling'
+        );
+      }
+    }
+
+    groupLogger.info(
+      { orderId: order.id, orderGroupId: order.orderGroupId, cancelledIds },
+      'Order group siblings cancelled'
+    );
+
+    return cancelledIds;
+  }
+}
+
+/**
+ * Whether a group leg can still be cancelled
+ */
+function isCancellable(leg: OrderWithFills): boolean {
+  return ['open', 'partially_filled', 'pending'].includes(leg.order.status);
+}
+
+/**
+ * Cancellation recorded on group siblings when a leg fills
+ */
+function groupCancellation(filledOrder: Order, event: string): OrderCancellation {
+  const type = filledOrder.orderGroupType ?? 'OCO';
+
+  return {
+    cancelledBy: `system:${type.toLowerCase()}`,
+    reason: `${type}: sibling order ${filledOrder.id} ${event} in group '${filledOrder.orderGroupId}'`,
+  };
+}
+
+/**
+ * Singleton order group service instance
+ */
+let serviceInstance: OrderGroupService | null = null;
+
+export function getOrderGroupService(): OrderGroupService {
+  if (!serviceInstance) {
+    serviceInstance = new OrderGroupService();
+  }
+  return serviceInstance;
+}
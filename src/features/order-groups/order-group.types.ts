@@ -0,0 +1,14 @@
+/**
+ * Order Group Types
+ *
+ * OCO and BRACKET groups linking orders within a plan
+ */
+
+/**
+ * Whether a BRACKET exit may fire
+ *
+ * - armed: the entry has filled (fully or partially)
+ * - waiting: the entry is still working or pending
+ * - orphaned: the entry ended (cancelled, expired, failed) without any fill
+ */
+export type BracketExitState = 'armed' | 'waiting' | 'orphaned';
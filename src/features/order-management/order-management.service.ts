@@ -0,0 +1,386 @@
+import { getExecutorRepository } from '../executor/executor.repository.js';
+import { getExecutorService } from '../executor/executor.service.js';
+import { orderToTrade } from '../executor/order.mapper.js';
+import { getPolymarketAdapter } from '../../integrations/polymarket/polymarket.adapter.js';
+import { logger } from '../../infrastructure/logging/logger.js';
+import { withTransaction } from '../../infrastructure/database/client.js';
+import { TradeSchema, type Trade } from '../../domain/schemas/trade-plan.schema.js';
+import { ValidationError } from '../../domain/errors/validation.error.js';
+import {
+  ExecutionError,
+  OrderNotFoundError,
+  OrderNotCancellableError,
+} from '../../domain/errors/execution.error.js';
+import type { Order } from '../../infrastructure/database/schema.js';
+import type { ExecutionResult, OrderCancellation } from '../executor/executor.types.js';
+import type {
+  PlanCancellationSummary,
+  OrderAmendment,
+  OrderAmendmentResult,
+} from './order-management.types.js';
+
+const managementLogger = logger.child({ module: 'order-management-service' });
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Order Management Service
+ *
+ * Operator actions on existing orders.
+ * - Cancel a single order or every working order in a plan
+ * - Amend (cancel/replace) a resting LIMIT order, linking the replacement
+ *   to the original through parent_order_id and replaced_by_order_id
+ * - Live orders are cancelled on the CLOB before the local record is updated
+ * - Pending trigger orders (STOP / TAKE_PROFIT / TRAILING_STOP) have not been posted anywhere yet and
+ *   are cancelled locally in both modes
+ * - Cancelling a working sliced (TWAP) parent first cancels its resting
+ *   child orders; the parent itself only exists locally
+ */
+export class OrderManagementService {
+  private executorRepository = getExecutorRepository();
+  private executorService = getExecutorService();
+  private adapter = getPolymarketAdapter();
+
+  /**
+   * Cancel a single working, pending trigger or sliced parent order
+   *
+   * @param orderId - Order to cancel
+   * @param cancellation - Who cancelled the order and why
+   * @returns Cancelled order
+   * @throws OrderNotFoundError if the order does not exist
+   * @throws OrderNotCancellableError if the order is filled, cancelled, triggered or failed
+   */
+  async cancelOrder(
+    orderId: string,
+    cancellation: OrderCancellation
+  ): Promise<Order> {
+    managementLogger.info({ orderId, cancellation }, 'Cancelling order');
+
+    const order = await this.findOrder(orderId);
+
+    if (!isCancellable(order)) {
+      throw new OrderNotCancellableError(order.id, order.status);
+    }
+
+    if (order.status === 'working') {
+      await this.cancelSliceChildren(order, cancellation);
+    }
+
+    // Live orders resting on the book must be pulled from the CLOB first
+    if (
+      order.mode === 'live' &&
+      (order.status === 'open' || order.status === 'partially_filled')
+    ) {
+      if (!order.externalOrderId) {
+        throw new ExecutionError(
+          `Live order ${order.id} has no external order ID. Cannot cancel on CLOB.`,
+          { details: { orderId: order.id } }
+        );
+      }
+
+      await this.adapter.cancelOrder(order.externalOrderId);
+    }
+
+    const cancelled = await this.executorRepository.cancelOrder(
+      order.id,
+      cancellation
+    );
+
+    if (!cancelled) {
+      // Status changed between read and update (e.g. filled by a sweep)
+      const current = await this.executorRepository.getOrderById(order.id);
+      throw new OrderNotCancellableError(order.id, current?.status ?? 'unknown');
+    }
+
+    managementLogger.info(
+      { orderId: order.id, mode: order.mode, cancelledBy: cancellation.cancelledBy },
+      'Order cancelled'
+    );
+
+    return cancelled;
+  }
+
+  /**
+   * Amend a resting LIMIT order (cancel/replace)
+   *
+   * The original order is cancelled and a replacement with the new price
+   * and/or size is placed in the same plan, linked through parent_order_id
+   * and replaced_by_order_id.
+   * Paper replacements go through the normal LIMIT crossing check, so an
+   * amendment that now crosses the spread fills immediately.
+   *
+   * Slices of a sliced (TWAP) order cannot be amended.
+   *
+   * Paper cancel and replace commit together: if the replacement fails the
+   * original keeps resting. A live original is already pulled from the CLOB
+   * when the replacement is posted, so a failed replacement is reported as
+   * such (the original stays cancelled).
+   *
+   * @param orderId - Open LIMIT order to amend
+   * @param amendment - New price and/or size
+   * @param cancellation - Who amended the order and why
+   * @returns Original order, replacement result and full replace chain
+   */
+  async amendOrder(
+    orderId: string,
+    amendment: OrderAmendment,
+    cancellation: OrderCancellation
+  ): Promise<OrderAmendmentResult> {
+    managementLogger.info({ orderId, amendment }, 'Amending order');
+
+    if (amendment.price === undefined && amendment.size === undefined) {
+      throw new ExecutionError('Amendment requires a new price and/or size', {
+        statusCode: 400,
+        details: { orderId },
+      });
+    }
+
+    const order = await this.findOrder(orderId);
+
+    if (order.orderType !== 'LIMIT') {
+      throw new ExecutionError(
+        `Only LIMIT orders can be amended (order ${order.id} is ${order.orderType})`,
+        { statusCode: 400, details: { orderId: order.id, orderType: order.orderType } }
+      );
+    }
+
+    if (order.status !== 'open') {
+      throw new OrderNotCancellableError(order.id, order.status);
+    }
+
+    // A replacement would be linked to the slice, not the sliced parent, so
+    // the parent would stop counting its size and fills
+    const parent = order.parentOrderId
+      ? await this.executorRepository.getOrderById(order.parentOrderId)
+      : null;
+    if (parent?.sliceCount) {
+      throw new ExecutionError(
+        `Order ${order.id} is a slice of sliced order ${parent.id} and cannot be amended: cancel the sliced order instead`,
+        { statusCode: 400, details: { orderId: order.id, slicedOrderId: parent.id } }
+      );
+    }
+
+    // Validate replacement parameters before touching the original order.
+    // A position-sized order is replaced with its resolved share size.
+    const original = orderToTrade(order);
+    const parsed = TradeSchema.safeParse({
+      ...original,
+      percentOfPosition: undefined,
+      price: amendment.price ?? original.price,
+      size: amendment.size ?? original.size,
+    });
+
+    if (!parsed.success) {
+      throw ValidationError.fromZodError(parsed.error, 'Invalid order amendment');
+    }
+
+    const replacementTrade = { ...parsed.data, outcome: original.outcome };
+    const amendCancellation = {
+      cancelledBy: cancellation.cancelledBy,
+      reason:
+        cancellation.reason ||
+        `Amended: price ${original.price} -> ${replacementTrade.price}, size ${original.size} -> ${replacementTrade.size}`,
+    };
+
+    const { cancelledOrder, replacement } =
+      order.mode === 'paper'
+        ? await withTransaction(() =>
+            this.cancelAndReplace(order, replacementTrade, amendCancellation)
+          )
+        : await this.cancelAndReplace(order, replacementTrade, amendCancellation);
+
+    const chain = await this.executorRepository.getOrderChain(
+      replacement.orderId
+    );
+
+    managementLogger.info(
+      {
+        originalOrderId: order.id,
+        replacementOrderId: replacement.orderId,
+        replacementStatus: replacement.status,
+        chainLength: chain.length,
+      },
+      'Order amended'
+    );
+
+    return { originalOrder: cancelledOrder, replacement, chain };
+  }
+
+  /**
+   * Cancel an order and place its replacement, linked through parent_order_id
+   * and replaced_by_order_id
+   *
+   * @throws ExecutionError naming the cancelled order if a live replacement fails
+   */
+  private async cancelAndReplace(
+    order: Order,
+    replacementTrade: Trade,
+    cancellation: OrderCancellation
+  ): Promise<{ cancelledOrder: Order; replacement: ExecutionResult }> {
+    const cancelledOrder = await this.cancelOrder(order.id, cancellation);
+
+    try {
+      const replacement = await this.executorService.executeTrade(
+        order.planId,
+        replacementTrade,
+        order.mode,
+        { parentOrderId: order.id }
+      );
+      await this.executorRepository.setReplacedBy(order.id, replacement.orderId);
+
+      return {
+        cancelledOrder: { ...cancelledOrder, replacedByOrderId: replacement.orderId },
+        replacement,
+      };
+    } catch (error) {
+      // Paper: the caller's transaction rolls the cancellation back
+      if (order.mode === 'paper') {
+        throw error;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      managementLogger.error(
+        { orderId: order.id, replacementTrade, error: errorMessage },
+        'Live order cancelled but replacement failed'
+      );
+
+      throw new ExecutionError(
+        `Order ${order.id} was cancelled on the CLOB but its replacement could not be placed: ${errorMessage}`,
+        {
+          details: { cancelledOrderId: order.id, planId: order.planId, replacementTrade },
+          cause: error instanceof Error ? error : undefined,
+        }
+      );
+    }
+  }
+
+  /**
+   * Cancel the resting child orders of a sliced parent
+   */
+  private async cancelSliceChildren(
+    parent: Order,
+    cancellation: OrderCancellation
+  ): Promise<void> {
+    const children = await this.executorRepository.getChildOrders(parent.id);
+
+    for (const { order: child } of children) {
+      if (isCancellable(child)) {
+        await this.cancelOrder(child.id, cancellation);
+      }
+    }
+  }
+
+  /**
+   * Look up an order by ID
+   *
+   * @throws OrderNotFoundError if the ID is malformed or does not exist
+   */
+  private async findOrder(orderId: string): Promise<Order> {
+    const order = UUID_PATTERN.test(orderId)
+      ? await this.executorRepository.getOrderById(orderId)
+      : null;
+
+    if (!order) {
+      throw new OrderNotFoundError(orderId);
+    }
+
+    return order;
+  }
+
+  /**
+   * Cancel every working order in a plan
+   *
+   * Filled, cancelled and failed orders are skipped. A failure on one order
+   * does not stop the remaining cancellations.
+   *
+   * @param planId - Plan whose orders should be cancelled
+   * @param cancellation - Who cancelled the orders and why
+   * @returns Summary of cancelled, skipped and failed orders
+   * @throws ExecutionError if the plan has no orders
+   */
+  async cancelPlan(
+    planId: string,
+    cancellation: OrderCancellation
+  ): Promise<PlanCancellationSummary> {
+    managementLogger.info({ planId, cancellation }, 'Cancelling plan orders');
+
+    const planOrders = await this.executorRepository.getOrdersByPlanId(planId);
+
+    if (planOrders.length === 0) {
+      throw new ExecutionError(`No orders found for plan '${planId}'`, {
+        statusCode: 404,
+        details: { planId },
+      });
+    }
+
+    const summary: PlanCancellationSummary = {
+      planId,
+      cancelledOrderIds: [],
+      skippedOrders: [],
+      errors: [],
+    };
+
+    // Newest first, so sliced child orders are cancelled before their parent
+    const newestFirst = [...planOrders].sort(
+      (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
+    );
+
+    for (const order of newestFirst) {
+      if (!isCancellable(order)) {
+        summary.skippedOrders.push({ orderId: order.id, status: order.status });
+        continue;
+      }
+
+      try {
+        await this.cancelOrder(order.id, cancellation);
+        summary.cancelledOrderIds.push(order.id);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        managementLogger.warn(
+          { planId, orderId: order.id, error: errorMessage },
+          'Failed to cancel plan order'
+        );
+        summary.errors.push(`Order ${order.id}: ${errorMessage}`);
+      }
+    }
+
+    managementLogger.info(
+      {
+        planId,
+        cancelled: summary.cancelledOrderIds.length,
+        skipped: summary.skippedOrders.length,
+        errorCount: summary.errors.length,
+      },
+      'Plan cancellation completed'
+    );
+
+    return summary;
+  }
+}
+
+/**
+ * Whether an order can still be cancelled: working orders, dormant
+ * trigger orders and sliced parents
+ */
+function isCancellable(order: Order): boolean {
+  return (
+    order.status === 'open' ||
+    order.status === 'partially_filled' ||
+    order.status === 'pending' ||
+    order.status === 'working'
+  );
+}
+
+/**
+ * Singleton order management service instance
+ */
+let serviceInstance: OrderManagementService | null = null;
+
+export function getOrderManagementService(): OrderManagementService {
+  if (!serviceInstance) {
+    serviceInstance = new OrderManagementService();
+  }
+  return serviceInstance;
+}
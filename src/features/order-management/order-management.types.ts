@@ -0,0 +1,36 @@
+/**
+ * Order Management Types
+ *
+ * Operator actions on existing orders (cancel, amend)
+ */
+
+import type { Order } from '../../infrastructure/database/schema.js';
+import type { ExecutionResult } from '../executor/executor.types.js';
+
+/**
+ * Result of cancelling every working order in a plan
+ */
+export interface PlanCancellationSummary {
+  planId: string;
+  cancelledOrderIds: string[];
+  skippedOrders: Array<{ orderId: string; status: string }>; // Already filled, cancelled or failed
+  errors: string[]; // Orders that could not be cancelled
+}
+
+/**
+ * New parameters for an amended (cancel/replace) order
+ * Omitted fields keep the original order's value
+ */
+export interface OrderAmendment {
+  price?: number;
+  size?: number; // In the order's size unit (USDC collateral or shares)
+}
+
+/**
+ * Result of amending an order
+ */
+export interface OrderAmendmentResult {
+  originalOrder: Order; // Now cancelled
+  replacement: ExecutionResult; // Replacement order ('open' or 'filled')
+  chain: Order[]; // Full cancel/replace chain, original first
+}
@@ -0,0 +1,228 @@
+import { getExecutorRepository } from '../executor/executor.repository.js';
+import { getPaperExecutor } from '../executor/paper-executor.js';
+import { getLiveExecutor } from '../executor/live-executor.js';
+import { getTriggerService } from '../triggers/trigger.service.js';
+import { getOrderGroupService } from '../order-groups/order-group.service.js';
+import { getSliceService } from '../slicing/slice.service.js';
+import { getSettlementService } from '../settlement/settlement.service.js';
+import { logger } from '../../infrastructure/logging/logger.js';
+import type { Order } from '../../infrastructure/database/schema.js';
+import type { SweepSummary, SweptOrder } from './order-sweep.types.js';
+
+const sweepLogger = logger.child({ module: 'order-sweep-service' });
+
+/**
+ * Order Sweep Service
+ *
+ * Re-checks resting paper LIMIT orders (open or partially filled) against
+ * fresh order books so that orders which did not cross when placed can fill
+ * on later runs, walking visible depth within their limit; a partial fill
+ * leaves the remainder working. Positions and orders in resolved markets are settled first.
+ * Orders whose good-til-date has passed are then expired and never re-checked.
+ * Pending trigger orders (STOP / TAKE_PROFIT / TRAILING_STOP) are then evaluated, so orders they place
+ * are included in the same sweep. A fill on an OCO / BRACKET leg cancels its
+ * siblings, which are then skipped for the rest of the sweep. Sliced (TWAP)
+ * parents are worked last, so they see this sweep's child fills before the
+ * next slice is sized.
+ *
+ * Live sweeps reconcile working live orders with the CLOB instead, before
+ * anything else: fills it matched since the last sweep are recorded
+ * (resolving OCO / BRACKET groups and TWAP slices the same way), orders it
+ * cancelled are cancelled here and good-til-date orders it expired are
+ * expired here. Settlement then sees every fill, and live orders are never
+ * expired locally while the CLOB may still match them.
+ *
+ * A failure on one order (e.g. missing book, insufficient position for a
+ * SELL) is recorded in the summary and the order is left open; the sweep
+ * continues with the remaining orders.
+ */
+export class OrderSweepService {
+  private executorRepository = getExecutorRepository();
+  private paperExecutor = getPaperExecutor();
+  private liveExecutor = getLiveExecutor();
+  private triggerService = getTriggerService();
+  private orderGroupService = getOrderGroupService();
+  private sliceService = getSliceService();
+  private settlementService = getSettlementService();
+
+  /**
+   * Sweep all open orders for a mode
+   *
+   * @param mode - Execution mode to sweep (defaults to paper)
+   * @returns Sweep summary with per-order results
+   */
+  async sweepOpenOrders(mode: 'paper' | 'live' = 'paper'): Promise<SweepSummary> {
+    const startedAt = new Date();
+    const errors: string[] = [];
+    const groupCancelledIds = new Set<string>();
+
+    // Live orders are reconciled before settlement and expiry so that neither
+    // closes an order whose CLOB fills have not been recorded yet
+    const reconciledOrders =
+      mode === 'live'
+        ? await this.checkOpenOrders(
+            mode,
+            await this.executorRepository.getOpenOrders(mode),
+            groupCancelledIds,
+            errors
+          )
+        : [];
+
+    const settlement = await this.settlementService.settleResolvedMarkets(mode);
+    // Live orders expire when the CLOB kills them (see reconciliation above)
+    const expiredOrders =
+      mode === 'paper' ? await this.executorRepository.expireOrders(mode, startedAt) : [];
+    const triggers = await this.triggerService.evaluatePendingOrders(mode);
+    const openOrders =
+      mode === 'paper' ? await this.executorRepository.getOpenOrders(mode) : [];
+
+    sweepLogger.info(
+      {
+        mode,
+        orderCount: reconciledOrders.length + openOrders.length,
+        expiredCount: expiredOrders.length,
+        triggeredCount: triggers.ordersTriggered,
+      },
+      'Starting open order sweep'
+    );
+
+    const sweptOrders: SweptOrder[] = [
+      ...expiredOrders.map((order) => ({
+        orderId: order.id,
+        planId: order.planId,
+        marketTokenId: order.marketTokenId,
+        side: order.side,
+        limitPrice: order.price ? parseFloat(order.price) : undefined,
+        status: 'expired' as const,
+      })),
+      ...reconciledOrders,
+      ...(await this.checkOpenOrders(mode, openOrders, groupCancelledIds, errors)),
+    ];
+
+    const slicing = await this.sliceService.workSlicedOrders(mode);
+
+    const completedAt = new Date();
+    const summary: SweepSummary = {
+      mode,
+      ordersChecked: sweptOrders.length,
+      ordersFilled: sweptOrders.filter((o) => o.status === 'filled').length,
+      ordersPartiallyFilled: sweptOrders.filter(
+        (o) => o.status === 'partially_filled'
+      ).length,
+      ordersExpired: sweptOrders.filter((o) => o.status === 'expired').length,
+      ordersStillOpen: sweptOrders.filter(
+        (o) =>
+          o.status === 'open' ||
+          o.status === 'partially_filled' ||
+          o.status === 'failed'
+      ).length,
+      orders: sweptOrders,
+      settlement,
+      triggers,
+      slicing,
+      errors: [...settlement.errors, ...triggers.errors, ...errors, ...slicing.errors],
+      startedAt,
+      completedAt,
+      durationMs: completedAt.getTime() - startedAt.getTime(),
+    };
+
+    sweepLogger.info(
+      {
+        ordersChecked: summary.ordersChecked,
+        ordersFilled: summary.ordersFilled,
+        ordersPartiallyFilled: summary.ordersPartiallyFilled,
+        ordersExpired: summary.ordersExpired,
+        ordersStillOpen: summary.ordersStillOpen,
+        ordersTriggered: triggers.ordersTriggered,
+        slicesPlaced: slicing.slicesPlaced,
+        positionsSettled: settlement.positions.length,
+        errorCount: summary.errors.length,
+        durationMs: summary.durationMs,
+      },
+      'Open order sweep completed'
+    );
+
+    return summary;
+  }
+
+  /**
+   * Re-check open orders: fill paper orders against fresh books, reconcile
+   * live orders with the CLOB
+   *
+   * A fill on an order group leg cancels its siblings, which are skipped
+   * here and in later passes of the same sweep.
+   *
+   * @param groupCancelledIds - Siblings cancelled so far this sweep (updated)
+   * @param errors - Per-order failures (appended to)
+   */
+  private async checkOpenOrders(
+    mode: 'paper' | 'live',
+    openOrders: Order[],
+    groupCancelledIds: Set<string>,
+    errors: string[]
+  ): Promise<SweptOrder[]> {
+    const sweptOrders: SweptOrder[] = [];
+
+    for (const order of openOrders) {
+      const swept: SweptOrder = {
+        orderId: order.id,
+        planId: order.planId,
+        marketTokenId: order.marketTokenId,
+        side: order.side,
+        limitPrice: order.price ? parseFloat(order.price) : undefined,
+        status: 'open',
+      };
+
+      if (groupCancelledIds.has(order.id)) {
+        // Cancelled earlier in this sweep by a filled group sibling
+        swept.status = 'cancelled';
+        sweptOrders.push(swept);
+        continue;
+      }
+
+      try {
+        const result =
+          mode === 'paper'
+            ? await this.paperExecutor.fillOpenOrder(order)
+            : await this.liveExecutor.syncOpenOrder(order);
+
+        swept.status = result.status;
+        swept.fillPrice = result.fillPrice;
+        swept.quantity = result.quantity;
+
+        if (result.quantity && order.orderGroupId) {
+          swept.cancelledSiblingIds = await this.orderGroupService.cancelSiblings(order);
+          swept.cancelledSiblingIds.forEach((id) => groupCancelledIds.add(id));
+        }
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+
+        sweepLogger.warn(
+          { orderId: order.id, error: errorMessage },
+          'Failed to re-check open order - leaving open'
+        );
+
+        swept.status = 'failed';
+        swept.errorMessage = errorMessage;
+        errors.push(`Order ${order.id}: ${errorMessage}`);
+      }
+
+      sweptOrders.push(swept);
+    }
+
+    return sweptOrders;
+  }
+}
+
+/**
+ * Singleton order sweep service instance
+ */
+let serviceInstance: OrderSweepService | null = null;
+
+export function getOrderSweepService(): OrderSweepService {
+  if (!serviceInstance) {
+    serviceInstance = new OrderSweepService();
+  }
+  return serviceInstance;
+}
@@ -0,0 +1,46 @@
+import type { ExecutionResult } from '../executor/executor.types.js';
+import type { TriggerEvaluationSummary } from '../triggers/trigger.types.js';
+import type { SliceWorkSummary } from '../slicing/slice.types.js';
+import type { SettlementSummary } from '../settlement/settlement.types.js';
+
+/**
+ * Order Sweep Types
+ *
+ * Maintenance pass over resting orders between trade plan runs
+ */
+
+/**
+ * Outcome of re-checking a single open order
+ */
+export interface SweptOrder {
+  orderId: string;
+  planId: string;
+  marketTokenId: string;
+  side: 'BUY' | 'SELL';
+  limitPrice?: number;
+  status: ExecutionResult['status'];
+  fillPrice?: number;
+  quantity?: number;
+  cancelledSiblingIds?: string[]; // OCO / BRACKET siblings cancelled by this fill
+  errorMessage?: string;
+}
+
+/**
+ * Summary generated after sweeping open orders
+ */
+export interface SweepSummary {
+  mode: 'paper' | 'live';
+  ordersChecked: number;
+  ordersFilled: number;
+  ordersPartiallyFilled: number; // Filled further but size remains working
+  ordersExpired: number; // Good-til-date orders past expires_at
+  ordersStillOpen: number;
+  orders: SweptOrder[];
+  settlement: SettlementSummary; // Positions and orders in resolved markets, settled before the sweep
+  triggers: TriggerEvaluationSummary; // Pending trigger orders evaluated this sweep
+  slicing: SliceWorkSummary; // Sliced (TWAP) parent orders worked this sweep
+  errors: string[]; // Markets that could not be settled, orders that could not be re-checked (left open), triggers left pending or slices left due
+  startedAt: Date;
+  completedAt: Date;
+  durationMs: number;
+}
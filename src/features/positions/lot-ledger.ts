@@ -0,0 +1,234 @@
+/**
+ * Lot Ledger
+ *
+ * Cost basis accounting for positions. Every BUY execution opens a lot;
+ * every SELL execution closes open lots and books realized P&L against the
+ * cost basis it releases:
+ * - fifo: oldest lot first
+ * - average: every open lot pro rata, so each token closed carries the
+ *   weighted average cost of the open position
+ *
+ * Amounts are fixed-point integers (bigint) at the scale of their database
+ * columns, so a ledger replayed from executions (rebuild:positions) matches
+ * the one built fill by fill exactly.
+ */
+
+export type AccountingMethod = 'fifo' | 'average';
+
+/**
+ * Decimal places of token quantities and prices (executions columns)
+ */
+export const QUANTITY_SCALE = 6;
+
+/**
+ * Decimal places of cost, proceeds and fee amounts (lot ledger columns)
+ */
+export const AMOUNT_SCALE = 12;
+
+/**
+ * Still-open part of a lot (decimal strings, as stored)
+ */
+export interface OpenLot {
+  id: string;
+  remainingQuantity: string;
+  remainingCost: string;
+  remainingFees: string;
+}
+
+/**
+ * Part of a lot closed by a SELL execution (decimal strings, as stored)
+ */
+export interface LotAllocation {
+  lotId: string;
+  quantity: string; // Tokens closed
+  cost: string; // Cost basis released (notional), excluding fees
+  buyFees: string; // Buy fees released with it
+  proceeds: string; // Sale notional for the closed quantity
+  sellFees: string; // Share of the sale's fee
+}
+
+/**
+ * Result of closing lots for one SELL execution
+ */
+export interface SellAllocation {
+  allocations: LotAllocation[];
+  lots: OpenLot[]; // Lots after the sale, same order (closed lots have zero remaining)
+  unmatchedQuantity: string; // Sold beyond the open lots (not realized)
+}
+
+/**
+ * Open a lot for a BUY execution
+ *
+ * @returns Lot cost basis: notional (quantity * price) and fee
+ */
+export function openLot(execution: { quantity: string; price: string; fee: string }): {
+  quantity: string;
+  cost: string;
+  fees: string;
+} {
+  const quantity = parseUnits(execution.quantity, QUANTITY_SCALE);
+  const price = parseUnits(execution.price, QUANTITY_SCALE);
+
+  return {
+    quantity: formatUnits(quantity, QUANTITY_SCALE),
+    cost: formatUnits(quantity * price, AMOUNT_SCALE),
+    fees: formatUnits(parseUnits(execution.fee, AMOUNT_SCALE), AMOUNT_SCALE),
+  };
+}
+
+/**
+ * Close open lots for a SELL execution
+ *
+ * @param lots - Position's lots in opening order (closed lots are skipped)
+ * @param sell - SELL execution quantity, price and fee
+ * @param method - Which lots the sale closes
+ * @returns Closed parts of each lot, the updated lots and any quantity sold
+ *   beyond the open lots
+ */
+export function allocateSell(
+  lots: OpenLot[],
+  sell: { quantity: string; price: string; fee: string },
+  method: AccountingMethod
+): SellAllocation {
+  const sellQuantity = parseUnits(sell.quantity, QUANTITY_SCALE);
+  const price = parseUnits(sell.price, QUANTITY_SCALE);
+  const fee = parseUnits(sell.fee, AMOUNT_SCALE);
+
+  const remaining = lots.map((lot) => parseUnits(lot.remainingQuantity, QUANTITY_SCALE));
+  const openQuantity = remaining.reduce((total, quantity) => total + quantity, 0n);
+  const matched = sellQuantity < openQuantity ? sellQuantity : openQuantity;
+  const taken = method === 'fifo'
+    ? takeOldestFirst(remaining, matched)
+    : takeProRata(remaining, matched, openQuantity);
+
+  // The matched part of the fee is split by quantity; the last lot closed takes
+  // the rounding remainder so a fully matched sale books its whole fee
+  const lastTaken = taken.reduce((last, take, index) => (take > 0n ? index : last), -1);
+  let feeLeft = sellQuantity > 0n ? (fee * matched) / sellQuantity : 0n;
+
+  const allocations: LotAllocation[] = [];
+  const updated = lots.map((lot, index) => {
+    const take = taken[index];
+    if (take === 0n) {
+      return lot;
+    }
+
+    const lotRemaining = remaining[index];
+    const lotCost = parseUnits(lot.remainingCost, AMOUNT_SCALE);
+    const lotFees = parseUnits(lot.remainingFees, AMOUNT_SCALE);
+
+    // Closing the whole remainder releases all of it (no rounding dust left behind)
+    const cost = take === lotRemaining ? lotCost : (lotCost * take) / lotRemaining;
+    const buyFees = take === lotRemaining ? lotFees : (lotFees * take) / lotRemaining;
+    const sellFees = index === lastTaken ? feeLeft : (fee * take) / sellQuantity;
+    feeLeft -= sellFees;
+
+    allocations.push({
+      lotId: lot.id,
+      quantity: formatUnits(take, QUANTITY_SCALE),
+      cost: formatUnits(cost, AMOUNT_SCALE),
+      buyFees: formatUnits(buyFees, AMOUNT_SCALE),
+      proceeds: formatUnits(take * price, AMOUNT_SCALE),
+      sellFees: formatUnits(sellFees, AMOUNT_SCALE),
+    });
+
+    return {
+      id: lot.id,
+      remainingQuantity: formatUnits(lotRemaining - take, QUANTITY_SCALE),
+      remainingCost: formatUnits(lotCost - cost, AMOUNT_SCALE),
+      remainingFees: formatUnits(lotFees - buyFees, AMOUNT_SCALE),
+    };
+  });
+
+  return {
+    allocations,
+    lots: updated,
+    unmatchedQuantity: formatUnits(sellQuantity - matched, QUANTITY_SCALE),
+  };
+}
+
+/**
+ * FIFO: fill `quantity` from the oldest lots first
+ */
+function takeOldestFirst(remaining: bigint[], quantity: bigint): bigint[] {
+  let left = quantity;
+  return remaining.map((lotRemaining) => {
+    const take = lotRemaining < left ? lotRemaining : left;
+    left -= take;
+    return take;
+  });
+}
+
+/**
+ * Average cost: take the same fraction of every open lot
+ *
+ * Rounding leftovers (whole micro-tokens) go to the oldest lots with room.
+ */
+function takeProRata(remaining: bigint[], quantity: bigint, openQuantity: bigint): bigint[] {
+  if (openQuantity === 0n) {
+    return remaining.map(() => 0n);
+  }
+
+  const taken = remaining.map((lotRemaining) => (lotRemaining * quantity) / openQuantity);
+  let left = quantity - taken.reduce((total, take) => total + take, 0n);
+
+  for (let index = 0; index < taken.length && left > 0n; index++) {
+    const room = remaining[index] - taken[index];
+    const extra = room < left ? room : left;
+    taken[index] += extra;
+    left -= extra;
+  }
+
+  return taken;
+}
+
+/**
+ * Parse a decimal string into fixed-point units at `scale` (extra digits are truncated)
+ */
+export function parseUnits(value: string, scale: number): bigint {
+  const negative = value.startsWith('-');
+  const [whole, fraction = ''] = (negative ? value.slice(1) : value).split('.');
+  const units = BigInt(whole || '0') * 10n ** BigInt(scale) +
+    BigInt(fraction.slice(0, scale).padEnd(scale, '0') || '0');
+  return negative ? -units : units;
+}
+
+/**
+ * Format fixed-point units at `scale` as a decimal string
+ */
+export function formatUnits(units: bigint, scale: number): string {
+  const negative = units < 0n;
+  const digits = (negative ? -units : units).toString().padStart(scale + 1, '0');
+  const formatted = `${digits.slice(0, -scale)}.${digits.slice(-scale)}`;
+  return negative ? `-${formatted}` : formatted;
+}
+
+/**
+ * Sum decimal strings exactly
+ */
+export function sumUnits(values: string[], scale: number): string {
+  return formatUnits(
+    values.reduce((total, value) => total + parseUnits(value, scale), 0n),
+    scale
+  );
+}
+
+/**
+ * Totals of a set of lot closures (decimal strings at AMOUNT_SCALE)
+ */
+export function summarizeAllocations(allocations: LotAllocation[]): {
+  cost: string; // Cost basis released
+  buyFees: string; // Buy fees released
+  grossPnL: string; // Proceeds - cost
+  fees: string; // Buy fees released + sell fees
+} {
+  const total = (field: keyof Omit<LotAllocation, 'lotId' | 'quantity'>) =>
+    allocations.reduce((sum, allocation) => sum + parseUnits(allocation[field], AMOUNT_SCALE), 0n);
+
+  return {
+    cost: formatUnits(total('cost'), AMOUNT_SCALE),
+    buyFees: formatUnits(total('buyFees'), AMOUNT_SCALE),
+    grossPnL: formatUnits(total('proceeds') - total('cost'), AMOUNT_SCALE),
+    fees: formatUnits(total('buyFees') + total('sellFees'), AMOUNT_SCALE),
+  };
+}
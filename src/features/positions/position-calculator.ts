@@ -4,11 +4,17 @@ import { logger } from '../../infrastructure/logging/logger.js';
 
 const positionLogger = logger.child({ module: 'position-calculator' });
 
+/**
+ * Token quantities are stored with 6 decimals; a SELL of the full position
+ * may exceed it by floating-point dust
+ */
+export const QUANTITY_TOLERANCE = 1e-6;
+
 /**
  * Calculate position for a market token
  *
- * Phase 1: Calculates on-the-fly from executions table
- * Phase 2+: Will use dedicated positions table for performance
+ * Reads the token's running totals from the positions table (kept in step
+ * with executions; see rebuild:positions)
  *
  * @param marketTokenId - Market token identifier
  * @param outcome - YES or NO
@@ -113,7 +119,7 @@ export async function validateSellPosition(
     };
   }
 
-  if (position.netQuantity < requiredQuantity) {
+  if (position.netQuantity < requiredQuantity - QUANTITY_TOLERANCE) {
     const message = `Insufficient position for market token ${marketTokenId} outcome ${outcome}. Required: ${requiredQuantity}, Available: ${position.netQuantity}`;
     positionLogger.warn(
       { marketTokenId, outcome, required: requiredQuantity, available: position.netQuantity },
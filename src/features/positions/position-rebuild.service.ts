@@ -0,0 +1,287 @@
+import { randomUUID } from 'crypto';
+import { getExecutorRepository } from '../executor/executor.repository.js';
+import { withTransaction } from '../../infrastructure/database/client.js';
+import { env } from '../../config/env.js';
+import { logger } from '../../infrastructure/logging/logger.js';
+import {
+  allocateSell,
+  openLot,
+  parseUnits,
+  formatUnits,
+  summarizeAllocations,
+  AMOUNT_SCALE,
+  QUANTITY_SCALE,
+  type AccountingMethod,
+  type OpenLot,
+} from './lot-ledger.js';
+import type {
+  NewLotClosure,
+  NewPositionLot,
+  NewPositionRecord,
+  PositionRecord,
+} from '../../infrastructure/database/schema.js';
+import type {
+  PositionDrift,
+  PositionRebuildSummary,
+  PositionTotalField,
+} from './position-rebuild.types.js';
+
+const rebuildLogger = logger.child({ module: 'position-rebuild-service' });
+
+/**
+ * Stored totals compared against the replay, with their column scale
+ */
+const TOTAL_FIELDS: Array<[PositionTotalField, number]> = [
+  ['buyQuantity', QUANTITY_SCALE],
+  ['buyTotal', AMOUNT_SCALE],
+  ['buyFees', QUANTITY_SCALE],
+  ['sellQuantity', QUANTITY_SCALE],
+  ['sellTotal', AMOUNT_SCALE],
+  ['sellFees', QUANTITY_SCALE],
+  ['openCost', AMOUNT_SCALE],
+  ['openFees', AMOUNT_SCALE],
+  ['realizedGrossPnl', AMOUNT_SCALE],
+  ['realizedFees', AMOUNT_SCALE],
+];
+
+/**
+ * Position being replayed: running totals (fixed-point units) and lots
+ */
+interface ReplayedPosition {
+  record: Pick<NewPositionRecord, 'marketTokenId' | 'outcome' | 'mode' | 'updatedAt'>;
+  totals: Record<PositionTotalField, bigint>;
+  lots: OpenLot[];
+}
+
+/**
+ * Position Rebuild Service
+ *
+ * The positions table and lot ledger are derived data: every execution
+ * write updates them in the same transaction. This service replays every
+ * execution in recorded order with the configured accounting method,
+ * reports positions that drifted from the replay (wrong totals, missing or
+ * extra rows) and rewrites the positions, lots and lot closures.
+ *
+ * The positions table is locked against execution writes while it is
+ * compared and rewritten, so fills that land during a rebuild are not lost.
+ */
+export class PositionRebuildService {
+  private executorRepository = getExecutorRepository();
+
+  /**
+   * Replay positions and lots from executions
+   *
+   * @param options.checkOnly - Report drift without rewriting anything
+   * @returns Drift found and whether the tables were rewritten
+   */
+  async rebuildPositions(options?: { checkOnly?: boolean }): Promise<PositionRebuildSummary> {
+    const startTime = Date.now();
+    const checkOnly = options?.checkOnly ?? false;
+    const method = env.POSITION_ACCOUNTING_METHOD;
+
+    rebuildLogger.info({ checkOnly, method }, 'Rebuilding positions from executions');
+
+    const summary = await withTransaction(async () => {
+      await this.executorRepository.lockPositions();
+
+      const stored = await this.executorRepository.getPositionRecords();
+      const replay = await this.replay(method);
+      const drift = findDrift(stored, replay.records);
+
+      if (!checkOnly) {
+        await this.executorRepository.replacePositions(
+          replay.records,
+          replay.lots,
+          replay.closures
+        );
+      }
+
+      return {
+        method,
+        positionsStored: stored.length,
+        positionsRecomputed: replay.records.length,
+        lotsRecomputed: replay.lots.length,
+        closuresRecomputed: replay.closures.length,
+        drift,
+        rebuilt: !checkOnly,
+      };
+    });
+
+    if (summary.drift.length > 0) {
+      rebuildLogger.warn({ drift: summary.drift }, 'Positions table drifted from executions');
+    }
+    rebuildLogger.info(
+      {
+        method,
+        positionsStored: summary.positionsStored,
+        positionsRecomputed: summary.positionsRecomputed,
+        driftCount: summary.drift.length,
+        rebuilt: summary.rebuilt,
+      },
+      'Position rebuild completed'
+    );
+
+    return { ...summary, durationMs: Date.now() - startTime };
+  }
+
+  /**
+   * Replay every execution into positions rows, lots and lot closures
+   */
+  private async replay(method: AccountingMethod): Promise<{
+    records: NewPositionRecord[];
+    lots: NewPositionLot[];
+    closures: NewLotClosure[];
+  }> {
+    const executions = await this.executorRepository.getLedgerExecutions();
+    const replayed = new Map<string, ReplayedPosition>();
+    const lots = new Map<string, NewPositionLot>();
+    const closures: NewLotClosure[] = [];
+
+    for (const execution of executions) {
+      const key = `${execution.marketTokenId}:${execution.outcome}:${execution.mode}`;
+      let position = replayed.get(key);
+      if (!position) {
+        position = {
+          record: {
+            marketTokenId: execution.marketTokenId,
+            outcome: execution.outcome,
+            mode: execution.mode,
+          },
+          totals: Object.fromEntries(
+            TOTAL_FIELDS.map(([field]) => [field, 0n])
+          ) as Record<PositionTotalField, bigint>,
+          lots: [],
+        };
+        replayed.set(key, position);
+      }
+
+      const { totals } = position;
+      const quantity = parseUnits(execution.quantity, QUANTITY_SCALE);
+      const notional = quantity * parseUnits(execution.price, QUANTITY_SCALE);
+      const fee = parseUnits(execution.fee, QUANTITY_SCALE);
+      position.record.updatedAt = execution.executedAt;
+
+      if (execution.side === 'BUY') {
+        totals.buyQuantity += quantity;
+        totals.buyTotal += notional;
+        totals.buyFees += fee;
+
+        const lot = { id: randomUUID(), ...openLot(execution) };
+        totals.openCost += parseUnits(lot.cost, AMOUNT_SCALE);
+        totals.openFees += parseUnits(lot.fees, AMOUNT_SCALE);
+        position.lots.push({
+          id: lot.id,
+          remainingQuantity: lot.quantity,
+          remainingCost: lot.cost,
+          remainingFees: lot.fees,
+        });
+        lots.set(lot.id, {
+          ...lot,
+          marketTokenId: execution.marketTokenId,
+          outcome: execution.outcome,
+          mode: execution.mode,
+          executionId: execution.id,
+          remainingQuantity: lot.quantity,
+          remainingCost: lot.cost,
+          remainingFees: lot.fees,
+        });
+        continue;
+      }
+
+      totals.sellQuantity += quantity;
+      totals.sellTotal += notional;
+      totals.sellFees += fee;
+
+      const sale = allocateSell(position.lots, execution, method);
+      const realized = summarizeAllocations(sale.allocations);
+      totals.openCost -= parseUnits(realized.cost, AMOUNT_SCALE);
+      totals.openFees -= parseUnits(realized.buyFees, AMOUNT_SCALE);
+      totals.realizedGrossPnl += parseUnits(realized.grossPnL, AMOUNT_SCALE);
+      totals.realizedFees += parseUnits(realized.fees, AMOUNT_SCALE);
+
+      // Closed lots stay in the table (closures reference them) but leave the replay
+      for (const lot of sale.lots) {
+        Object.assign(lots.get(lot.id)!, {
+          remainingQuantity: lot.remainingQuantity,
+          remainingCost: lot.remainingCost,
+          remainingFees: lot.remainingFees,
+        });
+      }
+      position.lots = sale.lots.filter((lot) => parseUnits(lot.remainingQuantity, QUANTITY_SCALE) > 0n);
+      closures.push(
+        ...sale.allocations.map((allocation) => ({ ...allocation, executionId: execution.id, method }))
+      );
+    }
+
+    const records = Array.from(replayed.values()).map(({ record, totals }) => ({
+      ...record,
+      ...Object.fromEntries(
+        TOTAL_FIELDS.map(([field, scale]) => [field, formatUnits(totals[field], scale)])
+      ),
+    })) as NewPositionRecord[];
+
+    return { records, lots: Array.from(lots.values()), closures };
+  }
+}
+
+/**
+ * Compare stored positions rows with rows replayed from executions
+ */
+function findDrift(stored: PositionRecord[], recomputed: NewPositionRecord[]): PositionDrift[] {
+  const key = (row: NewPositionRecord) => `${row.marketTokenId}:${row.outcome}:${row.mode}`;
+  const storedByKey = new Map(stored.map((row) => [key(row), row]));
+  const drift: PositionDrift[] = [];
+
+  for (const expected of recomputed) {
+    const actual = storedByKey.get(key(expected));
+    storedByKey.delete(key(expected));
+
+    const fields = TOTAL_FIELDS.filter(
+      ([field, scale]) =>
+        !actual || parseUnits(actual[field], scale) !== parseUnits(expected[field] ?? '0', scale)
+    ).map(([field]) => ({
+      field,
+      stored: parseFloat(actual?.[field] ?? '0'),
+      expected: parseFloat(expected[field] ?? '0'),
+    }));
+
+    if (!actual || fields.length > 0) {
+      drift.push({
+        marketTokenId: expected.marketTokenId,
+        outcome: expected.outcome,
+        mode: expected.mode,
+        kind: actual ? 'mismatch' : 'missing',
+        fields,
+      });
+    }
+  }
+
+  // Rows left over have no executions behind them
+  for (const extra of storedByKey.values()) {
+    drift.push({
+      marketTokenId: extra.marketTokenId,
+      outcome: extra.outcome,
+      mode: extra.mode,
+      kind: 'extra',
+      fields: TOTAL_FIELDS.map(([field]) => ({
+        field,
+        stored: parseFloat(extra[field]),
+        expected: 0,
+      })).filter((entry) => entry.stored !== 0),
+    });
+  }
+
+  return drift;
+}
+
+/**
+ * Singleton position rebuild service instance
+ */
+let serviceInstance: PositionRebuildService | null = null;
+
+export function getPositionRebuildService(): PositionRebuildService {
+  if (!serviceInstance) {
+    serviceInstance = new PositionRebuildService();
+  }
+  return serviceInstance;
+}
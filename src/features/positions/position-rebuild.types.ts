@@ -0,0 +1,51 @@
+import type { AccountingMethod } from './lot-ledger.js';
+
+/**
+ * Position Rebuild Types
+ *
+ * Recomputing the positions table and lot ledger from the executions log
+ */
+
+/**
+ * Running totals stored per position (see the positions table)
+ */
+export type PositionTotalField =
+  | 'buyQuantity'
+  | 'buyTotal'
+  | 'buyFees'
+  | 'sellQuantity'
+  | 'sellTotal'
+  | 'sellFees'
+  | 'openCost'
+  | 'openFees'
+  | 'realizedGrossPnl'
+  | 'realizedFees';
+
+/**
+ * A positions row that disagreed with the executions log
+ */
+export interface PositionDrift {
+  marketTokenId: string;
+  outcome: 'YES' | 'NO';
+  mode: 'paper' | 'live';
+  kind: 'missing' | 'extra' | 'mismatch'; // 'missing': executions but no row, 'extra': row without executions
+  fields: Array<{
+    field: PositionTotalField;
+    stored: number; // 0 for missing rows
+    expected: number; // Replayed from executions (0 for extra rows)
+  }>;
+}
+
+/**
+ * Summary of one rebuild (or check) of the positions table
+ */
+export interface PositionRebuildSummary {
+  method: AccountingMethod; // Accounting method the lot ledger was replayed with
+  positionsStored: number; // Rows in the table before the rebuild
+  positionsRecomputed: number; // Rows recomputed from executions
+  lotsRecomputed: number;
+  closuresRecomputed: number;
+  drift: PositionDrift[];
+  rebuilt: boolean; // False for a check-only run
+  durationMs: number;
+}
@@ -0,0 +1,171 @@
+import { calculatePosition } from './position-calculator.js';
+import { getReferencePrice } from '../triggers/reference-price.js';
+import { logger } from '../../infrastructure/logging/logger.js';
+import { ExecutionError } from '../../domain/errors/execution.error.js';
+import type { TargetPosition, Trade } from '../../domain/schemas/trade-plan.schema.js';
+import type { SizedTrade } from '../executor/executor.types.js';
+
+const sizingLogger = logger.child({ module: 'position-sizing' });
+
+/**
+ * Token difference below which a targetPosition trade counts as already at
+ * its target (no order is placed)
+ */
+export const TARGET_POSITION_TOLERANCE = 0.01;
+
+/**
+ * Percentage of the position a trade is sized from
+ *
+ * @returns 100 for closePosition, percentOfPosition, or undefined for
+ *   explicitly sized trades
+ */
+export function getPositionPercent(trade: Trade): number | undefined {
+  return trade.closePosition ? 100 : trade.percentOfPosition;
+}
+
+/**
+ * Token quantity for a percentage of a position
+ *
+ * Rounded down to the 6 decimals quantities are stored with, so a partial
+ * close never asks for more than is held.
+ */
+export function sizeFromPosition(netQuantity: number, percent: number): number {
+  if (percent >= 100) {
+    return netQuantity;
+  }
+  return Math.floor((netQuantity * percent) / 100 * 1e6) / 1e6;
+}
+
+/**
+ * Resolve a trade's side and size
+ *
+ * Explicitly sized trades are returned unchanged. closePosition /
+ * percentOfPosition trades are sized in shares from the current position,
+ * and targetPosition trades become the BUY or SELL (in shares) that moves
+ * the current position to the target.
+ *
+ * @param trade - Trade to size
+ * @param mode - paper or live (positions are tracked per mode)
+ * @param allowEmptyPosition - Resolve to 0 instead of failing without a
+ *   position (trigger orders and cancellation records, which resolve again
+ *   or never execute)
+ * @returns Trade with an explicit size
+ * @throws ExecutionError if a position-sized trade has no position to size from
+ */
+export async function resolveTradeSize(
+  trade: Trade,
+  mode: 'paper' | 'live',
+  allowEmptyPosition = false
+): Promise<SizedTrade> {
+  if (trade.targetPosition) {
+    return await resolveTargetPosition(trade, trade.targetPosition, mode);
+  }
+
+  if (trade.side === undefined) {
+    throw new ExecutionError('Trade has no side', { details: { trade } });
+  }
+
+  const percent = getPositionPercent(trade);
+
+  if (percent === undefined) {
+    if (trade.size === undefined) {
+      throw new ExecutionError('Trade has no size', { details: { trade } });
+    }
+    return { ...trade, side: trade.side, size: trade.size };
+  }
+
+  const position = await calculatePosition(trade.marketTokenId, trade.outcome, mode);
+  const netQuantity = Math.max(position?.netQuantity ?? 0, 0);
+
+  if (netQuantity === 0 && !allowEmptyPosition) {
+    throw new ExecutionError(
+      `No existing position found for market token ${trade.marketTokenId} outcome ${trade.outcome}. Cannot size a ${percent}% position SELL.`,
+      { details: { trade, mode } }
+    );
+  }
+
+  const size = sizeFromPosition(netQuantity, percent);
+
+  sizingLogger.info(
+    { marketTokenId: trade.marketTokenId, outcome: trade.outcome, percent, netQuantity, size },
+    'Trade sized from position'
+  );
+
+  return { ...trade, side: trade.side, size, sizeUnit: 'shares' };
+}
+
+/**
+ * Derive the order that moves the current position to a target
+ *
+ * USDC targets are converted to a token quantity at the current midpoint.
+ * SELLs never exceed the held quantity, so a target of 0 exits exactly.
+ * A difference below TARGET_POSITION_TOLERANCE resolves to size 0.
+ */
+async function resolveTargetPosition(
+  trade: Trade,
+  target: TargetPosition,
+  mode: 'paper' | 'live'
+): Promise<SizedTrade> {
+  const position = await calculatePosition(trade.marketTokenId, trade.outcome, mode);
+  const heldQuantity = Math.max(position?.netQuantity ?? 0, 0);
+
+  const referencePrice =
+    (target.sizeUnit ?? 'usdc') === 'usdc'
+      ? await getReferencePrice(trade.marketTokenId, 'midpoint')
+      : undefined;
+
+  const sizedTrade = sizeTargetTrade(trade, target, heldQuantity, referencePrice);
+
+  sizingLogger.info(
+    {
+      marketTokenId: trade.marketTokenId,
+      outcome: trade.outcome,
+      target,
+      referencePrice,
+      heldQuantity,
+      side: sizedTrade.side,
+      size: sizedTrade.size,
+    },
+    'Trade derived from target position'
+  );
+
+  return sizedTrade;
+}
+
+/**
+ * Derive a targetPosition trade's side and size from a known position
+ *
+ * @param trade - targetPosition trade
+ * @param target - Its target position
+ * @param heldQuantity - Tokens currently held
+ * @param midpoint - Current midpoint (required for USDC targets)
+ * @returns BUY or SELL in shares (size 0 when already at the target)
+ */
+export function sizeTargetTrade(
+  trade: Trade,
+  target: TargetPosition,
+  heldQuantity: number,
+  midpoint?: number
+): SizedTrade {
+  let targetQuantity = target.size;
+
+  if ((target.sizeUnit ?? 'usdc') === 'usdc') {
+    if (midpoint === undefined) {
+      throw new ExecutionError('A midpoint is required to size a USDC targetPosition', {
+        details: { trade },
+      });
+    }
+    targetQuantity = target.size / midpoint;
+  }
+
+  const delta = targetQuantity - heldQuantity;
+  const side = delta < 0 ? 'SELL' : 'BUY';
+  const quantity = Math.round(Math.abs(delta) * 1e6) / 1e6;
+  let size = side === 'SELL' ? Math.min(quantity, heldQuantity) : quantity;
+
+  if (size < TARGET_POSITION_TOLERANCE) {
+    size = 0;
+  }
+
+  return { ...trade, side, size, sizeUnit: 'shares' };
+}
@@ -0,0 +1,331 @@
+import { getPolymarketAdapter } from '../../integrations/polymarket/polymarket.adapter.js';
+import { calculatePosition, QUANTITY_TOLERANCE } from '../positions/position-calculator.js';
+import {
+  getPositionPercent,
+  sizeFromPosition,
+  sizeTargetTrade,
+} from '../positions/position-sizing.js';
+import { getReferencePrice } from '../triggers/reference-price.js';
+import { toSliceTrade } from '../slicing/slice-schedule.js';
+import {
+  formatSizeAmount,
+  getOpposingLevels,
+  resolvePriceLimit,
+  resolveTimeInForce,
+  timeInForceCancellation,
+  walkBook,
+} from '../executor/fill-model.js';
+import { getExecutionOrder, getUnmetDependency } from '../executor/trade-graph.js';
+import { logger } from '../../infrastructure/logging/logger.js';
+import {
+  isTriggerOrderType,
+  type Trade,
+  type TradePlan,
+} from '../../domain/schemas/trade-plan.schema.js';
+import type { SizedTrade } from '../executor/executor.types.js';
+import type { PreflightResult, TradeQuote } from './preflight.types.js';
+
+const preflightLogger = logger.child({ module: 'preflight-service' });
+
+/**
+ * Pre-flight Service
+ *
+ * Simulates a plan with the paper fill logic before anything executes, for
+ * atomic plan checks and previews:
+ * - Sizes each trade as it would execute, tracking the position the plan's
+ *   earlier trades leave behind (closePosition / percentOfPosition /
+ *   targetPosition size from that, not from the position before the plan)
+ * - Quotes it against the current order book within its own risk limits
+ *   (limit price, maxPrice / minPrice protection, time in force)
+ * - Checks every SELL has the tokens it would fill
+ * - Applies dependsOn conditions and OCO / BRACKET cancellations to the
+ *   simulated outcomes; trigger orders stay dormant, sliced trades quote
+ *   their first slice
+ *
+ * Read-only: nothing is persisted and no order is placed. Each trade sees
+ * the full current book, as the paper executor does.
+ */
+export class PreflightService {
+  private adapter = getPolymarketAdapter();
+
+  /**
+   * Simulate every trade of a plan
+   *
+   * @param plan - Plan to simulate
+   * @returns Quotes and the issues that would stop the plan landing in full
+   */
+  async checkPlan(plan: TradePlan): Promise<PreflightResult> {
+    const quotes: TradeQuote[] = [];
+    const issues: string[] = [];
+    const heldByPosition = new Map<string, number>();
+    const quotesByTradeId = new Map<string, TradeQuote>();
+
+    for (const index of getExecutionOrder(plan.trades)) {
+      const trade = plan.trades[index];
+      const label = `Trade ${index + 1}${trade.id ? ` ('${trade.id}')` : ''}`;
+
+      try {
+        const key = `${trade.marketTokenId}:${trade.outcome}`;
+        const held = heldByPosition.get(key) ?? (await this.getHeldQuantity(trade, plan.mode));
+        const unmetDependency = getUnmetDependency(trade, quotesByTradeId);
+
+        const quote = unmetDependency
+          ? this.skippedQuote(index, trade, held, unmetDependency)
+          : await this.quoteTrade(index, trade, held, quotes);
+
+        quotes.push(quote);
+        heldByPosition.set(key, quote.positionAfter);
+        if (trade.id !== undefined) {
+          quotesByTradeId.set(trade.id, quote);
+        }
+
+        if (quote.issue) {
+          issues.push(`${label}: ${quote.issue}`);
+        }
+      } catch (error) {
+        issues.push(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    preflightLogger.info(
+      { planId: plan.planId, mode: plan.mode, quoted: quotes.length, issues },
+      issues.length > 0 ? 'Pre-flight checks found issues' : 'Pre-flight checks passed'
+    );
+
+    return { planId: plan.planId, mode: plan.mode, quotes, issues };
+  }
+
+  /**
+   * Tokens currently held for a trade's token and outcome (never negative)
+   */
+  private async getHeldQuantity(trade: Trade, mode: 'paper' | 'live'): Promise<number> {
+    const position = await calculatePosition(trade.marketTokenId, trade.outcome, mode);
+    return Math.max(position?.netQuantity ?? 0, 0);
+  }
+
+  /**
+   * Size a trade against the simulated position
+   *
+   * @returns Sized trade, or null for a position-sized SELL with nothing held
+   *   (trigger orders resolve to 0 instead, as they size again when they fire)
+   */
+  private async sizeTrade(trade: Trade, held: number): Promise<SizedTrade | null> {
+    if (trade.targetPosition) {
+      const midpoint =
+        (trade.targetPosition.sizeUnit ?? 'usdc') === 'usdc'
+          ? await getReferencePrice(trade.marketTokenId, 'midpoint')
+          : undefined;
+      return sizeTargetTrade(trade, trade.targetPosition, held, midpoint);
+    }
+
+    const percent = getPositionPercent(trade);
+    if (percent === undefined) {
+      return { ...trade, side: trade.side!, size: trade.size! };
+    }
+
+    if (held === 0 && !isTriggerOrderType(trade.orderType)) {
+      return null;
+    }
+    return {
+      ...trade,
+      side: trade.side!,
+      size: sizeFromPosition(held, percent),
+      sizeUnit: 'shares',
+    };
+  }
+
+  /**
+   * Simulate a single trade
+   *
+   * @param index - Position of the trade in the plan
+   * @param trade - Trade to simulate
+   * @param held - Tokens held after the plan's earlier trades
+   * @param earlierQuotes - Quotes of the trades simulated before this one
+   */
+  private async quoteTrade(
+    index: number,
+    trade: Trade,
+    held: number,
+    earlierQuotes: TradeQuote[]
+  ): Promise<TradeQuote> {
+    const sizedTrade = await this.sizeTrade(trade, held);
+    const quote = unfilledQuote(index, sizedTrade ?? { ...trade, side: 'SELL', size: 0 }, held);
+
+    if (!sizedTrade) {
+      quote.status = 'failed';
+      quote.issue = `no position in ${trade.marketTokenId} ${trade.outcome} to size a SELL from`;
+      return quote;
+    }
+
+    const groupCancellation = this.getGroupCancellation(trade, earlierQuotes);
+    if (groupCancellation) {
+      quote.note = groupCancellation;
+      return quote;
+    }
+
+    if (trade.targetPosition && sizedTrade.size === 0) {
+      quote.complete = true;
+      quote.note = 'Already at target position';
+      return quote;
+    }
+
+    if (isTriggerOrderType(trade.orderType)) {
+      quote.status = 'pending';
+      quote.complete = true;
+      quote.note = `Dormant until triggerPrice ${trade.triggerPrice ?? 'trails the reference price'}`;
+      return quote;
+    }
+
+    const placedTrade = trade.slicing
+      ? toSliceTrade(sizedTrade, sizedTrade.size / trade.slicing.slices)
+      : sizedTrade;
+    quote.trade = placedTrade;
+
+    const orderBook = await this.adapter.getOrderBook(placedTrade.marketTokenId);
+    const levels = getOpposingLevels(orderBook, placedTrade.side);
+    const depthFill = walkBook(
+      levels,
+      placedTrade.side,
+      placedTrade.size,
+      resolvePriceLimit(placedTrade),
+      placedTrade.sizeUnit
+    );
+    const timeInForce = resolveTimeInForce(placedTrade);
+    const filledSize = placedTrade.sizeUnit === 'shares' ? depthFill.quantity : depthFill.notional;
+
+    quote.bestPrice = levels[0]?.price;
+    quote.complete = depthFill.complete;
+
+    if (timeInForce === 'FOK' && !depthFill.complete) {
+      quote.issue = timeInForceCancellation(
+        'FOK',
+        filledSize,
+        placedTrade.size,
+        placedTrade.sizeUnit
+      ).reason;
+      quote.note = quote.issue;
+      return this.withSlicing(quote, trade);
+    }
+
+    if (timeInForce === 'IOC' && depthFill.quantity === 0) {
+      quote.issue = `IOC: nothing in the book crosses for ${formatSizeAmount(placedTrade.size, placedTrade.sizeUnit)}`;
+      quote.note = quote.issue;
+      return this.withSlicing(quote, trade);
+    }
+
+    if (placedTrade.side === 'SELL' && depthFill.quantity > held + QUANTITY_TOLERANCE) {
+      quote.status = 'failed';
+      quote.issue = `insufficient position in ${trade.marketTokenId} ${trade.outcome}: SELL fills ${depthFill.quantity.toFixed(6)} tokens, ${held.toFixed(6)} held`;
+      return quote;
+    }
+
+    quote.quantity = depthFill.quantity;
+    quote.notional = depthFill.notional;
+    quote.avgPrice = depthFill.avgPrice;
+    quote.positionAfter =
+      placedTrade.side === 'BUY' ? held + depthFill.quantity : held - depthFill.quantity;
+
+    if (depthFill.quantity > 0) {
+      quote.fillPrice = depthFill.avgPrice;
+      quote.slippage =
+        quote.bestPrice === undefined
+          ? 0
+          : placedTrade.side === 'BUY'
+            ? depthFill.avgPrice - quote.bestPrice
+            : quote.bestPrice - depthFill.avgPrice;
+    }
+
+    if (depthFill.complete) {
+      quote.status = 'filled';
+    } else if (timeInForce === 'IOC') {
+      quote.status = 'cancelled';
+      quote.note = timeInForceCancellation(
+        'IOC',
+        filledSize,
+        placedTrade.size,
+        placedTrade.sizeUnit
+      ).reason;
+    } else {
+      quote.status = depthFill.quantity > 0 ? 'partially_filled' : 'open';
+    }
+
+    return this.withSlicing(quote, trade);
+  }
+
+  /**
+   * Quote for a trade skipped because a dependsOn condition does not hold
+   * (recorded as cancelled without being sized against the book)
+   */
+  private skippedQuote(index: number, trade: Trade, held: number, reason: string): TradeQuote {
+    return {
+      ...unfilledQuote(index, { ...trade, side: trade.side ?? 'BUY', size: trade.size ?? 0 }, held),
+      note: reason,
+    };
+  }
+
+  /**
+   * A sliced trade is a working parent: only its first slice is quoted
+   */
+  private withSlicing(quote: TradeQuote, trade: Trade): TradeQuote {
+    if (trade.slicing) {
+      quote.status = 'working';
+      quote.note = `First of ${trade.slicing.slices} slices, ${trade.slicing.intervalMinutes} minutes apart${quote.note ? ` (${quote.note})` : ''}`;
+      quote.issue = undefined;
+    }
+    return quote;
+  }
+
+  /**
+   * Whether an OCO / BRACKET leg would be cancelled because a simulated
+   * sibling already filled (mirrors the order group service)
+   */
+  private getGroupCancellation(trade: Trade, earlierQuotes: TradeQuote[]): string | undefined {
+    const group = trade.orderGroup;
+    if (!group || group.role === 'entry') {
+      return undefined;
+    }
+
+    const filled = earlierQuotes.find(
+      (quote) =>
+        quote.trade.orderGroup?.id === group.id &&
+        quote.quantity > 0 &&
+        (group.type === 'OCO' || quote.trade.orderGroup.role === 'exit')
+    );
+
+    return filled
+      ? `Order group '${group.id}': trade ${filled.tradeIndex + 1} already filled`
+      : undefined;
+  }
+}
+
+/**
+ * Quote for a trade that fills nothing (recorded as cancelled unless the
+ * caller sets another status)
+ */
+function unfilledQuote(index: number, trade: SizedTrade, held: number): TradeQuote {
+  return {
+    tradeIndex: index,
+    tradeId: trade.id,
+    trade,
+    status: 'cancelled',
+    quantity: 0,
+    notional: 0,
+    avgPrice: 0,
+    slippage: 0,
+    complete: false,
+    positionBefore: held,
+    positionAfter: held,
+  };
+}
+
+/**
+ * Singleton pre-flight service instance
+ */
+let serviceInstance: PreflightService | null = null;
+
+export function getPreflightService(): PreflightService {
+  if (!serviceInstance) {
+    serviceInstance = new PreflightService();
+  }
+  return serviceInstance;
+}
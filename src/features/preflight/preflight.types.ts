@@ -0,0 +1,39 @@
+import type { ExecutionResult, SizedTrade } from '../executor/executor.types.js';
+
+/**
+ * Pre-flight Types
+ *
+ * Simulation of a plan against current books and positions, used to check
+ * atomic plans and to preview plans without executing them
+ */
+
+/**
+ * Simulated outcome of a single trade, as the paper executor would place it
+ */
+export interface TradeQuote {
+  tradeIndex: number; // Position in the plan (0-based)
+  tradeId?: string;
+  trade: SizedTrade; // Side and size as the trade would execute now (sliced trades: first slice)
+  status: ExecutionResult['status']; // Order status the trade would end the run in
+  quantity: number; // Outcome tokens that would fill immediately
+  notional: number; // USDC that would change hands immediately
+  avgPrice: number; // Volume-weighted fill price, 0 if nothing fills
+  fillPrice?: number; // avgPrice when something fills (matches ExecutionResult)
+  bestPrice?: number; // Best opposing price in the book, undefined if that side is empty
+  slippage: number; // avgPrice - bestPrice (BUY) or bestPrice - avgPrice (SELL), 0 if nothing fills
+  complete: boolean; // True if the full size would fill immediately
+  positionBefore: number; // Tokens held before this trade (after the plan's earlier trades)
+  positionAfter: number; // Tokens held after this trade's immediate fill
+  note?: string; // Why nothing is placed or filled now (skipped, cancelled, dormant trigger)
+  issue?: string; // Why the trade would not land in full
+}
+
+/**
+ * Result of simulating every trade of a plan
+ */
+export interface PreflightResult {
+  planId: string;
+  mode: 'paper' | 'live';
+  quotes: TradeQuote[]; // One per trade that could be simulated, in execution order
+  issues: string[]; // Why the plan would not land in full (empty = ready to execute)
+}
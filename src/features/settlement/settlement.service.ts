@@ -0,0 +1,308 @@
+import { getExecutorRepository } from '../executor/executor.repository.js';
+import { getTradeRunnerRepository } from '../trade-runner/trade-runner.repository.js';
+import { calculatePosition } from '../positions/position-calculator.js';
+import { getLiveExecutor } from '../executor/live-executor.js';
+import { getOrderGroupService } from '../order-groups/order-group.service.js';
+import { getGammaAdapter } from '../../integrations/polymarket/gamma.adapter.js';
+import { getPolymarketAdapter } from '../../integrations/polymarket/polymarket.adapter.js';
+import { withTransaction } from '../../infrastructure/database/client.js';
+import { logger } from '../../infrastructure/logging/logger.js';
+import { MarketNotFoundError } from '../../domain/errors/execution.error.js';
+import type { Order } from '../../infrastructure/database/schema.js';
+import type { Market, MarketToken } from '../../integrations/polymarket/polymarket.types.js';
+import type { SettledPosition, SettlementSummary } from './settlement.types.js';
+
+const settlementLogger = logger.child({ module: 'settlement-service' });
+
+/**
+ * Settlement Service
+ *
+ * Closes out positions in markets that have resolved. A market counts as
+ * resolved once the CLOB reports it closed with a winning token
+ * (MarketToken.winner):
+ * - Each held position is settled with a synthetic SELL of the full
+ *   quantity at 1.0 (winning token) or 0 (losing token), so realized P&L in
+ *   calculatePosition reflects the outcome. Settlement orders belong to a
+ *   'settlement-<mode>-<timestamp>' execution history record.
+ * - Working, pending trigger and sliced orders on the market are cancelled
+ *   locally: the CLOB has already taken resting orders off a resolved book
+ *
+ * Live orders on a resolved token are reconciled with the CLOB first, so
+ * fills matched before resolution are recorded and settled with the
+ * position. A token whose orders cannot be reconciled is left for the next
+ * pass.
+ *
+ * Each token settles in one transaction. Settled positions are flat, so
+ * later passes skip them. Live settlement only updates local records:
+ * redeeming winning tokens on-chain is a separate step.
+ */
+export class SettlementService {
+  private executorRepository = getExecutorRepository();
+  private tradeRunnerRepository = getTradeRunnerRepository();
+  private gamma = getGammaAdapter();
+  private adapter = getPolymarketAdapter();
+  private liveExecutor = getLiveExecutor();
+  private orderGroupService = getOrderGroupService();
+
+  /**
+   * Settle every position and cancel every order in resolved markets
+   *
+   * @param mode - Execution mode to settle
+   * @returns Settled positions, cancelled orders and lookup errors
+   */
+  async settleResolvedMarkets(mode: 'paper' | 'live'): Promise<SettlementSummary> {
+    const heldPositions = await this.executorRepository.getHeldPositions(mode);
+    const cancellableOrders = await this.executorRepository.getCancellableOrders(mode);
+    const tokenIds = [
+      ...new Set([
+        ...heldPositions.map((position) => position.marketTokenId),
+        ...cancellableOrders.map((order) => order.marketTokenId),
+      ]),
+    ];
+
+    settlementLogger.info({ mode, tokenCount: tokenIds.length }, 'Checking markets for resolution');
+
+    const summary: SettlementSummary = {
+      mode,
+      tokensChecked: tokenIds.length,
+      marketsResolved: 0,
+      positions: [],
+      cancelledOrderIds: [],
+      errors: [],
+    };
+    const marketsByCondition = new Map<string, Market>();
+    const resolvedConditions = new Set<string>();
+
+    for (const tokenId of tokenIds) {
+      try {
+        const resolution = await this.getResolution(tokenId, marketsByCondition);
+        if (!resolution) {
+          continue;
+        }
+
+        const { market, token } = resolution;
+        resolvedConditions.add(market.condition_id);
+
+        const tokenOrders = cancellableOrders.filter((order) => order.marketTokenId === tokenId);
+        if (mode === 'live') {
+          await this.syncLiveOrders(tokenOrders);
+        }
+
+        // Reconciled fills change the position, so live positions are re-read
+        const positions = (
+          mode === 'live' ? await this.executorRepository.getHeldPositions(mode) : heldPositions
+        ).filter((position) => position.marketTokenId === tokenId);
+        if (positions.length > 0 && !summary.settlementPlanId) {
+          summary.settlementPlanId = await this.createSettlementPlan(mode);
+        }
+
+        const settled = await withTransaction(() =>
+          this.settleToken(
+            mode,
+            market,
+            token,
+            positions,
+            tokenOrders,
+            summary.settlementPlanId
+          )
+        );
+        summary.positions.push(...settled.positions);
+        summary.cancelledOrderIds.push(...settled.cancelledOrderIds);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        settlementLogger.warn({ tokenId, error: errorMessage }, 'Failed to settle market token');
+        summary.errors.push(`Token ${tokenId}: ${errorMessage}`);
+      }
+    }
+
+    summary.marketsResolved = resolvedConditions.size;
+
+    if (summary.settlementPlanId) {
+      await this.tradeRunnerRepository.completeExecutionHistory(
+        summary.settlementPlanId,
+        summary,
+        summary.errors.length > 0 ? 'partial' : 'completed',
+        summary.errors.length > 0 ? summary.errors.join('\n') : undefined
+      );
+    }
+
+    settlementLogger.info(
+      {
+        mode,
+        tokensChecked: summary.tokensChecked,
+        marketsResolved: summary.marketsResolved,
+        positionsSettled: summary.positions.length,
+        ordersCancelled: summary.cancelledOrderIds.length,
+        errorCount: summary.errors.length,
+      },
+      'Settlement pass completed'
+    );
+
+    return summary;
+  }
+
+  /**
+   * Look up whether a token's market has resolved
+   *
+   * Gamma maps the token to its market; markets Gamma still lists as open
+   * are skipped without asking the CLOB.
+   *
+   * @returns Resolved market and the token's entry in it, or null if unresolved
+   * @throws MarketNotFoundError if the token's market is unknown
+   */
+  private async getResolution(
+    tokenId: string,
+    marketsByCondition: Map<string, Market>
+  ): Promise<{ market: Market; token: MarketToken } | null> {
+    const gammaMarket = await this.gamma.getMarketByTokenId(tokenId);
+    if (!gammaMarket) {
+      throw new MarketNotFoundError(tokenId);
+    }
+    if (!gammaMarket.closed) {
+      return null;
+    }
+
+    let market = marketsByCondition.get(gammaMarket.conditionId);
+    if (!market) {
+      market = await this.adapter.getMarket(gammaMarket.conditionId);
+      marketsByCondition.set(gammaMarket.conditionId, market);
+    }
+
+    const token = market.tokens.find((candidate) => candidate.token_id === tokenId);
+    if (!token) {
+      throw new Error(`Token is not an outcome of market '${market.question}'`);
+    }
+
+    // Closed markets awaiting resolution have no winner yet
+    if (!market.closed || !market.tokens.some((candidate) => candidate.winner)) {
+      settlementLogger.debug({ tokenId, conditionId: market.condition_id }, 'Market not resolved');
+      return null;
+    }
+
+    return { market, token };
+  }
+
+  /**
+   * Record what the CLOB matched on a resolved token's working live orders
+   *
+   * Fills cancel OCO / BRACKET siblings as they do in sweeps.
+   *
+   * @throws ExecutionError if an order cannot be fetched from the CLOB
+   */
+  private async syncLiveOrders(orders: Order[]): Promise<void> {
+    const workingOrders = orders.filter(
+      (order) =>
+        (order.status === 'open' || order.status === 'partially_filled') && order.externalOrderId
+    );
+
+    for (const order of workingOrders) {
+      const result = await this.liveExecutor.syncOpenOrder(order);
+      if (result.quantity && order.orderGroupId) {
+        await this.orderGroupService.cancelSiblings(order);
+      }
+    }
+  }
+
+  /**
+   * Execution history record that settlement orders belong to
+   */
+  private async createSettlementPlan(mode: 'paper' | 'live'): Promise<string> {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const planId = `settlement-${mode}-${timestamp}`;
+
+    await this.tradeRunnerRepository.createExecutionHistory({
+      planId,
+      planJson: { planId, mode, trades: [], notes: 'Market resolution settlement' },
+      status: 'running',
+    });
+
+    return planId;
+  }
+
+  /**
+   * Cancel a resolved token's orders and settle its positions
+   *
+   * Runs inside the caller's transaction.
+   */
+  private async settleToken(
+    mode: 'paper' | 'live',
+    market: Market,
+    token: MarketToken,
+    positions: Array<{ marketTokenId: string; outcome: 'YES' | 'NO'; netQuantity: number }>,
+    orders: Order[],
+    settlementPlanId: string | undefined
+  ): Promise<{ positions: SettledPosition[]; cancelledOrderIds: string[] }> {
+    const winner = market.tokens.find((candidate) => candidate.winner)!;
+    const payoutPrice = token.winner ? 1 : 0;
+    const cancelledOrderIds: string[] = [];
+    const settled: SettledPosition[] = [];
+
+    for (const order of orders) {
+      const cancelled = await this.executorRepository.cancelOrder(order.id, {
+        cancelledBy: 'system:settlement',
+        reason: `Market resolved: ${winner.outcome} won`,
+      });
+      if (cancelled) {
+        cancelledOrderIds.push(order.id);
+      }
+    }
+
+    for (const position of positions) {
+      const { order } = await this.executorRepository.executeTradeTransaction(
+        {
+          planId: settlementPlanId!,
+          marketTokenId: position.marketTokenId,
+          outcome: position.outcome,
+          side: 'SELL',
+          orderType: 'MARKET',
+          size: position.netQuantity.toFixed(6),
+          sizeUnit: 'shares',
+          price: payoutPrice.toFixed(6),
+          status: 'filled',
+          mode,
+        },
+        [{ quantity: position.netQuantity.toFixed(6), price: payoutPrice.toFixed(6), fee: '0' }]
+      );
+
+      const after = await calculatePosition(position.marketTokenId, position.outcome, mode);
+
+      settlementLogger.info(
+        {
+          marketTokenId: position.marketTokenId,
+          outcome: position.outcome,
+          conditionId: market.condition_id,
+          quantity: position.netQuantity,
+          payoutPrice,
+          orderId: order.id,
+        },
+        'Position settled'
+      );
+
+      settled.push({
+        marketTokenId: position.marketTokenId,
+        outcome: position.outcome,
+        conditionId: market.condition_id,
+        question: market.question,
+        won: token.winner,
+        quantity: position.netQuantity,
+        payoutPrice,
+        orderId: order.id,
+        realizedPnL: after?.realizedPnL ?? 0,
+      });
+    }
+
+    return { positions: settled, cancelledOrderIds };
+  }
+}
+
+/**
+ * Singleton settlement service instance
+ */
+let serviceInstance: SettlementService | null = null;
+
+export function getSettlementService(): SettlementService {
+  if (!serviceInstance) {
+    serviceInstance = new SettlementService();
+  }
+  return serviceInstance;
+}
@@ -0,0 +1,33 @@
+/**
+ * Settlement Types
+ *
+ * Closing out positions and working orders in markets that have resolved
+ */
+
+/**
+ * A position closed out at its market's resolution
+ */
+export interface SettledPosition {
+  marketTokenId: string;
+  outcome: 'YES' | 'NO';
+  conditionId: string;
+  question: string;
+  won: boolean; // True if this token is the market's winning outcome
+  quantity: number; // Tokens settled
+  payoutPrice: number; // 1 for the winning token, 0 for the losing one
+  orderId: string; // Synthetic SELL order recording the settlement
+  realizedPnL: number; // Realized P&L of the position after settlement
+}
+
+/**
+ * Summary of one settlement pass
+ */
+export interface SettlementSummary {
+  mode: 'paper' | 'live';
+  tokensChecked: number; // Tokens with a position or cancellable order whose market was looked up
+  marketsResolved: number; // Distinct resolved markets among them
+  settlementPlanId?: string; // execution_history record the settlement orders belong to
+  positions: SettledPosition[];
+  cancelledOrderIds: string[]; // Working, pending and sliced orders in resolved markets
+  errors: string[]; // Tokens whose market could not be looked up or settled
+}
@@ -0,0 +1,130 @@
+import type { SizeUnit } from '../../domain/schemas/trade-plan.schema.js';
+import type { Order } from '../../infrastructure/database/schema.js';
+import type { OrderWithFills, SizedTrade } from '../executor/executor.types.js';
+
+/**
+ * Slice Schedule
+ *
+ * Pure helpers for working a sliced (TWAP) parent order: how much has filled
+ * against the target, how big the next child order is, and whether the
+ * parent is done. No I/O.
+ */
+
+/**
+ * Tolerance (USDC, or tokens for share-sized parents) when deciding whether
+ * a sliced order reached its target
+ */
+export const SLICE_SIZE_TOLERANCE = 0.01;
+
+/**
+ * Progress of a sliced parent against its target
+ *
+ * Sizes are in the parent's size unit (USDC or shares).
+ */
+export interface SliceProgress {
+  sizeUnit: SizeUnit;
+  targetSize: number; // Parent size
+  filledSize: number; // Filled across all child orders
+  restingSize: number; // Unfilled size of child orders still working
+  slicesPlaced: number;
+  sliceCount: number;
+  remainingSlices: number;
+  complete: boolean; // Target filled (within tolerance)
+}
+
+/**
+ * What a sliced parent needs next
+ *
+ * - filled: target reached, the parent can be completed
+ * - exhausted: every slice placed and nothing left working, target missed
+ * - resting: every slice placed, waiting for resting child orders
+ * - due: the next slice can be placed now
+ * - scheduled: the next slice is not due yet
+ */
+export type SliceState = 'filled' | 'exhausted' | 'resting' | 'due' | 'scheduled';
+
+/**
+ * Summarize a sliced parent's child orders
+ */
+export function getSliceProgress(parent: Order, children: OrderWithFills[]): SliceProgress {
+  const targetSize = parseFloat(parent.size);
+  const sliceCount = parent.sliceCount ?? 0;
+  const slicesPlaced = parent.slicesPlaced ?? 0;
+
+  let filledSize = 0;
+  let restingSize = 0;
+
+  for (const child of children) {
+    const childFilled =
+      parent.sizeUnit === 'shares' ? child.filledQuantity : child.filledNotional;
+    filledSize += childFilled;
+
+    if (child.order.status === 'open' || child.order.status === 'partially_filled') {
+      restingSize += Math.max(parseFloat(child.order.size) - childFilled, 0);
+    }
+  }
+
+  return {
+    sizeUnit: parent.sizeUnit,
+    targetSize,
+    filledSize,
+    restingSize,
+    slicesPlaced,
+    sliceCount,
+    remainingSlices: Math.max(sliceCount - slicesPlaced, 0),
+    complete: filledSize >= targetSize - SLICE_SIZE_TOLERANCE,
+  };
+}
+
+/**
+ * Determine what a sliced parent needs next
+ */
+export function getSliceState(
+  parent: Order,
+  progress: SliceProgress,
+  now: Date = new Date()
+): SliceState {
+  if (progress.complete) {
+    return 'filled';
+  }
+
+  if (progress.remainingSlices === 0) {
+    return progress.restingSize > 0 ? 'resting' : 'exhausted';
+  }
+
+  return !parent.nextSliceAt || parent.nextSliceAt.getTime() <= now.getTime()
+    ? 'due'
+    : 'scheduled';
+}
+
+/**
+ * Size of the next child order, in the parent's size unit
+ *
+ * Splits whatever is neither filled nor resting evenly over the remaining
+ * slices, so later slices catch up on size earlier slices failed to fill.
+ */
+export function getNextSliceSize(progress: SliceProgress): number {
+  if (progress.remainingSlices === 0) {
+    return 0;
+  }
+
+  const unallocated = progress.targetSize - progress.filledSize - progress.restingSize;
+
+  return Math.max(unallocated, 0) / progress.remainingSlices;
+}
+
+/**
+ * Build the child trade for one slice of a sliced parent
+ *
+ * Children of a position-sized parent trade an explicit share of the size
+ * the parent resolved to when it was placed.
+ */
+export function toSliceTrade(parentTrade: SizedTrade, size: number): SizedTrade {
+  return {
+    ...parentTrade,
+    size: Math.round(size * 1e6) / 1e6, // orders.size is numeric(20, 6)
+    percentOfPosition: undefined,
+    closePosition: undefined,
+    slicing: undefined,
+  };
+}
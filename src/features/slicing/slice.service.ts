@@ -0,0 +1,180 @@
+import { getExecutorRepository } from '../executor/executor.repository.js';
+import { getExecutorService } from '../executor/executor.service.js';
+import { logger } from '../../infrastructure/logging/logger.js';
+import type { Order } from '../../infrastructure/database/schema.js';
+import { formatSizeAmount } from '../executor/fill-model.js';
+import { getSliceProgress, getSliceState, type SliceProgress } from './slice-schedule.js';
+import type { SliceWorkSummary, WorkedSlicedOrder } from './slice.types.js';
+
+const sliceLogger = logger.child({ module: 'slice-service' });
+
+/**
+ * Slice Service
+ *
+ * Works sliced (TWAP) parent orders: places the next child order once its
+ * slice is due, and completes the parent when child fills reach its target
+ * ('filled') or every slice has been placed and nothing is left resting
+ * ('cancelled', with the filled amount in the cancel reason).
+ *
+ * Slices are only placed when this runs, i.e. on each sweep, so the
+ * interval is a minimum spacing rather than an exact schedule.
+ *
+ * A failure on one parent (empty book, insufficient position, ...) leaves
+ * the slice due for the next run; the remaining parents are still worked.
+ */
+export class SliceService {
+  private executorRepository = getExecutorRepository();
+  private executorService = getExecutorService();
+
+  /**
+   * Work all sliced parent orders for a mode
+   *
+   * @returns Work summary with per-order results
+   */
+  async workSlicedOrders(mode: 'paper' | 'live'): Promise<SliceWorkSummary> {
+    const parents = await this.executorRepository.getWorkingSlicedOrders(mode);
+
+    sliceLogger.info({ mode, orderCount: parents.length }, 'Working sliced orders');
+
+    const worked: WorkedSlicedOrder[] = [];
+    const errors: string[] = [];
+
+    for (const parent of parents) {
+      const result: WorkedSlicedOrder = {
+        orderId: parent.id,
+        planId: parent.planId,
+        marketTokenId: parent.marketTokenId,
+        side: parent.side,
+        sizeUnit: parent.sizeUnit,
+        targetSize: parseFloat(parent.size),
+        filledSize: 0,
+        slicesPlaced: parent.slicesPlaced ?? 0,
+        sliceCount: parent.sliceCount ?? 0,
+        status: 'scheduled',
+        nextSliceAt: parent.nextSliceAt ?? undefined,
+      };
+
+      try {
+        await this.workSlicedOrder(parent, result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+
+        sliceLogger.warn(
+          { orderId: parent.id, error: errorMessage },
+          'Failed to place slice - leaving order working'
+        );
+
+        result.status = 'failed';
+        result.errorMessage = errorMessage;
+        errors.push(`Order ${parent.id}: ${errorMessage}`);
+      }
+
+      worked.push(result);
+    }
+
+    const summary: SliceWorkSummary = {
+      mode,
+      ordersWorked: worked.length,
+      slicesPlaced: worked.filter((o) => o.placedOrderId).length,
+      ordersCompleted: worked.filter((o) => o.status === 'filled' || o.status === 'cancelled')
+        .length,
+      orders: worked,
+      errors,
+    };
+
+    sliceLogger.info(
+      {
+        mode,
+        ordersWorked: summary.ordersWorked,
+        slicesPlaced: summary.slicesPlaced,
+        ordersCompleted: summary.ordersCompleted,
+        errorCount: errors.length,
+      },
+      'Sliced order work completed'
+    );
+
+    return summary;
+  }
+
+  /**
+   * Advance one sliced parent according to its slice state
+   *
+   * A parent whose final slice fills immediately is completed in the same run.
+   * Updates `result` with the action taken.
+   */
+  private async workSlicedOrder(parent: Order, result: WorkedSlicedOrder): Promise<void> {
+    const children = await this.executorRepository.getChildOrders(parent.id);
+    const progress = getSliceProgress(parent, children);
+    const state = getSliceState(parent, progress);
+    result.filledSize = progress.filledSize;
+
+    if (state === 'resting') {
+      result.status = 'resting';
+      return;
+    }
+
+    if (state === 'due') {
+      const placed = await this.executorService.placeSlice(parent);
+      const updated = await this.executorRepository.getOrderById(parent.id);
+
+      result.status = 'sliced';
+      result.slicesPlaced = updated?.slicesPlaced ?? progress.slicesPlaced + 1;
+      result.nextSliceAt = updated?.nextSliceAt ?? undefined;
+
+      if (placed) {
+        result.placedOrderId = placed.orderId;
+        result.placedOrderStatus = placed.status;
+      }
+
+      if (updated?.status === 'working') {
+        await this.completeIfFinished(
+          updated,
+          getSliceProgress(updated, await this.executorRepository.getChildOrders(parent.id)),
+          result
+        );
+      }
+      return;
+    }
+
+    await this.completeIfFinished(parent, progress, result);
+  }
+
+  /**
+   * Complete a sliced parent that reached its target or used up its slices
+   */
+  private async completeIfFinished(
+    parent: Order,
+    progress: SliceProgress,
+    result: WorkedSlicedOrder
+  ): Promise<void> {
+    const state = getSliceState(parent, progress);
+    result.filledSize = progress.filledSize;
+
+    if (state === 'filled') {
+      const completed = await this.executorRepository.completeSlicedOrder(parent.id);
+      if (completed) {
+        result.status = 'filled';
+      }
+    } else if (state === 'exhausted') {
+      const completed = await this.executorRepository.completeSlicedOrder(parent.id, {
+        cancelledBy: 'system:slicing',
+        reason: `TWAP finished: filled ${progress.filledSize.toFixed(2)} of ${formatSizeAmount(progress.targetSize, progress.sizeUnit)}`,
+      });
+      if (completed) {
+        result.status = 'cancelled';
+      }
+    }
+  }
+}
+
+/**
+ * Singleton slice service instance
+ */
+let serviceInstance: SliceService | null = null;
+
+export function getSliceService(): SliceService {
+  if (!serviceInstance) {
+    serviceInstance = new SliceService();
+  }
+  return serviceInstance;
+}
@@ -0,0 +1,39 @@
+import type { SizeUnit } from '../../domain/schemas/trade-plan.schema.js';
+
+/**
+ * Slicing Types
+ *
+ * Working sliced (TWAP) parent orders across runs
+ */
+
+/**
+ * Outcome of working a single sliced parent order
+ */
+export interface WorkedSlicedOrder {
+  orderId: string;
+  planId: string;
+  marketTokenId: string;
+  side: 'BUY' | 'SELL';
+  sizeUnit: SizeUnit;
+  targetSize: number; // Parent size in sizeUnit
+  filledSize: number; // Filled across child orders, in sizeUnit
+  slicesPlaced: number; // Including a slice placed by this run
+  sliceCount: number;
+  status: 'scheduled' | 'resting' | 'sliced' | 'filled' | 'cancelled' | 'failed'; // 'sliced': a child order was placed, 'cancelled': slices used up short of the target, 'failed': left working for the next run
+  placedOrderId?: string; // Child order placed by this run
+  placedOrderStatus?: string;
+  nextSliceAt?: Date;
+  errorMessage?: string;
+}
+
+/**
+ * Summary generated after working sliced orders
+ */
+export interface SliceWorkSummary {
+  mode: 'paper' | 'live';
+  ordersWorked: number;
+  slicesPlaced: number;
+  ordersCompleted: number; // Parents finished this run (filled or cancelled)
+  orders: WorkedSlicedOrder[];
+  errors: string[]; // Slices that could not be placed (parent left working)
+}
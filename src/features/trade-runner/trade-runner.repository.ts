@@ -79,7 +79,7 @@ export class TradeRunnerRepository {
   async completeExecutionHistory(
     planId: string,
     summaryJson: unknown,
-    status: 'completed' | 'failed',
+    status: 'completed' | 'partial' | 'failed',
     errorMessage?: string
   ): Promise<void> {
     repoLogger.debug({ planId, status }, 'Completing execution history');
@@ -1,10 +1,19 @@
 import { getTradeRunnerRepository } from './trade-runner.repository.js';
 import { getExecutorService } from '../executor/executor.service.js';
 import { getExecutorRepository } from '../executor/executor.repository.js';
+import { getPreflightService } from '../preflight/preflight.service.js';
+import { getMarketLookupService } from '../markets/market-lookup.service.js';
+import { getReferencePrice } from '../triggers/reference-price.js';
+import { calculateFee } from '../executor/fee-schedule.js';
 import { logger } from '../../infrastructure/logging/logger.js';
 import { ExecutionError } from '../../domain/errors/execution.error.js';
-import type { TradePlan } from '../../domain/schemas/trade-plan.schema.js';
-import type { RunSummary, Position } from './trade-runner.types.js';
+import type { SubmittedTradePlan, TradePlan } from '../../domain/schemas/trade-plan.schema.js';
+import type {
+  PlanPreview,
+  Position,
+  PreviewPosition,
+  RunSummary,
+} from './trade-runner.types.js';
 
 const runnerLogger = logger.child({ module: 'trade-runner-service' });
 
@@ -16,21 +25,33 @@ const runnerLogger = logger.child({ module: 'trade-runner-service' });
  * - Execution history tracking
  * - Run summary generation
  * - Position and P&L calculation
+ * - Good-til-date expiry of working orders before counting them
+ * - Partial runs: failed trades of an onError 'continue' plan are reported
+ *   in RunSummary.errors and the history is marked 'partial'
+ * - Dry-run previews that simulate a plan without touching history
+ * - Market lookup before anything executes: slugs resolved to token IDs,
+ *   outcomes checked against (or inferred from) the token's market
  */
 export class TradeRunnerService {
   private repository = getTradeRunnerRepository();
   private executorService = getExecutorService();
   private executorRepository = getExecutorRepository();
+  private preflightService = getPreflightService();
+  private marketLookupService = getMarketLookupService();
 
   /**
    * Execute a trade plan with full orchestration
    *
-   * @param plan - Trade plan to execute
+   * @param submittedPlan - Trade plan to execute (market lookup runs first)
    * @param skipIdempotencyCheck - If true, skip idempotency check (for testing/re-execution)
    * @returns Run summary with positions and P&L
    */
-  async executeTradePlan(plan: TradePlan, skipIdempotencyCheck = false): Promise<RunSummary> {
+  async executeTradePlan(
+    submittedPlan: SubmittedTradePlan,
+    skipIdempotencyCheck = false
+  ): Promise<RunSummary> {
     const startedAt = new Date();
+    const plan = await this.marketLookupService.resolvePlan(submittedPlan);
 
     runnerLogger.info(
       { planId: plan.planId, mode: plan.mode, tradeCount: plan.trades.length, skipIdempotencyCheck },
@@ -61,10 +82,10 @@ export class TradeRunnerService {
       );
     }
 
-    // Step 2: Create execution history record (status: running)
+    // Step 2: Create execution history record (status: running), keeping the plan as submitted
     await this.repository.createExecutionHistory({
       planId: executionPlanId,
-      planJson: plan,
+      planJson: submittedPlan,
       status: 'running',
       startedAt,
     });
@@ -74,24 +95,32 @@ export class TradeRunnerService {
     try {
       // Step 3: Execute all trades via executor service
       const executionResults = await this.executorService.executeTradePlan(plan);
+      const errors = executionResults
+        .filter((result) => result.status === 'failed')
+        .map(
+          (result) =>
+            `Order ${result.orderId}${result.trade.id ? ` (trade '${result.trade.id}')` : ''}: ${result.errorMessage}`
+        );
 
       runnerLogger.info(
-        { planId: plan.planId, executedTrades: executionResults.length },
-        'All trades executed successfully'
+        { planId: plan.planId, executedTrades: executionResults.length, failedTrades: errors.length },
+        errors.length > 0 ? 'Trades executed with failures' : 'All trades executed successfully'
       );
 
       // Step 4: Calculate final positions and P&L
       const summary = await this.generateRunSummary(
         plan,
         startedAt,
-        Date.now()
+        Date.now(),
+        errors
       );
 
-      // Step 5: Update execution history (status: completed)
+      // Step 5: Update execution history (status: completed, or partial if trades failed)
       await this.repository.completeExecutionHistory(
         executionPlanId,
         summary,
-        'completed'
+        errors.length > 0 ? 'partial' : 'completed',
+        errors.length > 0 ? errors.join('\n') : undefined
       );
 
       runnerLogger.info(
@@ -125,6 +154,88 @@ export class TradeRunnerService {
     }
   }
 
+  /**
+   * Preview a trade plan without executing it
+   *
+   * Simulates every trade with the paper fill logic against current books
+   * and positions. Nothing is written: no idempotency check, no execution
+   * history, no orders, so the planId stays free.
+   *
+   * @param submittedPlan - Trade plan to preview (market lookup runs first)
+   * @returns Projected fills, positions and exposure
+   */
+  async previewTradePlan(submittedPlan: SubmittedTradePlan): Promise<PlanPreview> {
+    const plan = await this.marketLookupService.resolvePlan(submittedPlan);
+
+    runnerLogger.info(
+      { planId: plan.planId, mode: plan.mode, tradeCount: plan.trades.length },
+      'Previewing trade plan (dry run)'
+    );
+
+    const { quotes, issues } = await this.preflightService.checkPlan(plan);
+
+    // Quotes are in execution order: the first sets "before", the last "after"
+    const positionMap = new Map<string, PreviewPosition>();
+    for (const quote of quotes) {
+      const key = `${quote.trade.marketTokenId}:${quote.trade.outcome}`;
+      const position = positionMap.get(key) ?? {
+        marketTokenId: quote.trade.marketTokenId,
+        outcome: quote.trade.outcome,
+        quantityBefore: quote.positionBefore,
+        quantityAfter: quote.positionBefore,
+      };
+      position.quantityAfter = quote.positionAfter;
+      positionMap.set(key, position);
+    }
+
+    const positions = Array.from(positionMap.values());
+    for (const position of positions) {
+      try {
+        position.midpoint = await getReferencePrice(position.marketTokenId, 'midpoint');
+        position.exposure = position.quantityAfter * position.midpoint;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        runnerLogger.warn(
+          { marketTokenId: position.marketTokenId, error: errorMessage },
+          'Midpoint unavailable - exposure not valued'
+        );
+      }
+    }
+
+    const notional = (side: 'BUY' | 'SELL') =>
+      quotes
+        .filter((quote) => quote.trade.side === side)
+        .reduce((total, quote) => total + quote.notional, 0);
+
+    const preview: PlanPreview = {
+      planId: plan.planId,
+      mode: plan.mode,
+      quotes,
+      positions,
+      totalBuyNotional: notional('BUY'),
+      totalSellNotional: notional('SELL'),
+      estimatedFees: quotes.reduce(
+        (total, quote) => total + calculateFee(quote.notional, 'taker'),
+        0
+      ),
+      totalExposure: positions.reduce((total, position) => total + (position.exposure ?? 0), 0),
+      issues,
+    };
+
+    runnerLogger.info(
+      {
+        planId: plan.planId,
+        quoted: quotes.length,
+        totalBuyNotional: preview.totalBuyNotional,
+        totalSellNotional: preview.totalSellNotional,
+        issues,
+      },
+      'Trade plan preview generated'
+    );
+
+    return preview;
+  }
+
   /**
    * Generate run summary from execution results
    *
@@ -133,10 +244,18 @@ export class TradeRunnerService {
   private async generateRunSummary(
     plan: TradePlan,
     startedAt: Date,
-    endTimeMs: number
+    endTimeMs: number,
+    errors: string[]
   ): Promise<RunSummary> {
     runnerLogger.debug({ planId: plan.planId }, 'Generating run summary');
 
+    // Expire this plan's good-til-date paper orders first so they aren't
+    // counted as open. Live orders only expire once a sweep sees the CLOB
+    // expire them, so fills it matched first are recorded.
+    if (plan.mode === 'paper') {
+      await this.executorRepository.expireOrders(plan.mode, new Date(), { planId: plan.planId });
+    }
+
     // Get all orders for this plan
     const orders = await this.executorRepository.getOrdersByPlanId(plan.planId);
 
@@ -146,10 +265,17 @@ export class TradeRunnerService {
     const ordersPartiallyFilled = orders.filter(
       (o) => o.status === 'partially_filled'
     ).length;
+    const ordersPending = orders.filter((o) => o.status === 'pending').length;
+    const ordersTriggered = orders.filter((o) => o.status === 'triggered').length;
+    const ordersWorking = orders.filter((o) => o.status === 'working').length;
+    const ordersCancelled = orders.filter((o) => o.status === 'cancelled').length;
+    const ordersExpired = orders.filter((o) => o.status === 'expired').length;
     const ordersFailed = orders.filter((o) => o.status === 'failed').length;
 
     // Calculate positions for each unique market token + outcome
     const positionMap = new Map<string, Position>();
+    let totalGrossPnL = 0;
+    let totalFees = 0;
     let totalPnL = 0;
 
     for (const order of orders) {
@@ -169,9 +295,13 @@ export class TradeRunnerService {
             netQuantity: position.netQuantity,
             avgPrice: position.avgPrice,
             totalCost: position.netQuantity * position.avgPrice,
+            grossPnL: position.grossPnL,
+            fees: position.fees,
             realizedPnL: position.realizedPnL,
           });
 
+          totalGrossPnL += position.grossPnL;
+          totalFees += position.fees;
           totalPnL += position.realizedPnL;
         }
       }
@@ -186,9 +316,17 @@ export class TradeRunnerService {
       ordersFilled,
       ordersOpen,
       ordersPartiallyFilled,
+      ordersPending,
+      ordersTriggered,
+      ordersWorking,
+      ordersCancelled,
+      ordersExpired,
       ordersFailed,
+      totalGrossPnL,
+      totalFees,
       totalPnL,
       positions,
+      errors: errors.length > 0 ? errors : undefined,
       startedAt,
       completedAt: new Date(endTimeMs),
       durationMs: endTimeMs - startedAt.getTime(),
@@ -201,6 +339,8 @@ export class TradeRunnerService {
         ordersFilled: summary.ordersFilled,
         ordersOpen: summary.ordersOpen,
         positionCount: positions.length,
+        totalGrossPnL: summary.totalGrossPnL,
+        totalFees: summary.totalFees,
         totalPnL: summary.totalPnL,
       },
       'Run summary generated'
@@ -1,3 +1,5 @@
+import type { TradeQuote } from '../preflight/preflight.types.js';
+
 /**
  * Trade Runner Types
  *
@@ -11,9 +13,11 @@ export interface Position {
   marketTokenId: string;
   outcome: 'YES' | 'NO';
   netQuantity: number; // Can be negative for short positions
-  avgPrice: number;
-  totalCost: number; // Total USDC spent/received
-  realizedPnL: number; // Realized profit/loss from closed positions
+  avgPrice: number; // Includes fees
+  totalCost: number; // Total USDC spent/received, including fees
+  grossPnL: number; // Realized profit/loss before fees
+  fees: number; // Fees charged against realized P&L
+  realizedPnL: number; // Realized profit/loss from closed positions, net of fees
 }
 
 /**
@@ -26,15 +30,49 @@ export interface RunSummary {
   ordersFilled: number;
   ordersOpen: number; // LIMIT orders waiting for price (Phase 7)
   ordersPartiallyFilled: number;
+  ordersPending: number; // STOP / TAKE_PROFIT / TRAILING_STOP orders waiting for their trigger
+  ordersTriggered: number; // Trigger orders that fired (placed order counted separately)
+  ordersWorking: number; // Sliced (TWAP) parents with slices still to place or fill (child orders counted separately)
+  ordersCancelled: number; // Includes IOC/FOK orders with unfilled size
+  ordersExpired: number; // Good-til-date orders past expires_at
   ordersFailed: number;
-  totalPnL: number; // Total realized P&L across all trades
+  totalGrossPnL: number; // Total realized P&L before fees
+  totalFees: number; // Total fees charged against realized P&L
+  totalPnL: number; // Total realized P&L across all trades, net of fees
   positions: Position[];
-  errors?: string[]; // List of error messages if any trades failed
+  errors?: string[]; // Failed trades of an onError 'continue' plan (the run is recorded as 'partial')
   startedAt: Date;
   completedAt: Date;
   durationMs: number;
 }
 
+/**
+ * Projected position once a previewed plan's immediate fills land
+ */
+export interface PreviewPosition {
+  marketTokenId: string;
+  outcome: 'YES' | 'NO';
+  quantityBefore: number; // Tokens held before the plan
+  quantityAfter: number; // Tokens held after the plan's immediate fills
+  midpoint?: number; // Undefined if the midpoint could not be fetched
+  exposure?: number; // quantityAfter valued at the midpoint (USDC)
+}
+
+/**
+ * Dry-run preview of a trade plan (nothing is written to the database)
+ */
+export interface PlanPreview {
+  planId: string;
+  mode: 'paper' | 'live';
+  quotes: TradeQuote[]; // Simulated trades, in execution order
+  positions: PreviewPosition[];
+  totalBuyNotional: number; // USDC spent on immediate BUY fills
+  totalSellNotional: number; // USDC received from immediate SELL fills
+  estimatedFees: number; // Taker fees on immediate fills
+  totalExposure: number; // Sum of position exposures that could be valued
+  issues: string[]; // Trades that would not land in full (FOK kills, missing positions, ...)
+}
+
 /**
  * Execution result for a single trade
  */
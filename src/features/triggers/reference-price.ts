@@ -0,0 +1,19 @@
+import { getPolymarketAdapter } from '../../integrations/polymarket/polymarket.adapter.js';
+import type { TriggerReference } from '../../domain/schemas/trade-plan.schema.js';
+
+/**
+ * Fetch the reference price trigger orders are evaluated against
+ *
+ * @param marketTokenId - Token to price
+ * @param reference - midpoint (default) or last_trade
+ */
+export async function getReferencePrice(
+  marketTokenId: string,
+  reference: TriggerReference = 'midpoint'
+): Promise<number> {
+  const adapter = getPolymarketAdapter();
+
+  return reference === 'last_trade'
+    ? await adapter.getLastTradePrice(marketTokenId)
+    : await adapter.getMidPoint(marketTokenId);
+}
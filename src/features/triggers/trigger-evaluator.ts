@@ -0,0 +1,85 @@
+import type { Trade, TriggerOrderType } from '../../domain/schemas/trade-plan.schema.js';
+
+/**
+ * Trigger Evaluator
+ *
+ * Pure helpers deciding when a STOP / TAKE_PROFIT / TRAILING_STOP order fires
+ * and what it becomes once it does. No I/O.
+ */
+
+/**
+ * Whether a trigger order fires at the given reference price
+ *
+ * - STOP SELL / TAKE_PROFIT BUY fire when the price falls to the trigger
+ * - STOP BUY / TAKE_PROFIT SELL fire when the price rises to the trigger
+ * - TRAILING_STOP (SELL only) fires like a STOP SELL at its current stop level
+ */
+export function isTriggered(
+  orderType: TriggerOrderType,
+  side: 'BUY' | 'SELL',
+  triggerPrice: number,
+  referencePrice: number
+): boolean {
+  const firesOnRise = (orderType !== 'TAKE_PROFIT') === (side === 'BUY');
+  return firesOnRise ? referencePrice >= triggerPrice : referencePrice <= triggerPrice;
+}
+
+/**
+ * Stop level of a trailing stop for a given high-water mark
+ *
+ * @param highWaterMark - Best reference price observed since placement
+ * @param trailingOffset - Fixed price distance below the high-water mark
+ * @param trailingPercent - Percentage distance below the high-water mark
+ */
+export function trailingStopPrice(
+  highWaterMark: number,
+  trailingOffset?: number,
+  trailingPercent?: number
+): number {
+  const stop =
+    trailingOffset !== undefined
+      ? highWaterMark - trailingOffset
+      : highWaterMark * (1 - (trailingPercent ?? 0) / 100);
+
+  return Math.max(stop, 0);
+}
+
+/**
+ * Raise a trailing stop's high-water mark to a new reference price
+ *
+ * The mark only ever moves up, and the stop level follows it.
+ *
+ * @returns New high-water mark and stop level, or null if the price is no new high
+ */
+export function raiseHighWaterMark(
+  highWaterMark: number,
+  referencePrice: number,
+  trailingOffset?: number,
+  trailingPercent?: number
+): { highWaterMark: number; triggerPrice: number } | null {
+  if (referencePrice <= highWaterMark) {
+    return null;
+  }
+
+  return {
+    highWaterMark: referencePrice,
+    triggerPrice: trailingStopPrice(referencePrice, trailingOffset, trailingPercent),
+  };
+}
+
+/**
+ * Convert a fired trigger trade into the order it places
+ *
+ * Trigger orders with a price become LIMIT orders at that price; without one
+ * they become MARKET orders (keeping any maxPrice / minPrice protection).
+ */
+export function toTriggeredTrade(trade: Trade): Trade {
+  return {
+    ...trade,
+    orderType: trade.price === undefined ? 'MARKET' : 'LIMIT',
+    triggerPrice: undefined,
+    triggerReference: undefined,
+    trailingOffset: undefined,
+    trailingPercent: undefined,
+  };
+}
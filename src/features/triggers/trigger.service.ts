@@ -0,0 +1,235 @@
+import { getExecutorRepository } from '../executor/executor.repository.js';
+import { getExecutorService } from '../executor/executor.service.js';
+import { orderToTrade } from '../executor/order.mapper.js';
+import { getOrderGroupService } from '../order-groups/order-group.service.js';
+import { logger } from '../../infrastructure/logging/logger.js';
+import type { Order } from '../../infrastructure/database/schema.js';
+import type { TriggerOrderType } from '../../domain/schemas/trade-plan.schema.js';
+import { getReferencePrice } from './reference-price.js';
+import { isTriggered, raiseHighWaterMark, toTriggeredTrade } from './trigger-evaluator.js';
+import type { EvaluatedTrigger, TriggerEvaluationSummary } from './trigger.types.js';
+
+const triggerLogger = logger.child({ module: 'trigger-service' });
+
+/**
+ * Trigger Service
+ *
+ * Evaluates dormant STOP / TAKE_PROFIT / TRAILING_STOP orders against their
+ * reference price (midpoint or last trade). A fired order is marked 'triggered' and placed as
+ * a MARKET or LIMIT child order (linked via parent_order_id) through the
+ * normal executor, so fills, fees and position checks behave as for any
+ * other trade.
+ *
+ * Trailing stops first ratchet their persisted high-water mark (and stop
+ * level) up to the observed price, so the stop only ever tightens. Prices
+ * are observed at evaluation time, i.e. on each sweep.
+ *
+ * BRACKET exits are only evaluated once their entry has filled, and are
+ * cancelled if the entry ends without filling.
+ *
+ * A failure on one order (missing price, insufficient position, ...) leaves
+ * it pending for the next evaluation; the remaining orders are still checked.
+ */
+export class TriggerService {
+  private executorRepository = getExecutorRepository();
+  private executorService = getExecutorService();
+  private orderGroupService = getOrderGroupService();
+
+  /**
+   * Evaluate all pending trigger orders for a mode
+   *
+   * @returns Evaluation summary with per-order results
+   */
+  async evaluatePendingOrders(mode: 'paper' | 'live'): Promise<TriggerEvaluationSummary> {
+    const pendingOrders = await this.executorRepository.getPendingTriggerOrders(mode);
+
+    triggerLogger.info(
+      { mode, orderCount: pendingOrders.length },
+      'Evaluating pending trigger orders'
+    );
+
+    // Reference prices are fetched once per token and reference per evaluation
+    const referencePrices = new Map<string, Promise<number>>();
+    const evaluated: EvaluatedTrigger[] = [];
+    const errors: string[] = [];
+
+    for (const order of pendingOrders) {
+      const result: EvaluatedTrigger = {
+        orderId: order.id,
+        planId: order.planId,
+        marketTokenId: order.marketTokenId,
+        orderType: order.orderType as TriggerOrderType,
+        side: order.side,
+        triggerPrice: parseFloat(order.triggerPrice!),
+        triggerReference: order.triggerReference ?? 'midpoint',
+        status: 'pending',
+      };
+
+      try {
+        if (order.orderGroupType === 'BRACKET' && order.orderGroupRole === 'exit') {
+          const exitState = await this.orderGroupService.getBracketExitState(order);
+
+          if (exitState === 'waiting') {
+            result.status = 'waiting';
+            evaluated.push(result);
+            continue;
+          }
+
+          if (exitState === 'orphaned') {
+            await this.orderGroupService.cancelOrphanedExit(order);
+            result.status = 'cancelled';
+            evaluated.push(result);
+            continue;
+          }
+        }
+
+        const key = `${order.marketTokenId}:${result.triggerReference}`;
+        if (!referencePrices.has(key)) {
+          referencePrices.set(
+            key,
+            getReferencePrice(order.marketTokenId, result.triggerReference)
+          );
+        }
+        result.referencePrice = await referencePrices.get(key)!;
+
+        if (order.orderType === 'TRAILING_STOP') {
+          await this.ratchetTrailingStop(order, result);
+        }
+
+        if (
+          isTriggered(result.orderType, result.side, result.triggerPrice, result.referencePrice)
+        ) {
+          await this.fireTrigger(order, result);
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+
+        triggerLogger.warn(
+          { orderId: order.id, error: errorMessage },
+          'Failed to evaluate trigger order - leaving pending'
+        );
+
+        result.status = 'failed';
+        result.errorMessage = errorMessage;
+        errors.push(`Order ${order.id}: ${errorMessage}`);
+      }
+
+      evaluated.push(result);
+    }
+
+    const summary: TriggerEvaluationSummary = {
+      mode,
+      ordersEvaluated: evaluated.length,
+      ordersTriggered: evaluated.filter((o) => o.status === 'triggered').length,
+      trailingStopsRatcheted: evaluated.filter((o) => o.ratcheted).length,
+      orders: evaluated,
+      errors,
+    };
+
+    triggerLogger.info(
+      {
+        mode,
+        ordersEvaluated: summary.ordersEvaluated,
+        ordersTriggered: summary.ordersTriggered,
+        trailingStopsRatcheted: summary.trailingStopsRatcheted,
+        errorCount: errors.length,
+      },
+      'Trigger evaluation completed'
+    );
+
+    return summary;
+  }
+
+  /**
+   * Claim a fired trigger order and place its MARKET / LIMIT child order
+   *
+   * The claim is released if placement fails so the trigger is retried.
+   */
+  private async fireTrigger(order: Order, result: EvaluatedTrigger): Promise<void> {
+    const claimed = await this.executorRepository.claimTriggerOrder(
+      order.id,
+      result.referencePrice!
+    );
+
+    if (!claimed) {
+      // Cancelled (e.g. by a filled group sibling) or fired by a concurrent
+      // evaluation since it was fetched
+      const current = await this.executorRepository.getOrderById(order.id);
+      if (current?.status === 'cancelled') {
+        result.status = 'cancelled';
+      }
+      return;
+    }
+
+    triggerLogger.info(
+      {
+        orderId: order.id,
+        orderType: result.orderType,
+        triggerPrice: result.triggerPrice,
+        referencePrice: result.referencePrice,
+      },
+      'Trigger fired - placing order'
+    );
+
+    try {
+      const placed = await this.executorService.executeTrade(
+        order.planId,
+        toTriggeredTrade(orderToTrade(order)),
+        order.mode,
+        { parentOrderId: order.id }
+      );
+
+      result.status = 'triggered';
+      result.placedOrderId = placed.orderId;
+      result.placedOrderStatus = placed.status;
+    } catch (error) {
+      await this.executorRepository.releaseTriggerOrder(order.id);
+      throw error;
+    }
+  }
+
+  /**
+   * Raise a trailing stop's high-water mark if the reference price made a new high
+   *
+   * Updates `result` with the (possibly new) mark and stop level.
+   */
+  private async ratchetTrailingStop(order: Order, result: EvaluatedTrigger): Promise<void> {
+    const referencePrice = result.referencePrice!;
+    const highWaterMark = order.highWaterMark ? parseFloat(order.highWaterMark) : 0;
+    result.highWaterMark = highWaterMark;
+
+    const raised = raiseHighWaterMark(
+      highWaterMark,
+      referencePrice,
+      order.trailingOffset ? parseFloat(order.trailingOffset) : undefined,
+      order.trailingPercent ? parseFloat(order.trailingPercent) : undefined
+    );
+    if (!raised) {
+      return;
+    }
+
+    const ratcheted = await this.executorRepository.ratchetTrailingStop(
+      order.id,
+      raised.highWaterMark,
+      raised.triggerPrice
+    );
+
+    if (ratcheted) {
+      result.highWaterMark = raised.highWaterMark;
+      result.triggerPrice = raised.triggerPrice;
+      result.ratcheted = true;
+    }
+  }
+}
+
+/**
+ * Singleton trigger service instance
+ */
+let serviceInstance: TriggerService | null = null;
+
+export function getTriggerService(): TriggerService {
+  if (!serviceInstance) {
+    serviceInstance = new TriggerService();
+  }
+  return serviceInstance;
+}
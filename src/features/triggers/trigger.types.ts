@@ -0,0 +1,39 @@
+import type { TriggerOrderType } from '../../domain/schemas/trade-plan.schema.js';
+
+/**
+ * Trigger Types
+ *
+ * Evaluation of dormant STOP / TAKE_PROFIT / TRAILING_STOP orders
+ */
+
+/**
+ * Outcome of evaluating a single pending trigger order
+ */
+export interface EvaluatedTrigger {
+  orderId: string;
+  planId: string;
+  marketTokenId: string;
+  orderType: TriggerOrderType;
+  side: 'BUY' | 'SELL';
+  triggerPrice: number; // Trailing stops: stop level after this evaluation
+  triggerReference: 'midpoint' | 'last_trade';
+  referencePrice?: number; // Undefined if the reference price could not be fetched
+  highWaterMark?: number; // TRAILING_STOP only: best reference price observed so far
+  ratcheted?: boolean; // TRAILING_STOP only: mark and stop moved up this evaluation
+  status: 'pending' | 'waiting' | 'triggered' | 'cancelled' | 'failed'; // 'waiting': BRACKET exit before its entry fills, 'cancelled': BRACKET entry ended unfilled, 'failed': left pending for the next evaluation
+  placedOrderId?: string; // Child order placed when the trigger fired
+  placedOrderStatus?: string;
+  errorMessage?: string;
+}
+
+/**
+ * Summary generated after evaluating pending trigger orders
+ */
+export interface TriggerEvaluationSummary {
+  mode: 'paper' | 'live';
+  ordersEvaluated: number;
+  ordersTriggered: number;
+  trailingStopsRatcheted: number;
+  orders: EvaluatedTrigger[];
+  errors: string[]; // Triggers that could not be evaluated or placed (left pending)
+}
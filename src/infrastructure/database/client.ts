@@ -1,3 +1,4 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { drizzle } from 'drizzle-orm/postgres-js';
 import { sql } from 'drizzle-orm';
 import postgres from 'postgres';
@@ -14,6 +15,14 @@ const dbLogger = logger.child({ module: 'database' });
 let client: postgres.Sql | null = null;
 let db: ReturnType<typeof drizzle> | null = null;
 
+type Database = ReturnType<typeof drizzle>;
+type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+
+/**
+ * Transaction opened by withTransaction for the current async call chain
+ */
+const transactionStorage = new AsyncLocalStorage<Transaction>();
+
 /**
  * Initialize database connection
  * Creates a singleton connection pool
@@ -44,15 +53,37 @@ function initializeClient() {
  * Get database instance
  * Lazy initialization - creates connection on first access
  *
- * @returns Drizzle database instance
+ * Inside withTransaction this is the open transaction, so repositories
+ * join it without passing it around.
+ *
+ * @returns Drizzle database instance (or the current transaction)
  */
-export function getDb() {
+export function getDb(): Database | Transaction {
+  const transaction = transactionStorage.getStore();
+  if (transaction) {
+    return transaction;
+  }
   if (!db) {
     return initializeClient();
   }
   return db;
 }
 
+/**
+ * Run a callback in a single database transaction
+ *
+ * Every getDb() call made while the callback runs uses the transaction:
+ * it commits when the callback resolves and rolls back if it throws.
+ *
+ * @param callback - Work to run atomically
+ * @returns The callback's result
+ */
+export async function withTransaction<T>(callback: () => Promise<T>): Promise<T> {
+  return await getDb().transaction(async (transaction) =>
+    transactionStorage.run(transaction, callback)
+  );
+}
+
 /**
  * Close database connection
  * Use this for graceful shutdown
@@ -4,8 +4,12 @@ import {
   uuid,
   timestamp,
   decimal,
+  integer,
+  bigserial,
   jsonb,
   index,
+  primaryKey,
+  type AnyPgColumn,
 } from 'drizzle-orm/pg-core';
 
 /**
@@ -25,7 +29,12 @@ export const executionHistory = pgTable(
 
     // Execution lifecycle status
     status: text('status', {
-      enum: ['running', 'completed', 'failed'],
+      enum: [
+        'running',
+        'completed',
+        'partial', // onError 'continue': finished with one or more failed trades
+        'failed',
+      ],
     }).notNull(),
 
     // Timestamps
@@ -68,16 +77,48 @@ export const orders = pgTable(
 
     // Order parameters
     side: text('side', { enum: ['BUY', 'SELL'] }).notNull(),
-    orderType: text('order_type', { enum: ['MARKET', 'LIMIT'] }).notNull(),
-    size: decimal('size', { precision: 20, scale: 6 }).notNull(), // USDC collateral amount
+    orderType: text('order_type', {
+      enum: ['MARKET', 'LIMIT', 'STOP', 'TAKE_PROFIT', 'TRAILING_STOP'],
+    }).notNull(),
+    timeInForce: text('time_in_force', { enum: ['GTC', 'IOC', 'FOK'] }), // Nullable for orders placed before TIF support
+    size: decimal('size', { precision: 20, scale: 6 }).notNull(), // In size_unit: USDC collateral or outcome tokens
+    sizeUnit: text('size_unit', { enum: ['usdc', 'shares'] }).notNull().default('usdc'),
+    positionPercent: decimal('position_percent', { precision: 7, scale: 4 }), // closePosition / percentOfPosition: size resolved from the position (pending trigger orders re-resolve when they fire)
     price: decimal('price', { precision: 10, scale: 6 }), // Limit price (0-1 range), nullable for MARKET orders
+    priceCap: decimal('price_cap', { precision: 10, scale: 6 }), // MARKET price protection: maxPrice (BUY) / minPrice (SELL)
 
     // Order state
     status: text('status', {
-      enum: ['open', 'filled', 'partially_filled', 'cancelled', 'failed'],
+      enum: [
+        'pending', // Dormant trigger order waiting for its trigger price
+        'triggered', // Trigger fired; the placed order is a child (parent_order_id)
+        'working', // Sliced (TWAP) parent placing child orders across runs
+        'open',
+        'filled',
+        'partially_filled',
+        'cancelled',
+        'failed',
+        'expired',
+      ],
     }).notNull(),
     mode: text('mode', { enum: ['paper', 'live'] }).notNull(),
 
+    // Trigger parameters (STOP / TAKE_PROFIT / TRAILING_STOP)
+    triggerPrice: decimal('trigger_price', { precision: 10, scale: 6 }), // Trailing stops: current stop level
+    triggerReference: text('trigger_reference', { enum: ['midpoint', 'last_trade'] }),
+    triggeredAt: timestamp('triggered_at', { withTimezone: true }),
+    triggeredReferencePrice: decimal('triggered_reference_price', { precision: 10, scale: 6 }), // Reference price observed when the trigger fired
+
+    // Trailing stop: distance below the high-water mark, and the best
+    // reference price observed so far (persisted so it survives between runs)
+    trailingOffset: decimal('trailing_offset', { precision: 10, scale: 6 }),
+    trailingPercent: decimal('trailing_percent', { precision: 10, scale: 4 }),
+    highWaterMark: decimal('high_water_mark', { precision: 10, scale: 6 }),
+    highWaterMarkAt: timestamp('high_water_mark_at', { withTimezone: true }),
+
+    // Good-til-date: working orders move to 'expired' once this passes
+    expiresAt: timestamp('expires_at', { withTimezone: true }),
+
     // Timestamps
     createdAt: timestamp('created_at', { withTimezone: true })
       .notNull()
@@ -85,6 +126,39 @@ export const orders = pgTable(
 
     // Phase 3+: External order ID for reconciliation with Polymarket
     externalOrderId: text('external_order_id'),
+
+    // Cancellation audit (who cancelled the order, when and why)
+    cancelledAt: timestamp('cancelled_at', { withTimezone: true }),
+    cancelledBy: text('cancelled_by'),
+    cancelReason: text('cancel_reason'),
+
+    // Failure details for 'failed' orders (trades that errored in an
+    // onError 'continue' plan)
+    errorMessage: text('error_message'),
+
+    // Sliced (TWAP) parent: size is worked through child orders
+    // (parent_order_id) placed at least slice_interval_minutes apart
+    sliceCount: integer('slice_count'),
+    sliceIntervalMinutes: decimal('slice_interval_minutes', { precision: 10, scale: 2 }),
+    slicesPlaced: integer('slices_placed'),
+    nextSliceAt: timestamp('next_slice_at', { withTimezone: true }),
+
+    // OCO / BRACKET group (group IDs are scoped to the plan): a fill on one
+    // leg cancels its working and pending siblings
+    orderGroupId: text('order_group_id'),
+    orderGroupType: text('order_group_type', { enum: ['OCO', 'BRACKET'] }),
+    orderGroupRole: text('order_group_role', { enum: ['entry', 'exit'] }),
+
+    // Lineage: the order this one replaced (cancel/replace chain), or the
+    // trigger order or sliced parent that placed it
+    parentOrderId: uuid('parent_order_id').references(
+      (): AnyPgColumn => orders.id
+    ),
+    // Cancel/replace chain: the amendment that replaced this order
+    // (parent_order_id alone does not tell amendments from other children)
+    replacedByOrderId: uuid('replaced_by_order_id').references(
+      (): AnyPgColumn => orders.id
+    ),
   },
   (table) => ({
     // Indexes for common queries
@@ -94,6 +168,10 @@ export const orders = pgTable(
       table.status
     ),
     statusIdx: index('orders_status_idx').on(table.status),
+    parentOrderIdx: index('orders_parent_order_id_idx').on(table.parentOrderId),
+    expiresAtIdx: index('orders_expires_at_idx').on(table.expiresAt),
+    nextSliceAtIdx: index('orders_next_slice_at_idx').on(table.nextSliceAt),
+    orderGroupIdx: index('orders_order_group_idx').on(table.planId, table.orderGroupId),
   })
 );
 
@@ -117,6 +195,7 @@ export const executions = pgTable(
     // Fill details
     quantity: decimal('quantity', { precision: 20, scale: 6 }).notNull(), // Token quantity filled
     price: decimal('price', { precision: 10, scale: 6 }).notNull(), // Actual execution price
+    fee: decimal('fee', { precision: 20, scale: 6 }).notNull().default('0'), // USDC fee charged on this fill
 
     // Timestamp
     executedAt: timestamp('executed_at', { withTimezone: true })
@@ -125,6 +204,10 @@ export const executions = pgTable(
 
     // Phase 3+: External execution ID for reconciliation with Polymarket
     externalExecutionId: text('external_execution_id'),
+
+    // Insertion order: fills of one transaction share executed_at, and
+    // replaying the lot ledger must see them in the order they were applied
+    sequence: bigserial('sequence', { mode: 'number' }).notNull(),
   },
   (table) => ({
     // Indexes for position calculation queries
@@ -133,6 +216,133 @@ export const executions = pgTable(
   })
 );
 
+/**
+ * Positions Table
+ *
+ * Running buy/sell totals, open cost basis and realized P&L per market
+ * token, outcome and mode, updated in the same transaction as every
+ * execution so positions are read without rescanning the executions log.
+ * Derived data: rebuild:positions replays it from executions.
+ */
+export const positions = pgTable(
+  'positions',
+  {
+    // Position key (matches orders.market_token_id / outcome / mode)
+    marketTokenId: text('market_token_id').notNull(),
+    outcome: text('outcome', { enum: ['YES', 'NO'] }).notNull(),
+    mode: text('mode', { enum: ['paper', 'live'] }).notNull(),
+
+    // BUY executions: token quantity, notional (quantity * price) and fees
+    buyQuantity: decimal('buy_quantity', { precision: 20, scale: 6 }).notNull().default('0'),
+    buyTotal: decimal('buy_total', { precision: 30, scale: 12 }).notNull().default('0'),
+    buyFees: decimal('buy_fees', { precision: 20, scale: 6 }).notNull().default('0'),
+
+    // SELL executions: token quantity, notional (quantity * price) and fees
+    sellQuantity: decimal('sell_quantity', { precision: 20, scale: 6 }).notNull().default('0'),
+    sellTotal: decimal('sell_total', { precision: 30, scale: 12 }).notNull().default('0'),
+    sellFees: decimal('sell_fees', { precision: 20, scale: 6 }).notNull().default('0'),
+
+    // Lot ledger totals: cost basis (notional and buy fees) of the open lots,
+    // and realized P&L of every lot closure (see position_lots / lot_closures)
+    openCost: decimal('open_cost', { precision: 30, scale: 12 }).notNull().default('0'),
+    openFees: decimal('open_fees', { precision: 30, scale: 12 }).notNull().default('0'),
+    realizedGrossPnl: decimal('realized_gross_pnl', { precision: 30, scale: 12 }).notNull().default('0'),
+    realizedFees: decimal('realized_fees', { precision: 30, scale: 12 }).notNull().default('0'),
+
+    // Timestamp of the last execution applied
+    updatedAt: timestamp('updated_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.marketTokenId, table.outcome, table.mode] }),
+    modeIdx: index('positions_mode_idx').on(table.mode),
+  })
+);
+
+/**
+ * Position Lots Table
+ *
+ * One lot per BUY execution. SELL executions close lots (oldest first, or
+ * every open lot pro rata under average cost); the remaining columns track
+ * what is still open. Derived data: rebuild:positions replays it from
+ * executions.
+ */
+export const positionLots = pgTable(
+  'position_lots',
+  {
+    // Primary key
+    id: uuid('id').primaryKey().defaultRandom(),
+
+    // Position the lot belongs to (matches positions)
+    marketTokenId: text('market_token_id').notNull(),
+    outcome: text('outcome', { enum: ['YES', 'NO'] }).notNull(),
+    mode: text('mode', { enum: ['paper', 'live'] }).notNull(),
+
+    // BUY execution that opened the lot
+    executionId: uuid('execution_id')
+      .notNull()
+      .references(() => executions.id, { onDelete: 'cascade' }),
+
+    // Opening size and cost basis: notional (quantity * price) and buy fee
+    quantity: decimal('quantity', { precision: 20, scale: 6 }).notNull(),
+    cost: decimal('cost', { precision: 30, scale: 12 }).notNull(),
+    fees: decimal('fees', { precision: 30, scale: 12 }).notNull(),
+
+    // Still open (reduced as SELLs close the lot; zero once fully closed)
+    remainingQuantity: decimal('remaining_quantity', { precision: 20, scale: 6 }).notNull(),
+    remainingCost: decimal('remaining_cost', { precision: 30, scale: 12 }).notNull(),
+    remainingFees: decimal('remaining_fees', { precision: 30, scale: 12 }).notNull(),
+  },
+  (table) => ({
+    positionIdx: index('position_lots_position_idx').on(
+      table.marketTokenId,
+      table.outcome,
+      table.mode
+    ),
+    executionIdx: index('position_lots_execution_id_idx').on(table.executionId),
+  })
+);
+
+/**
+ * Lot Closures Table
+ *
+ * Audit trail of realized P&L: which lots each SELL execution closed, the
+ * cost basis released and the proceeds booked against it.
+ */
+export const lotClosures = pgTable(
+  'lot_closures',
+  {
+    // Primary key
+    id: uuid('id').primaryKey().defaultRandom(),
+
+    // SELL execution that closed the lot
+    executionId: uuid('execution_id')
+      .notNull()
+      .references(() => executions.id, { onDelete: 'cascade' }),
+
+    // Lot closed (partly or in full)
+    lotId: uuid('lot_id')
+      .notNull()
+      .references(() => positionLots.id, { onDelete: 'cascade' }),
+
+    // Accounting method that chose the lot
+    method: text('method', { enum: ['fifo', 'average'] }).notNull(),
+
+    // Quantity closed, cost basis released (notional and buy fees) and the
+    // sale's proceeds and fee share for that quantity
+    quantity: decimal('quantity', { precision: 20, scale: 6 }).notNull(),
+    cost: decimal('cost', { precision: 30, scale: 12 }).notNull(),
+    buyFees: decimal('buy_fees', { precision: 30, scale: 12 }).notNull(),
+    proceeds: decimal('proceeds', { precision: 30, scale: 12 }).notNull(),
+    sellFees: decimal('sell_fees', { precision: 30, scale: 12 }).notNull(),
+  },
+  (table) => ({
+    executionIdx: index('lot_closures_execution_id_idx').on(table.executionId),
+    lotIdx: index('lot_closures_lot_id_idx').on(table.lotId),
+  })
+);
+
 // Export types for use in application code
 export type ExecutionHistory = typeof executionHistory.$inferSelect;
 export type NewExecutionHistory = typeof executionHistory.$inferInsert;
@@ -142,3 +352,12 @@ export type NewOrder = typeof orders.$inferInsert;
 
 export type Execution = typeof executions.$inferSelect;
 export type NewExecution = typeof executions.$inferInsert;
+
+export type PositionRecord = typeof positions.$inferSelect;
+export type NewPositionRecord = typeof positions.$inferInsert;
+
+export type PositionLot = typeof positionLots.$inferSelect;
+export type NewPositionLot = typeof positionLots.$inferInsert;
+
+export type LotClosure = typeof lotClosures.$inferSelect;
+export type NewLotClosure = typeof lotClosures.$inferInsert;
@@ -1,4 +1,5 @@
 import { ClobClient } from '@polymarket/clob-client';
+import { Wallet } from 'ethers';
 import { env } from '../../config/env.js';
 import { logger } from '../../infrastructure/logging/logger.js';
 
@@ -23,6 +24,49 @@ export function createClobClient(): ClobClient {
   return client;
 }
 
+/**
+ * Initialize authenticated Polymarket CLOB client
+ *
+ * Phase 3+: Signs orders with the configured wallet (L1) and authenticates
+ * trading requests with the API key credentials (L2 HMAC headers).
+ *
+ * @returns ClobClient instance able to create, post and cancel orders
+ * @throws Error if live trading credentials are not configured
+ */
+export function createAuthenticatedClobClient(): ClobClient {
+  const host = env.CLOB_API_URL;
+  const chainId = parseInt(env.CHAIN_ID, 10);
+
+  const privateKey = env.POLYMARKET_PRIVATE_KEY;
+  const key = env.POLYMARKET_API_KEY;
+  const secret = env.POLYMARKET_API_SECRET;
+  const passphrase = env.POLYMARKET_API_PASSPHRASE;
+
+  if (!privateKey || !key || !secret || !passphrase) {
+    throw new Error(
+      'Live trading requires POLYMARKET_PRIVATE_KEY, POLYMARKET_API_KEY, POLYMARKET_API_SECRET and POLYMARKET_API_PASSPHRASE to be configured'
+    );
+  }
+
+  const wallet = new Wallet(privateKey);
+  const signatureType = parseInt(env.POLYMARKET_SIGNATURE_TYPE, 10);
+  const funderAddress = env.POLYMARKET_FUNDER_ADDRESS || wallet.address;
+
+  logger.info(
+    { host, chainId, address: wallet.address, signatureType, funderAddress },
+    'Initializing authenticated Polymarket CLOB client'
+  );
+
+  return new ClobClient(
+    host,
+    chainId,
+    wallet,
+    { key, secret, passphrase },
+    signatureType,
+    funderAddress
+  );
+}
+
 /**
  * Singleton CLOB client instance
  * Lazy initialization on first access
@@ -35,3 +79,16 @@ export function getClobClient(): ClobClient {
   }
   return clobClientInstance;
 }
+
+/**
+ * Singleton authenticated CLOB client instance
+ * Lazy initialization so paper mode never requires credentials
+ */
+let authenticatedClobClientInstance: ClobClient | null = null;
+
+export function getAuthenticatedClobClient(): ClobClient {
+  if (!authenticatedClobClientInstance) {
+    authenticatedClobClientInstance = createAuthenticatedClobClient();
+  }
+  return authenticatedClobClientInstance;
+}
@@ -0,0 +1,162 @@
+import { env } from '../../config/env.js';
+import { logger } from '../../infrastructure/logging/logger.js';
+import { MarketNotFoundError } from '../../domain/errors/execution.error.js';
+import type { Outcome } from '../../domain/schemas/trade-plan.schema.js';
+import type { GammaMarket, GammaOutcomeToken } from './polymarket.types.js';
+
+const gammaLogger = logger.child({ module: 'gamma-adapter' });
+
+/**
+ * How long a market looked up on Gamma is reused before fetching it again
+ */
+const MARKET_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Give up on a Gamma request after this long
+ */
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/**
+ * Adapter for the Polymarket Gamma API (market metadata)
+ *
+ * The CLOB only knows token IDs; Gamma maps human-readable market slugs to
+ * the token ID of each outcome (and tokens back to their market). Markets
+ * are cached in memory per process.
+ */
+export class GammaAdapter {
+  private baseUrl = env.GAMMA_API_URL.replace(/\/+$/, '');
+  private cache = new Map<string, { market: GammaMarket; fetchedAt: number }>();
+
+  /**
+   * Look up a market by slug
+   *
+   * @param slug - Market slug (e.g. "will-it-rain-tomorrow")
+   * @returns Market metadata, or null if Gamma has no market with that slug
+   */
+  async getMarketBySlug(slug: string): Promise<GammaMarket | null> {
+    return this.lookup(`slug:${slug}`, { slug }, (market) => market.slug === slug);
+  }
+
+  /**
+   * Look up the market a CLOB token trades in
+   *
+   * @param tokenId - CLOB token ID of one of the market's outcomes
+   * @returns Market metadata (including its condition ID), or null if unknown
+   */
+  async getMarketByTokenId(tokenId: string): Promise<GammaMarket | null> {
+    return this.lookup(`token:${tokenId}`, { clob_token_ids: tokenId }, (market) =>
+      getOutcomeTokens(market).some((token) => token.tokenId === tokenId)
+    );
+  }
+
+  /**
+   * Resolve a market slug and outcome to the CLOB token ID that trades it
+   *
+   * @param slug - Market slug
+   * @param outcome - YES or NO (matched case-insensitively against Gamma's outcomes)
+   * @returns CLOB token ID
+   * @throws MarketNotFoundError if the slug is unknown
+   * @throws Error if the market has no such outcome or no CLOB tokens
+   */
+  async resolveTokenId(slug: string, outcome: Outcome): Promise<string> {
+    const market = await this.getMarketBySlug(slug);
+    if (!market) {
+      throw new MarketNotFoundError(slug);
+    }
+
+    const tokens = getOutcomeTokens(market);
+    const match = tokens.find((token) => token.outcome.toUpperCase() === outcome);
+    if (!match) {
+      const available = tokens.map((token) => token.outcome).join(', ') || 'none';
+      throw new Error(`Market '${slug}' has no ${outcome} outcome (outcomes: ${available})`);
+    }
+
+    gammaLogger.debug({ slug, outcome, tokenId: match.tokenId }, 'Market slug resolved');
+    return match.tokenId;
+  }
+
+  /**
+   * Fetch the market matching a /markets query, cached under `cacheKey`
+   */
+  private async lookup(
+    cacheKey: string,
+    params: Record<string, string>,
+    matches: (market: GammaMarket) => boolean
+  ): Promise<GammaMarket | null> {
+    const cached = this.cache.get(cacheKey);
+    if (cached && Date.now() - cached.fetchedAt < MARKET_CACHE_TTL_MS) {
+      gammaLogger.debug({ ...params }, 'Market served from cache');
+      return cached.market;
+    }
+
+    gammaLogger.debug({ ...params }, 'Fetching market');
+
+    try {
+      const markets = await this.get<GammaMarket[]>('/markets', params);
+      const market = markets.find(matches) ?? null;
+
+      if (market) {
+        this.cache.set(cacheKey, { market, fetchedAt: Date.now() });
+      }
+      gammaLogger.debug({ ...params, found: market !== null }, 'Market lookup completed');
+      return market;
+    } catch (error) {
+      gammaLogger.error({ ...params, error }, 'Failed to fetch market');
+      throw error;
+    }
+  }
+
+  /**
+   * GET a Gamma endpoint and parse its JSON body
+   */
+  private async get<T>(path: string, params: Record<string, string>): Promise<T> {
+    const url = `${this.baseUrl}${path}?${new URLSearchParams(params).toString()}`;
+    const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+
+    if (!response.ok) {
+      throw new Error(`Gamma API request failed: ${response.status} ${response.statusText} (${path})`);
+    }
+    return (await response.json()) as T;
+  }
+}
+
+/**
+ * Pair a Gamma market's outcomes with their CLOB token IDs
+ *
+ * @returns One entry per outcome, empty if the market has no CLOB tokens
+ */
+export function getOutcomeTokens(market: GammaMarket): GammaOutcomeToken[] {
+  const outcomes = parseJsonArray(market.outcomes);
+  const tokenIds = parseJsonArray(market.clobTokenIds);
+
+  return outcomes
+    .map((outcome, index) => ({ outcome, tokenId: tokenIds[index] }))
+    .filter((token): token is GammaOutcomeToken => token.tokenId !== undefined);
+}
+
+/**
+ * Parse one of Gamma's JSON-encoded string arrays (missing or malformed = empty)
+ */
+function parseJsonArray(value: string | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Singleton adapter instance
+ */
+let adapterInstance: GammaAdapter | null = null;
+
+export function getGammaAdapter(): GammaAdapter {
+  if (!adapterInstance) {
+    adapterInstance = new GammaAdapter();
+  }
+  return adapterInstance;
+}
@@ -1,14 +1,29 @@
-import { getClobClient } from './clob-client.js';
+import { OrderType, Side } from '@polymarket/clob-client';
+import { getClobClient, getAuthenticatedClobClient } from './clob-client.js';
 import { logger } from '../../infrastructure/logging/logger.js';
-import type { OrderBookSummary } from '@polymarket/clob-client';
+import { MarketNotFoundError } from '../../domain/errors/execution.error.js';
+import type { OpenOrder, OrderBookSummary } from '@polymarket/clob-client';
+import type {
+  ClobOrderState,
+  Market,
+  PostOrderResponse,
+  PostedOrder,
+} from './polymarket.types.js';
+import type { TimeInForce } from '../../domain/schemas/trade-plan.schema.js';
 
 const adapterLogger = logger.child({ module: 'polymarket-adapter' });
 
+/**
+ * Seconds the CLOB subtracts from a GTD expiration before it takes effect
+ */
+const GTD_SECURITY_THRESHOLD_SECONDS = 60;
+
 /**
  * Domain-specific adapter for Polymarket CLOB operations
  *
  * Wraps @polymarket/clob-client with BetterOMS-specific abstractions
  * Phase 1: Read-only market data operations
+ * Phase 3+: Authenticated order placement for live trading
  */
 export class PolymarketAdapter {
   private client = getClobClient();
@@ -39,6 +54,52 @@ export class PolymarketAdapter {
     }
   }
 
+  /**
+   * Fetch market metadata (outcome tokens, active / closed flags)
+   *
+   * @param conditionId - Market condition ID
+   * @returns Market with its outcome tokens
+   * @throws MarketNotFoundError if the CLOB does not know the market
+   */
+  async getMarket(conditionId: string): Promise<Market> {
+    adapterLogger.debug({ conditionId }, 'Fetching market');
+
+    try {
+      // The client resolves HTTP errors to { error, status } instead of throwing
+      const response = await this.client.getMarket(conditionId);
+      if (!response || response.error || !Array.isArray(response.tokens)) {
+        throw new MarketNotFoundError(conditionId);
+      }
+
+      adapterLogger.debug(
+        { conditionId, active: response.active, closed: response.closed },
+        'Market fetched successfully'
+      );
+      return response as Market;
+    } catch (error) {
+      adapterLogger.error({ conditionId, error }, 'Failed to fetch market');
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch the metadata of the market a token trades in
+   *
+   * The CLOB has no token -> market lookup, but a token's order book names
+   * its market's condition ID.
+   *
+   * @param tokenId - The token ID
+   * @returns Market the token is an outcome of
+   * @throws MarketNotFoundError if the token has no order book or market
+   */
+  async getMarketForToken(tokenId: string): Promise<Market> {
+    const orderBook = await this.getOrderBook(tokenId);
+    if (!orderBook?.market) {
+      throw new MarketNotFoundError(tokenId);
+    }
+    return this.getMarket(orderBook.market);
+  }
+
   /**
    * Get the mid-point price for a market
    *
@@ -49,7 +110,12 @@ export class PolymarketAdapter {
     adapterLogger.debug({ tokenId }, 'Fetching mid-point price');
 
     try {
-      const midPoint = await this.client.getMidpoint(tokenId);
+      // CLOB responds with { mid: "0.45" }
+      const response = await this.client.getMidpoint(tokenId);
+      const midPoint = parseFloat(response.mid);
+      if (Number.isNaN(midPoint)) {
+        throw new Error(`No mid-point available for token ${tokenId}`);
+      }
       adapterLogger.debug({ tokenId, midPoint }, 'Mid-point price fetched');
       return midPoint;
     } catch (error) {
@@ -68,7 +134,12 @@ export class PolymarketAdapter {
     adapterLogger.debug({ tokenId }, 'Fetching last trade price');
 
     try {
-      const lastPrice = await this.client.getLastTradePrice(tokenId);
+      // CLOB responds with { price: "0.45", side: "BUY" }
+      const response = await this.client.getLastTradePrice(tokenId);
+      const lastPrice = parseFloat(response.price);
+      if (Number.isNaN(lastPrice)) {
+        throw new Error(`No last trade price available for token ${tokenId}`);
+      }
       adapterLogger.debug({ tokenId, lastPrice }, 'Last trade price fetched');
       return lastPrice;
     } catch (error) {
@@ -136,6 +207,212 @@ export class PolymarketAdapter {
       throw error;
     }
   }
+
+  /**
+   * Sign and post a MARKET order (Fill-or-Kill, or Fill-and-Kill for IOC)
+   *
+   * @param tokenId - The token ID
+   * @param side - BUY or SELL
+   * @param amount - BUY: USDC to spend, SELL: tokens to sell
+   * @param timeInForce - FOK (default) or IOC
+   * @param priceCap - Optional worst acceptable price (max for BUY, min for SELL);
+   *   without it the client prices the order from the current book
+   * @returns Posted order with CLOB order ID and matched amounts
+   */
+  async postMarketOrder(
+    tokenId: string,
+    side: 'BUY' | 'SELL',
+    amount: number,
+    timeInForce: 'IOC' | 'FOK' = 'FOK',
+    priceCap?: number
+  ): Promise<PostedOrder> {
+    adapterLogger.debug(
+      { tokenId, side, amount, timeInForce, priceCap },
+      'Posting MARKET order'
+    );
+
+    try {
+      const client = getAuthenticatedClobClient();
+      const response = await client.createAndPostMarketOrder(
+        { tokenID: tokenId, side: toClobSide(side), amount, price: priceCap },
+        undefined,
+        timeInForce === 'IOC' ? OrderType.FAK : OrderType.FOK
+      );
+
+      const postedOrder = toPostedOrder(response);
+      adapterLogger.info({ tokenId, side, postedOrder }, 'MARKET order posted');
+      return postedOrder;
+    } catch (error) {
+      adapterLogger.error({ tokenId, side, amount, error }, 'Failed to post MARKET order');
+      throw error;
+    }
+  }
+
+  /**
+   * Sign and post a LIMIT order
+   *
+   * GTC orders rest on the book (as GTD when expiresAt is set). IOC orders
+   * post as Fill-and-Kill and FOK orders as Fill-or-Kill at the limit price.
+   *
+   * @param tokenId - The token ID
+   * @param side - BUY or SELL
+   * @param price - Limit price (0-1 range)
+   * @param size - Order size in outcome tokens
+   * @param timeInForce - GTC (default), IOC or FOK
+   * @param expiresAt - Optional expiry for GTC orders; posts the order as GTD
+   * @returns Posted order with CLOB order ID and matched amounts
+   */
+  async postLimitOrder(
+    tokenId: string,
+    side: 'BUY' | 'SELL',
+    price: number,
+    size: number,
+    timeInForce: TimeInForce = 'GTC',
+    expiresAt?: Date
+  ): Promise<PostedOrder> {
+    adapterLogger.debug(
+      { tokenId, side, price, size, timeInForce, expiresAt },
+      'Posting LIMIT order'
+    );
+
+    try {
+      const client = getAuthenticatedClobClient();
+      const userOrder = {
+        tokenID: tokenId,
+        side: toClobSide(side),
+        price,
+        size,
+        // The CLOB applies a one-minute security threshold to GTD expirations
+        ...(expiresAt && {
+          expiration: Math.floor(expiresAt.getTime() / 1000) + GTD_SECURITY_THRESHOLD_SECONDS,
+        }),
+      };
+
+      let response;
+      if (timeInForce === 'GTC') {
+        response = expiresAt
+          ? await client.createAndPostOrder(userOrder, undefined, OrderType.GTD)
+          : await client.createAndPostOrder(userOrder, undefined, OrderType.GTC);
+      } else {
+        const signedOrder = await client.createOrder(userOrder);
+        response = await client.postOrder(
+          signedOrder,
+          timeInForce === 'IOC' ? OrderType.FAK : OrderType.FOK
+        );
+      }
+
+      const postedOrder = toPostedOrder(response);
+      adapterLogger.info({ tokenId, side, postedOrder }, 'LIMIT order posted');
+      return postedOrder;
+    } catch (error) {
+      adapterLogger.error({ tokenId, side, price, size, error }, 'Failed to post LIMIT order');
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a resting order on the CLOB
+   *
+   * @param externalOrderId - CLOB order ID (orders.external_order_id)
+   * @throws Error if the CLOB did not cancel the order
+   */
+  async cancelOrder(externalOrderId: string): Promise<void> {
+    adapterLogger.debug({ externalOrderId }, 'Cancelling order');
+
+    try {
+      const client = getAuthenticatedClobClient();
+      const response = await client.cancelOrder({ orderID: externalOrderId });
+
+      if (!response || response.error) {
+        throw new Error(
+          `CLOB cancel failed: ${typeof response?.error === 'string' ? response.error : JSON.stringify(response)}`
+        );
+      }
+
+      const notCancelled = response.not_canceled?.[externalOrderId];
+      if (notCancelled || !response.canceled?.includes(externalOrderId)) {
+        throw new Error(
+          `CLOB did not cancel order ${externalOrderId}: ${notCancelled || 'not in cancelled list'}`
+        );
+      }
+
+      adapterLogger.info({ externalOrderId }, 'Order cancelled on CLOB');
+    } catch (error) {
+      adapterLogger.error({ externalOrderId, error }, 'Failed to cancel order');
+      throw error;
+    }
+  }
+
+  /**
+   * Get the current state of an order on the CLOB
+   *
+   * @param externalOrderId - CLOB order ID (orders.external_order_id)
+   * @returns Status and matched size of the order
+   * @throws Error if the CLOB does not return the order
+   */
+  async getOrder(externalOrderId: string): Promise<ClobOrderState> {
+    adapterLogger.debug({ externalOrderId }, 'Fetching order state');
+
+    try {
+      const client = getAuthenticatedClobClient();
+      // Like posts, HTTP failures resolve to { error } instead of throwing
+      const response: (Partial<OpenOrder> & { error?: unknown }) | undefined =
+        await client.getOrder(externalOrderId);
+
+      if (!response || response.error || !response.id) {
+        throw new Error(
+          `CLOB order lookup failed: ${typeof response?.error === 'string' ? response.error : JSON.stringify(response)}`
+        );
+      }
+
+      return {
+        orderId: response.id,
+        status: (response.status ?? '').toLowerCase(),
+        originalSize: parseFloat(response.original_size || '0'),
+        sizeMatched: parseFloat(response.size_matched || '0'),
+        price: parseFloat(response.price || '0'),
+        tradeIds: response.associate_trades ?? [],
+      };
+    } catch (error) {
+      adapterLogger.error({ externalOrderId, error }, 'Failed to fetch order state');
+      throw error;
+    }
+  }
+}
+
+/**
+ * Map BetterOMS side to CLOB client side enum
+ */
+function toClobSide(side: 'BUY' | 'SELL'): Side {
+  return side === 'BUY' ? Side.BUY : Side.SELL;
+}
+
+/**
+ * Normalize a CLOB post-order response
+ *
+ * The CLOB client returns HTTP failures as `{ error }` objects rather than
+ * throwing, so both error shapes are converted into exceptions here.
+ */
+function toPostedOrder(response: PostOrderResponse | undefined): PostedOrder {
+  if (!response || response.error) {
+    const message =
+      typeof response?.error === 'string'
+        ? response.error
+        : JSON.stringify(response?.error ?? response);
+    throw new Error(`CLOB rejected order: ${message}`);
+  }
+
+  if (response.success === false || !response.orderID) {
+    throw new Error(`CLOB rejected order: ${response.errorMsg || 'no order ID returned'}`);
+  }
+
+  return {
+    orderId: response.orderID,
+    status: response.status ?? '',
+    makingAmount: parseFloat(response.makingAmount || '0'),
+    takingAmount: parseFloat(response.takingAmount || '0'),
+    transactionHashes: response.transactionsHashes || [],
+  };
 }
 
 /**
@@ -36,6 +36,7 @@ export interface Market {
   question: string;
   description: string;
   active: boolean;
+  closed: boolean;
 }
 
 /**
@@ -69,3 +70,75 @@ export interface PricePoint {
   price: number;
   timestamp: number;
 }
+
+/**
+ * Raw CLOB response to posting a signed order
+ *
+ * The CLOB client types this as `any`; HTTP failures come back as
+ * `{ error, status }` instead of throwing.
+ */
+export interface PostOrderResponse {
+  success?: boolean;
+  errorMsg?: string;
+  orderID?: string;
+  status?: string;
+  makingAmount?: string;
+  takingAmount?: string;
+  transactionsHashes?: string[];
+  error?: unknown;
+}
+
+/**
+ * Result of posting a signed order to the CLOB
+ *
+ * Amounts follow CLOB conventions: for BUY orders makingAmount is USDC and
+ * takingAmount is outcome tokens; for SELL orders the reverse.
+ */
+export interface PostedOrder {
+  orderId: string;
+  status: string; // 'matched' | 'live' | 'delayed' | 'unmatched'
+  makingAmount: number;
+  takingAmount: number;
+  transactionHashes: string[];
+}
+
+/**
+ * Current state of an order on the CLOB
+ *
+ * Sizes are outcome tokens. Status is lower-cased: 'live' | 'matched' |
+ * 'canceled' | 'delayed' | 'unmatched'.
+ */
+export interface ClobOrderState {
+  orderId: string;
+  status: string;
+  originalSize: number;
+  sizeMatched: number;
+  price: number;
+  tradeIds: string[]; // CLOB trades that matched this order, oldest first
+}
+
+/**
+ * Market metadata from the Gamma API
+ *
+ * Gamma encodes outcomes and clobTokenIds as JSON strings. The two arrays
+ * are index-aligned: clobTokenIds[i] is the token that trades outcomes[i].
+ */
+export interface GammaMarket {
+  id: string;
+  slug: string;
+  question: string;
+  conditionId: string;
+  outcomes: string; // e.g. '["Yes", "No"]'
+  clobTokenIds: string; // e.g. '["7132...", "2174..."]'
+  active: boolean;
+  closed: boolean;
+  endDate?: string;
+}
+
+/**
+ * Outcome of a Gamma market and the CLOB token that trades it
+ */
+export interface GammaOutcomeToken {
+  outcome: string;
+  tokenId: string;
+}
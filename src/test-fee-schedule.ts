@@ -0,0 +1,79 @@
+#!/usr/bin/env tsx
+/**
+ * Fee Schedule Test Script - Verify maker/taker fees on fills
+ *
+ * This script tests that we can:
+ * 1. Charge maker and taker fills their own rate, in basis points of notional
+ * 2. Charge nothing under a zero schedule
+ * 3. Fall back to the configured schedule (FEE_MAKER_BPS / FEE_TAKER_BPS)
+ *
+ * Pure in-memory checks: no database or network access.
+ *
+ * Usage: pnpm run test:fee-schedule
+ */
+
+import { logger } from './infrastructure/logging/logger.js';
+import { calculateFee, getFeeSchedule, type FeeSchedule } from './features/executor/fee-schedule.js';
+
+/**
+ * 5 bps maker, 20 bps taker
+ */
+const SCHEDULE: FeeSchedule = { makerBps: 5, takerBps: 20 };
+
+/**
+ * Fail unless two USDC amounts are equal
+ */
+function expectFee(label: string, actual: number, expected: number): void {
+  if (Math.abs(actual - expected) > 1e-9) {
+    throw new Error(`${label}: expected ${expected}, got ${actual}`);
+  }
+}
+
+function runTests() {
+  try {
+    // Test 1: Each liquidity role pays its own rate
+    logger.info('📝 Test 1: Charging maker and taker fills...');
+    expectFee('Maker fee on 100 USDC', calculateFee(100, 'maker', SCHEDULE), 0.05);
+    expectFee('Taker fee on 100 USDC', calculateFee(100, 'taker', SCHEDULE), 0.2);
+    expectFee('Taker fee on 12.5 USDC', calculateFee(12.5, 'taker', SCHEDULE), 0.025);
+    logger.info('✅ Maker and taker fills charged their own rate');
+
+    // Test 2: A zero schedule (the default) charges nothing
+    logger.info('📝 Test 2: Charging under a zero schedule...');
+    const free: FeeSchedule = { makerBps: 0, takerBps: 0 };
+    expectFee('Zero maker fee', calculateFee(100, 'maker', free), 0);
+    expectFee('Zero taker fee', calculateFee(100, 'taker', free), 0);
+    logger.info('✅ Zero schedule charges nothing');
+
+    // Test 3: Without an explicit schedule the configured one applies
+    logger.info('📝 Test 3: Charging under the configured schedule...');
+    const configured = getFeeSchedule();
+    if (
+      !Number.isFinite(configured.makerBps) ||
+      !Number.isFinite(configured.takerBps) ||
+      configured.makerBps < 0 ||
+      configured.takerBps < 0
+    ) {
+      throw new Error(`Invalid configured schedule: ${JSON.stringify(configured)}`);
+    }
+    expectFee('Configured maker fee', calculateFee(100, 'maker'), configured.makerBps / 100);
+    expectFee('Configured taker fee', calculateFee(100, 'taker'), configured.takerBps / 100);
+    logger.info({ schedule: configured }, '✅ Configured schedule applied by default');
+
+    // Summary
+    logger.info('');
+    logger.info('🎉 Fee schedule checks passed:');
+    logger.info('  ✅ Maker and taker fills charged their own rate');
+    logger.info('  ✅ Zero schedule charges nothing');
+    logger.info('  ✅ Configured schedule applied by default');
+  } catch (error) {
+    logger.error(
+      { error: error instanceof Error ? error.message : String(error) },
+      '❌ Test failed'
+    );
+    process.exitCode = 1;
+  }
+}
+
+// Run tests
+runTests();
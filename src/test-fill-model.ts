@@ -0,0 +1,214 @@
+#!/usr/bin/env tsx
+/**
+ * Fill Model Test Script - Verify book walks against visible depth
+ *
+ * This script tests that we can:
+ * 1. Sort opposing levels best price first (asks for BUY, bids for SELL)
+ * 2. Walk a BUY across levels up to a price cap, sized in USDC or shares
+ * 3. Walk a SELL across levels down to a price floor, sized in shares or USDC
+ * 4. Return an empty fill when nothing crosses the limit
+ * 5. Default LIMIT and capped MARKET orders to GTC, uncapped MARKET orders to FOK
+ * 6. Record why IOC / FOK left size unfilled
+ *
+ * Pure in-memory checks: no database or network access.
+ *
+ * Usage: pnpm run test:fill-model
+ */
+
+import type { OrderBookSummary } from '@polymarket/clob-client';
+import { logger } from './infrastructure/logging/logger.js';
+import {
+  getOpposingLevels,
+  resolveTimeInForce,
+  timeInForceCancellation,
+  walkBook,
+  type DepthFill,
+  type LevelFill,
+} from './features/executor/fill-model.js';
+import type { Trade } from './domain/schemas/trade-plan.schema.js';
+
+/**
+ * Book with levels deliberately out of order, as the API may return them
+ */
+const STAND_IN_BOOK = {
+  market: '0xstandin',
+  asset_id: '1234567890',
+  bids: [
+    { price: '0.36', size: '1000' },
+    { price: '0.38', size: '100' },
+  ],
+  asks: [
+    { price: '0.45', size: '1000' },
+    { price: '0.40', size: '20' },
+    { price: '0.41', size: '100' },
+  ],
+  hash: 'stand-in',
+  timestamp: '0',
+} as OrderBookSummary;
+
+/**
+ * Fail unless a depth fill matches the expected levels and totals
+ */
+function expectFill(
+  label: string,
+  actual: DepthFill,
+  expected: { fills: LevelFill[]; notional: number; complete: boolean }
+): void {
+  const close = (a: number, b: number) => Math.abs(a - b) < 1e-9;
+  const quantity = expected.fills.reduce((total, fill) => total + fill.quantity, 0);
+
+  const matches =
+    actual.fills.length === expected.fills.length &&
+    actual.fills.every(
+      (fill, index) =>
+        close(fill.price, expected.fills[index].price) &&
+        close(fill.quantity, expected.fills[index].quantity)
+    ) &&
+    close(actual.quantity, quantity) &&
+    close(actual.notional, expected.notional) &&
+    close(actual.avgPrice, quantity > 0 ? expected.notional / quantity : 0) &&
+    actual.complete === expected.complete;
+
+  if (!matches) {
+    throw new Error(`${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+function runTests() {
+  try {
+    const asks = getOpposingLevels(STAND_IN_BOOK, 'BUY');
+    const bids = getOpposingLevels(STAND_IN_BOOK, 'SELL');
+
+    // Test 1: Levels are sorted best price first
+    logger.info('📝 Test 1: Sorting opposing levels...');
+    if (
+      asks.map((level) => level.price).join(',') !== '0.4,0.41,0.45' ||
+      bids.map((level) => level.price).join(',') !== '0.38,0.36'
+    ) {
+      throw new Error(`Unexpected level order: asks=${JSON.stringify(asks)} bids=${JSON.stringify(bids)}`);
+    }
+    logger.info('✅ Asks lowest first, bids highest first');
+
+    // Test 2: A USDC BUY capped at 0.41 takes both levels within the cap and stops
+    logger.info('📝 Test 2: Walking a capped USDC BUY...');
+    expectFill('USDC BUY capped at 0.41', walkBook(asks, 'BUY', 100, 0.41, 'usdc'), {
+      fills: [
+        { price: 0.4, quantity: 20 },
+        { price: 0.41, quantity: 100 },
+      ],
+      notional: 49, // 8.00 + 41.00 within the cap, 51.00 left unfilled
+      complete: false,
+    });
+    expectFill('USDC BUY uncapped', walkBook(asks, 'BUY', 30, undefined, 'usdc'), {
+      fills: [
+        { price: 0.4, quantity: 20 },
+        { price: 0.41, quantity: 22 / 0.41 },
+      ],
+      notional: 30,
+      complete: true,
+    });
+    logger.info('✅ USDC BUY walked up to the cap');
+
+    // Test 3: A share BUY fills an exact token quantity across levels
+    logger.info('📝 Test 3: Walking a capped share BUY...');
+    expectFill('Share BUY capped at 0.41', walkBook(asks, 'BUY', 50, 0.41, 'shares'), {
+      fills: [
+        { price: 0.4, quantity: 20 },
+        { price: 0.41, quantity: 30 },
+      ],
+      notional: 20.3,
+      complete: true,
+    });
+    expectFill('Share BUY beyond the cap', walkBook(asks, 'BUY', 150, 0.41, 'shares'), {
+      fills: [
+        { price: 0.4, quantity: 20 },
+        { price: 0.41, quantity: 100 },
+      ],
+      notional: 49,
+      complete: false,
+    });
+    logger.info('✅ Share BUY walked up to the cap');
+
+    // Test 4: SELLs walk bids down to the floor, in either unit
+    logger.info('📝 Test 4: Walking SELLs...');
+    expectFill('Share SELL floored at 0.37', walkBook(bids, 'SELL', 150, 0.37, 'shares'), {
+      fills: [{ price: 0.38, quantity: 100 }],
+      notional: 38,
+      complete: false,
+    });
+    expectFill('USDC SELL unfloored', walkBook(bids, 'SELL', 50, undefined, 'usdc'), {
+      fills: [
+        { price: 0.38, quantity: 100 },
+        { price: 0.36, quantity: 12 / 0.36 },
+      ],
+      notional: 50,
+      complete: true,
+    });
+    logger.info('✅ SELLs walked down to the floor');
+
+    // Test 5: Nothing crosses a limit below the best ask
+    logger.info('📝 Test 5: Walking a limit that does not cross...');
+    expectFill('BUY below the best ask', walkBook(asks, 'BUY', 10, 0.39, 'usdc'), {
+      fills: [],
+      notional: 0,
+      complete: false,
+    });
+    logger.info('✅ Non-crossing limit returned an empty fill');
+
+    // Test 6: Time in force defaults by order type and price cap
+    logger.info('📝 Test 6: Resolving time in force...');
+    const marketBuy: Trade = {
+      marketTokenId: '1234567890',
+      outcome: 'YES',
+      side: 'BUY',
+      orderType: 'MARKET',
+      size: 10,
+    };
+    const timesInForce = {
+      limit: resolveTimeInForce({ ...marketBuy, orderType: 'LIMIT', price: 0.4 }),
+      market: resolveTimeInForce(marketBuy),
+      cappedMarket: resolveTimeInForce({ ...marketBuy, maxPrice: 0.41 }),
+      explicitIoc: resolveTimeInForce({ ...marketBuy, timeInForce: 'IOC' }),
+    };
+    if (
+      timesInForce.limit !== 'GTC' ||
+      timesInForce.market !== 'FOK' ||
+      timesInForce.cappedMarket !== 'GTC' ||
+      timesInForce.explicitIoc !== 'IOC'
+    ) {
+      throw new Error(`Unexpected time in force: ${JSON.stringify(timesInForce)}`);
+    }
+    logger.info({ timesInForce }, '✅ Time in force defaults resolved');
+
+    // Test 7: IOC cancels the remainder, FOK kills the whole order
+    logger.info('📝 Test 7: Recording time in force cancellations...');
+    const ioc = timeInForceCancellation('IOC', 49, 100);
+    const fok = timeInForceCancellation('FOK', 120, 150, 'shares');
+    if (
+      ioc.cancelledBy !== 'system:time-in-force' ||
+      ioc.reason !== 'IOC: unfilled remainder cancelled, filled 49.00 of 100.00 USDC' ||
+      fok.reason !== 'FOK: killed, visible depth covers 120.00 of 150.00 shares'
+    ) {
+      throw new Error(`Unexpected cancellations: ${JSON.stringify({ ioc, fok })}`);
+    }
+    logger.info('✅ IOC / FOK cancellations recorded');
+
+    // Summary
+    logger.info('');
+    logger.info('🎉 Fill model checks passed:');
+    logger.info('  ✅ Opposing levels sorted best price first');
+    logger.info('  ✅ BUYs walk asks up to the price cap (USDC and shares)');
+    logger.info('  ✅ SELLs walk bids down to the price floor (shares and USDC)');
+    logger.info('  ✅ Non-crossing limits fill nothing');
+    logger.info('  ✅ GTC / IOC / FOK resolved and their cancellations recorded');
+  } catch (error) {
+    logger.error(
+      { error: error instanceof Error ? error.message : String(error) },
+      '❌ Test failed'
+    );
+    process.exitCode = 1;
+  }
+}
+
+// Run tests
+runTests();
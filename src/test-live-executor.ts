@@ -0,0 +1,554 @@
+#!/usr/bin/env tsx
+/**
+ * Live Executor Test Script - Verify live order path against a stand-in CLOB
+ *
+ * This script tests that we can:
+ * 1. Sign and post MARKET orders through an authenticated ClobClient
+ * 2. Sign and post LIMIT orders that rest on the book
+ * 3. Persist the CLOB order ID in orders.external_order_id
+ * 4. Persist fills with executions.external_execution_id
+ * 5. Post good-til-date LIMIT orders as GTD with an expiration
+ * 6. Post IOC LIMIT orders as FAK
+ * 7. Cancel a resting live order on the CLOB by external order ID
+ * 8. Reconcile a resting order partly matched on the CLOB (fill recorded)
+ * 9. Reconcile a resting order cancelled on the CLOB (cancelled locally)
+ * 10. Post a capped MARKET order as a GTC LIMIT order at its cap
+ * 11. Sweep good-til-date orders past expires_at: CLOB matches are recorded
+ *     before anything expires, and only orders the CLOB killed expire
+ * 12. Settle a resolved market including fills the CLOB matched before
+ *     resolution
+ * 13. Clean up test data
+ *
+ * No requests reach Polymarket: a local HTTP server mimics the CLOB order
+ * endpoints (book, tick-size, neg-risk, fee-rate, order, order lookup, cancel)
+ * and the Gamma / CLOB market lookups.
+ *
+ * Usage: pnpm run test:live-executor
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { Wallet } from 'ethers';
+import { and, eq, inArray } from 'drizzle-orm';
+import { loadEnv } from './config/env.js';
+import { logger } from './infrastructure/logging/logger.js';
+import { getDb, closeDb, testConnection } from './infrastructure/database/client.js';
+import { executionHistory, orders, positions } from './infrastructure/database/schema.js';
+import { getTradeRunnerRepository } from './features/trade-runner/trade-runner.repository.js';
+import { getExecutorRepository } from './features/executor/executor.repository.js';
+import { getLiveExecutor } from './features/executor/live-executor.js';
+import { getOrderManagementService } from './features/order-management/order-management.service.js';
+import { getOrderSweepService } from './features/order-sweep/order-sweep.service.js';
+import { getSettlementService } from './features/settlement/settlement.service.js';
+import type { SizedTrade } from './features/executor/executor.types.js';
+
+const TEST_PLAN_ID = 'test-live-executor-' + Date.now();
+const TEST_TOKEN_ID = '1234567890';
+const RESOLVED_TOKEN_ID = '1234567892'; // Traded in a market that resolved YES
+
+const STAND_IN_BOOK = {
+  market: '0xstandin',
+  asset_id: TEST_TOKEN_ID,
+  bids: [{ price: '0.38', size: '5000' }],
+  asks: [{ price: '0.40', size: '5000' }],
+  hash: 'stand-in',
+  timestamp: Date.now().toString(),
+};
+
+/**
+ * Orders received by the stand-in server, for assertions
+ */
+const postedOrders: Array<{
+  orderType: string;
+  side: string;
+  owner: string;
+  expiration: string;
+  hasL2Headers: boolean;
+}> = [];
+const cancelledOrderIds: string[] = [];
+
+/**
+ * Resting orders held by the stand-in server; tests set matched size and status
+ */
+const restingOrders = new Map<
+  string,
+  { originalSize: number; price: number; sizeMatched: number; status: string }
+>();
+
+/**
+ * Minimal stand-in for the CLOB order endpoints
+ *
+ * - FOK/FAK orders are reported as fully matched at the signed amounts
+ * - GTC/GTD orders are reported as live (resting on the book)
+ * - Order lookups report the resting order's matched size and status
+ * - Cancels always succeed
+ * - Gamma lists the test token's market as open and RESOLVED_TOKEN_ID's
+ *   market as closed; the CLOB reports RESOLVED_TOKEN_ID as the winner
+ */
+function handleRequest(req: IncomingMessage, res: ServerResponse): void {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const send = (body: unknown, status = 200) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  if (req.method === 'GET' && url.pathname === '/book') return send(STAND_IN_BOOK);
+  if (req.method === 'GET' && url.pathname === '/tick-size') return send({ minimum_tick_size: 0.01 });
+  if (req.method === 'GET' && url.pathname === '/neg-risk') return send({ neg_risk: false });
+  if (req.method === 'GET' && url.pathname === '/fee-rate') return send({ base_fee: 0 });
+
+  if (req.method === 'POST' && url.pathname === '/order') {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const payload = JSON.parse(body);
+      const { order, orderType, owner } = payload;
+
+      postedOrders.push({
+        orderType,
+        side: order.side,
+        owner,
+        expiration: order.expiration,
+        hasL2Headers: Boolean(req.headers['poly_api_key'] && req.headers['poly_signature']),
+      });
+
+      const orderID = '0x' + randomUUID().replace(/-/g, '');
+      if (orderType === 'FOK' || orderType === 'FAK') {
+        return send({
+          success: true,
+          errorMsg: '',
+          orderID,
+          status: 'matched',
+          makingAmount: (parseInt(order.makerAmount, 10) / 1e6).toString(),
+          takingAmount: (parseInt(order.takerAmount, 10) / 1e6).toString(),
+          transactionsHashes: ['0xtx' + orderID.slice(2, 18)],
+        });
+      }
+
+      // BUY: maker = USDC, taker = tokens. SELL: the reverse.
+      const usdc = parseInt(order.side === 'BUY' ? order.makerAmount : order.takerAmount, 10);
+      const tokens = parseInt(order.side === 'BUY' ? order.takerAmount : order.makerAmount, 10);
+      restingOrders.set(orderID, {
+        originalSize: tokens / 1e6,
+        price: usdc / tokens,
+        sizeMatched: 0,
+        status: 'LIVE',
+      });
+
+      return send({
+        success: true,
+        errorMsg: '',
+        orderID,
+        status: 'live',
+        makingAmount: '0',
+        takingAmount: '0',
+        transactionsHashes: [],
+      });
+    });
+    return;
+  }
+
+  if (req.method === 'GET' && url.pathname.startsWith('/data/order/')) {
+    const orderID = url.pathname.slice('/data/order/'.length);
+    const resting = restingOrders.get(orderID);
+    if (!resting) return send({ error: 'order not found' }, 404);
+
+    return send({
+      id: orderID,
+      status: resting.status,
+      original_size: resting.originalSize.toString(),
+      size_matched: resting.sizeMatched.toString(),
+      price: resting.price.toString(),
+      associate_trades: resting.sizeMatched > 0 ? ['trade-' + orderID.slice(2, 10)] : [],
+      order_type: 'GTC',
+    });
+  }
+
+  if (req.method === 'GET' && url.pathname === '/markets') {
+    const resolved = url.searchParams.get('clob_token_ids') === RESOLVED_TOKEN_ID;
+    return send([
+      {
+        id: resolved ? 'stand-in-resolved' : 'stand-in',
+        slug: resolved ? 'stand-in-resolved-market' : 'stand-in-market',
+        question: resolved ? 'Resolved stand-in market?' : 'Stand-in market?',
+        conditionId: resolved ? '0xresolved' : STAND_IN_BOOK.market,
+        outcomes: '["Yes", "No"]',
+        clobTokenIds: JSON.stringify(
+          resolved ? [RESOLVED_TOKEN_ID, '1234567893'] : [TEST_TOKEN_ID, '1234567891']
+        ),
+        active: !resolved,
+        closed: resolved,
+      },
+    ]);
+  }
+
+  if (req.method === 'GET' && url.pathname === '/markets/0xresolved') {
+    return send({
+      condition_id: '0xresolved',
+      question_id: '0xresolved-question',
+      tokens: [
+        { token_id: RESOLVED_TOKEN_ID, outcome: 'Yes', price: 1, winner: true },
+        { token_id: '1234567893', outcome: 'No', price: 0, winner: false },
+      ],
+      end_date_iso: '',
+      game_start_time: '',
+      question: 'Resolved stand-in market?',
+      description: '',
+      active: false,
+      closed: true,
+    });
+  }
+
+  if (req.method === 'DELETE' && url.pathname === '/order') {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const { orderID } = JSON.parse(body);
+      cancelledOrderIds.push(orderID);
+      send({ canceled: [orderID], not_canceled: {} });
+    });
+    return;
+  }
+
+  send({ error: `stand-in CLOB does not implement ${req.method} ${url.pathname}` }, 404);
+}
+
+async function runTests() {
+  const server = createServer(handleRequest);
+  let settlementPlanId: string | undefined;
+
+  try {
+    // Step 1: Start stand-in CLOB and point configuration at it
+    logger.info('🧪 Starting stand-in CLOB server...');
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    process.env.CLOB_API_URL = `http://127.0.0.1:${port}`;
+    process.env.GAMMA_API_URL = `http://127.0.0.1:${port}`;
+    process.env.POLYMARKET_PRIVATE_KEY = Wallet.createRandom().privateKey;
+    process.env.POLYMARKET_API_KEY = randomUUID();
+    process.env.POLYMARKET_API_SECRET = Buffer.from('stand-in-secret').toString('base64');
+    process.env.POLYMARKET_API_PASSPHRASE = 'stand-in-passphrase';
+    logger.info({ clobApiUrl: process.env.CLOB_API_URL }, '✅ Stand-in CLOB listening');
+
+    // Step 2: Load environment and test database connection
+    logger.info('🔧 Loading environment configuration...');
+    const env = loadEnv();
+    if (!env.DATABASE_URL) {
+      throw new Error('DATABASE_URL is not configured');
+    }
+
+    const isConnected = await testConnection();
+    if (!isConnected) {
+      throw new Error('Database connection test failed');
+    }
+    logger.info('✅ Database connection successful');
+
+    // Step 3: Create execution history record for order foreign keys
+    await getTradeRunnerRepository().createExecutionHistory({
+      planId: TEST_PLAN_ID,
+      planJson: { planId: TEST_PLAN_ID, mode: 'live', trades: [] },
+      status: 'running',
+    });
+
+    const liveExecutor = getLiveExecutor();
+    const repository = getExecutorRepository();
+
+    // Test 1: MARKET BUY is signed, posted as FOK and recorded as filled
+    logger.info('📝 Test 1: Posting live MARKET BUY...');
+    const marketBuy: SizedTrade = {
+      marketTokenId: TEST_TOKEN_ID,
+      outcome: 'YES',
+      side: 'BUY',
+      orderType: 'MARKET',
+      size: 10,
+    };
+    const buyResult = await liveExecutor.executeTrade(TEST_PLAN_ID, marketBuy);
+    if (buyResult.status !== 'filled') {
+      throw new Error(`Expected MARKET BUY to fill, got ${buyResult.status}`);
+    }
+
+    const [buyOrder] = (await repository.getOrdersByPlanId(TEST_PLAN_ID)).filter(
+      (o) => o.id === buyResult.orderId
+    );
+    const [buyExecution] = await repository.getExecutionsByOrderId(buyResult.orderId);
+    if (!buyOrder.externalOrderId || !buyExecution?.externalExecutionId) {
+      throw new Error('MARKET BUY is missing external order or execution ID');
+    }
+    logger.info(
+      {
+        externalOrderId: buyOrder.externalOrderId,
+        externalExecutionId: buyExecution.externalExecutionId,
+        fillPrice: buyResult.fillPrice,
+        quantity: buyResult.quantity,
+      },
+      '✅ MARKET BUY filled with external IDs'
+    );
+
+    // Test 2: LIMIT BUY below market rests on the book
+    logger.info('📝 Test 2: Posting live LIMIT BUY...');
+    const limitBuy: SizedTrade = {
+      marketTokenId: TEST_TOKEN_ID,
+      outcome: 'YES',
+      side: 'BUY',
+      orderType: 'LIMIT',
+      size: 3,
+      price: 0.3,
+    };
+    const limitResult = await liveExecutor.executeTrade(TEST_PLAN_ID, limitBuy);
+    if (limitResult.status !== 'open') {
+      throw new Error(`Expected LIMIT BUY to rest, got ${limitResult.status}`);
+    }
+
+    const [limitOrder] = (await repository.getOrdersByPlanId(TEST_PLAN_ID)).filter(
+      (o) => o.id === limitResult.orderId
+    );
+    if (!limitOrder.externalOrderId) {
+      throw new Error('LIMIT BUY is missing external order ID');
+    }
+    logger.info({ externalOrderId: limitOrder.externalOrderId }, '✅ LIMIT BUY resting with external ID');
+
+    // Test 3: MARKET SELL against the live position
+    logger.info('📝 Test 3: Posting live MARKET SELL...');
+    const sellResult = await liveExecutor.executeTrade(TEST_PLAN_ID, {
+      ...marketBuy,
+      side: 'SELL',
+      size: 3.8,
+    });
+    if (sellResult.status !== 'filled') {
+      throw new Error(`Expected MARKET SELL to fill, got ${sellResult.status}`);
+    }
+    logger.info({ quantity: sellResult.quantity }, '✅ MARKET SELL filled');
+
+    // Test 4: Good-til-date LIMIT BUY posts as GTD and persists expires_at
+    logger.info('📝 Test 4: Posting live good-til-date LIMIT BUY...');
+    const expiresAt = new Date(Date.now() + 30 * 60_000);
+    const gtdResult = await liveExecutor.executeTrade(TEST_PLAN_ID, {
+      ...limitBuy,
+      expiresAt: expiresAt.toISOString(),
+    });
+    const gtdOrder = await repository.getOrderById(gtdResult.orderId);
+    const postedExpiration = parseInt(postedOrders[postedOrders.length - 1].expiration, 10);
+    if (
+      gtdResult.status !== 'open' ||
+      gtdOrder?.expiresAt?.getTime() !== expiresAt.getTime() ||
+      postedExpiration !== Math.floor(expiresAt.getTime() / 1000) + 60
+    ) {
+      throw new Error(`GTD order not posted/persisted as expected: ${JSON.stringify(gtdOrder)}`);
+    }
+    logger.info({ expiresAt: gtdOrder.expiresAt, postedExpiration }, '✅ GTD order posted with expiration');
+
+    // Test 5: IOC LIMIT BUY posts as FAK and records the matched fill
+    logger.info('📝 Test 5: Posting live IOC LIMIT BUY...');
+    const iocResult = await liveExecutor.executeTrade(TEST_PLAN_ID, {
+      ...limitBuy,
+      price: 0.45,
+      timeInForce: 'IOC',
+    });
+    const iocOrder = await repository.getOrderById(iocResult.orderId);
+    if (iocResult.status !== 'filled' || iocOrder?.timeInForce !== 'IOC') {
+      throw new Error(`Expected IOC LIMIT BUY to fill, got ${iocResult.status}`);
+    }
+    logger.info({ fillPrice: iocResult.fillPrice, quantity: iocResult.quantity }, '✅ IOC order filled via FAK');
+
+    // Test 6: Requests carried L2 auth headers and expected order types
+    const orderTypes = postedOrders.map((o) => o.orderType).join(',');
+    if (orderTypes !== 'FOK,GTC,FOK,GTD,FAK' || postedOrders.some((o) => !o.hasL2Headers)) {
+      throw new Error(`Unexpected posted orders: ${JSON.stringify(postedOrders)}`);
+    }
+    logger.info('✅ Orders posted with L2 headers (FOK, GTC, FOK, GTD, FAK)');
+
+    // Test 7: Cancelling the resting LIMIT order calls the CLOB cancel endpoint
+    logger.info('📝 Test 7: Cancelling live LIMIT order...');
+    const cancelled = await getOrderManagementService().cancelOrder(limitResult.orderId, {
+      cancelledBy: 'test-live-executor',
+      reason: 'stand-in cancel test',
+    });
+    if (cancelled.status !== 'cancelled' || !cancelledOrderIds.includes(limitOrder.externalOrderId)) {
+      throw new Error('Live LIMIT order was not cancelled on the stand-in CLOB');
+    }
+    logger.info({ externalOrderId: limitOrder.externalOrderId }, '✅ Live order cancelled on CLOB');
+
+    // Test 8: Size matched on the CLOB after posting is recorded by reconciliation
+    logger.info('📝 Test 8: Reconciling a partly matched live order...');
+    const gtdResting = restingOrders.get(gtdOrder.externalOrderId!)!;
+    gtdResting.sizeMatched = gtdResting.originalSize / 2;
+    const partialSync = await liveExecutor.syncOpenOrder(gtdOrder);
+    const partialExecutions = await repository.getExecutionsByOrderId(gtdOrder.id);
+    if (
+      partialSync.status !== 'partially_filled' ||
+      partialExecutions.length !== 1 ||
+      Math.abs(parseFloat(partialExecutions[0].quantity) - gtdResting.sizeMatched) > 0.000001 ||
+      !partialExecutions[0].externalExecutionId?.startsWith('trade-')
+    ) {
+      throw new Error(`Partial CLOB match not recorded: ${JSON.stringify({ partialSync, partialExecutions })}`);
+    }
+    logger.info({ quantity: partialSync.quantity }, '✅ Partial CLOB match recorded');
+
+    // Test 9: An order the CLOB cancelled is cancelled locally, keeping its fill
+    logger.info('📝 Test 9: Reconciling a live order cancelled on the CLOB...');
+    gtdResting.status = 'CANCELED';
+    const cancelSync = await liveExecutor.syncOpenOrder((await repository.getOrderById(gtdOrder.id))!);
+    const cancelledGtd = await repository.getOrderById(gtdOrder.id);
+    if (
+      cancelSync.status !== 'cancelled' ||
+      cancelledGtd?.status !== 'cancelled' ||
+      cancelledGtd.cancelledBy !== 'system:clob' ||
+      (await repository.getExecutionsByOrderId(gtdOrder.id)).length !== 1
+    ) {
+      throw new Error(`CLOB cancellation not reconciled: ${JSON.stringify(cancelledGtd)}`);
+    }
+    logger.info({ cancelReason: cancelledGtd.cancelReason }, '✅ CLOB cancellation reconciled');
+
+    // Test 10: A capped MARKET BUY without IOC/FOK works at its cap on the book
+    logger.info('📝 Test 10: Posting live capped MARKET BUY...');
+    const cappedResult = await liveExecutor.executeTrade(TEST_PLAN_ID, {
+      ...marketBuy,
+      maxPrice: 0.39,
+    });
+    const cappedOrder = await repository.getOrderById(cappedResult.orderId);
+    const cappedPosted = postedOrders[postedOrders.length - 1];
+    if (
+      cappedResult.status !== 'open' ||
+      cappedPosted.orderType !== 'GTC' ||
+      cappedOrder?.timeInForce !== 'GTC' ||
+      cappedOrder.priceCap !== '0.390000'
+    ) {
+      throw new Error(`Capped MARKET BUY not worked at its cap: ${JSON.stringify(cappedOrder)}`);
+    }
+    logger.info({ priceCap: cappedOrder.priceCap }, '✅ Capped MARKET BUY resting at its cap');
+
+    // Test 11: GTD orders past expires_at are reconciled before they expire.
+    // The CLOB keeps GTD orders for a minute past expires_at, so one may
+    // have matched after it expired locally.
+    logger.info('📝 Test 11: Sweeping live orders past their good-til-date...');
+    const matchedGtd = await liveExecutor.executeTrade(TEST_PLAN_ID, {
+      ...limitBuy,
+      expiresAt: expiresAt.toISOString(),
+    });
+    const killedGtd = await liveExecutor.executeTrade(TEST_PLAN_ID, {
+      ...limitBuy,
+      expiresAt: expiresAt.toISOString(),
+    });
+    await getDb()
+      .update(orders)
+      .set({ expiresAt: new Date(Date.now() - 30_000) })
+      .where(inArray(orders.id, [matchedGtd.orderId, killedGtd.orderId]));
+
+    const matchedResting = restingOrders.get(
+      (await repository.getOrderById(matchedGtd.orderId))!.externalOrderId!
+    )!;
+    matchedResting.sizeMatched = matchedResting.originalSize;
+    matchedResting.status = 'MATCHED';
+    const killedResting = restingOrders.get(
+      (await repository.getOrderById(killedGtd.orderId))!.externalOrderId!
+    )!;
+    killedResting.sizeMatched = 1;
+    killedResting.status = 'CANCELED';
+
+    const sweep = await getOrderSweepService().sweepOpenOrders('live');
+    const sweptStatus = (orderId: string) =>
+      sweep.orders.find((swept) => swept.orderId === orderId)?.status;
+    const matchedAfter = await repository.getOrderById(matchedGtd.orderId);
+    const killedAfter = await repository.getOrderById(killedGtd.orderId);
+    const matchedExecutions = await repository.getExecutionsByOrderId(matchedGtd.orderId);
+    const killedExecutions = await repository.getExecutionsByOrderId(killedGtd.orderId);
+    if (
+      sweptStatus(matchedGtd.orderId) !== 'filled' ||
+      matchedAfter?.status !== 'filled' ||
+      Math.abs(parseFloat(matchedExecutions[0]?.quantity ?? '0') - matchedResting.originalSize) > 0.000001 ||
+      sweptStatus(killedGtd.orderId) !== 'expired' ||
+      killedAfter?.status !== 'expired' ||
+      killedExecutions.length !== 1 ||
+      parseFloat(killedExecutions[0].quantity) !== 1
+    ) {
+      throw new Error(
+        `Expired GTD orders not reconciled: ${JSON.stringify({ matchedAfter, killedAfter, swept: sweep.orders })}`
+      );
+    }
+    logger.info(
+      { ordersFilled: sweep.ordersFilled, ordersExpired: sweep.ordersExpired },
+      '✅ CLOB matches recorded before expiry, killed GTD order expired'
+    );
+
+    // Test 12: Settlement records what the CLOB matched before the market resolved
+    logger.info('📝 Test 12: Settling a resolved market with a matched live order...');
+    const resolvedBuy = await liveExecutor.executeTrade(TEST_PLAN_ID, {
+      ...limitBuy,
+      marketTokenId: RESOLVED_TOKEN_ID,
+    });
+    const resolvedResting = restingOrders.get(
+      (await repository.getOrderById(resolvedBuy.orderId))!.externalOrderId!
+    )!;
+    resolvedResting.sizeMatched = resolvedResting.originalSize;
+    resolvedResting.status = 'MATCHED';
+
+    const settlement = await getSettlementService().settleResolvedMarkets('live');
+    settlementPlanId = settlement.settlementPlanId;
+    const settledPosition = settlement.positions.find(
+      (position) => position.marketTokenId === RESOLVED_TOKEN_ID
+    );
+    const resolvedOrder = await repository.getOrderById(resolvedBuy.orderId);
+    if (
+      resolvedOrder?.status !== 'filled' ||
+      !settledPosition ||
+      Math.abs(settledPosition.quantity - resolvedResting.originalSize) > 0.000001 ||
+      settledPosition.payoutPrice !== 1
+    ) {
+      throw new Error(
+        `Pre-resolution CLOB fill not settled: ${JSON.stringify({ resolvedOrder, settlement })}`
+      );
+    }
+    logger.info(
+      { quantity: settledPosition.quantity, realizedPnL: settledPosition.realizedPnL },
+      '✅ CLOB fill recorded and settled with the position'
+    );
+
+    // Summary
+    logger.info('');
+    logger.info('🎉 Live executor checks passed:');
+    logger.info('  ✅ MARKET orders signed and posted as FOK');
+    logger.info('  ✅ LIMIT orders signed and posted as GTC');
+    logger.info('  ✅ Good-til-date LIMIT orders posted as GTD with expires_at');
+    logger.info('  ✅ IOC LIMIT orders posted as FAK');
+    logger.info('  ✅ external_order_id and external_execution_id recorded');
+    logger.info('  ✅ Live cancels sent to CLOB by external order ID');
+    logger.info('  ✅ CLOB fills and cancellations reconciled onto working orders');
+    logger.info('  ✅ Capped MARKET orders worked at their cap (GTC)');
+    logger.info('  ✅ Live sweeps reconcile GTD orders before they expire');
+    logger.info('  ✅ Settlement reconciles live orders before settling');
+  } catch (error) {
+    logger.error({ error }, '❌ Test failed');
+    process.exitCode = 1;
+  } finally {
+    // Always clean up test data, stand-in server and connection
+    try {
+      await getDb()
+        .delete(executionHistory)
+        .where(eq(executionHistory.planId, TEST_PLAN_ID));
+      if (settlementPlanId) {
+        await getDb()
+          .delete(executionHistory)
+          .where(eq(executionHistory.planId, settlementPlanId));
+      }
+      // Positions are derived from executions and not removed by the cascade
+      await getDb()
+        .delete(positions)
+        .where(
+          and(
+            inArray(positions.marketTokenId, [TEST_TOKEN_ID, RESOLVED_TOKEN_ID]),
+            eq(positions.mode, 'live')
+          )
+        );
+    } catch (error) {
+      logger.warn({ error }, 'Failed to clean up test data');
+    }
+    server.close();
+    await closeDb();
+    logger.info('🔌 Stand-in CLOB and database connection closed');
+  }
+}
+
+// Run tests
+runTests();
@@ -0,0 +1,196 @@
+#!/usr/bin/env tsx
+/**
+ * Lot Ledger Test Script - Verify FIFO / average cost allocation
+ *
+ * This script tests that we can:
+ * 1. Close lots oldest first (FIFO) across a close / reopen / partial sell
+ * 2. Close lots pro rata (average) over the same sequence
+ * 3. Apportion buy and sell fees across partial lot closures without
+ *    leaving rounding dust behind
+ * 4. Report quantity sold beyond the open lots as unmatched
+ *
+ * Pure in-memory checks: no database or network access.
+ *
+ * Usage: pnpm run test:lot-ledger
+ */
+
+import { logger } from './infrastructure/logging/logger.js';
+import {
+  allocateSell,
+  openLot,
+  sumUnits,
+  summarizeAllocations,
+  AMOUNT_SCALE,
+  type AccountingMethod,
+  type LotAllocation,
+  type OpenLot,
+} from './features/positions/lot-ledger.js';
+
+/**
+ * Execution applied to the ledger (decimal strings, as stored)
+ */
+interface LedgerFill {
+  side: 'BUY' | 'SELL';
+  quantity: string;
+  price: string;
+  fee: string;
+}
+
+/**
+ * Buy 10 @ 0.40, sell all 10 @ 0.50, buy 10 @ 0.60, buy 10 @ 0.20, sell 5 @ 0.70
+ */
+const CLOSE_REOPEN_SELL: LedgerFill[] = [
+  { side: 'BUY', quantity: '10', price: '0.40', fee: '0.04' },
+  { side: 'SELL', quantity: '10', price: '0.50', fee: '0.05' },
+  { side: 'BUY', quantity: '10', price: '0.60', fee: '0' },
+  { side: 'BUY', quantity: '10', price: '0.20', fee: '0' },
+  { side: 'SELL', quantity: '5', price: '0.70', fee: '0' },
+];
+
+/**
+ * Replay fills into lots, returning every closure and the lots left open
+ */
+function replay(
+  fills: LedgerFill[],
+  method: AccountingMethod
+): { allocations: LotAllocation[][]; lots: OpenLot[]; unmatched: string[] } {
+  let lots: OpenLot[] = [];
+  const allocations: LotAllocation[][] = [];
+  const unmatched: string[] = [];
+
+  fills.forEach((fill, index) => {
+    if (fill.side === 'BUY') {
+      const lot = openLot(fill);
+      lots.push({
+        id: `lot-${index}`,
+        remainingQuantity: lot.quantity,
+        remainingCost: lot.cost,
+        remainingFees: lot.fees,
+      });
+      return;
+    }
+
+    const sale = allocateSell(lots, fill, method);
+    lots = sale.lots;
+    allocations.push(sale.allocations);
+    unmatched.push(sale.unmatchedQuantity);
+  });
+
+  return { allocations, lots, unmatched };
+}
+
+/**
+ * Fail unless two decimal strings are equal at AMOUNT_SCALE
+ */
+function expectAmount(label: string, actual: string, expected: string): void {
+  if (sumUnits([actual], AMOUNT_SCALE) !== sumUnits([expected], AMOUNT_SCALE)) {
+    throw new Error(`${label}: expected ${expected}, got ${actual}`);
+  }
+}
+
+function runTests() {
+  try {
+    // Test 1: FIFO closes the first lot, then takes the sale from the oldest reopened lot
+    logger.info('📝 Test 1: FIFO over close / reopen / sell...');
+    const fifo = replay(CLOSE_REOPEN_SELL, 'fifo');
+    const fifoRealized = summarizeAllocations(fifo.allocations.flat());
+    const fifoLastSale = fifo.allocations[1];
+    if (fifoLastSale.length !== 1 || fifoLastSale[0].lotId !== 'lot-2') {
+      throw new Error(`FIFO sale should close only lot-2: ${JSON.stringify(fifoLastSale)}`);
+    }
+    expectAmount('FIFO gross P&L', fifoRealized.grossPnL, '1.5'); // (5.00 - 4.00) + (3.50 - 3.00)
+    expectAmount('FIFO fees', fifoRealized.fees, '0.09');
+    expectAmount('FIFO open cost', sumUnits(fifo.lots.map((lot) => lot.remainingCost), AMOUNT_SCALE), '5');
+    logger.info({ realized: fifoRealized }, '✅ FIFO closed the oldest open lot');
+
+    // Test 2: Average takes the sale from both open lots at their weighted cost
+    logger.info('📝 Test 2: Average cost over close / reopen / sell...');
+    const average = replay(CLOSE_REOPEN_SELL, 'average');
+    const averageRealized = summarizeAllocations(average.allocations.flat());
+    const averageLastSale = average.allocations[1];
+    if (
+      averageLastSale.length !== 2 ||
+      averageLastSale.some((allocation) => allocation.quantity !== '2.500000')
+    ) {
+      throw new Error(`Average sale should take 2.5 from each lot: ${JSON.stringify(averageLastSale)}`);
+    }
+    expectAmount('Average gross P&L', averageRealized.grossPnL, '2.5'); // (5.00 - 4.00) + (3.50 - 2.00)
+    expectAmount('Average fees', averageRealized.fees, '0.09');
+    expectAmount(
+      'Average open cost',
+      sumUnits(average.lots.map((lot) => lot.remainingCost), AMOUNT_SCALE),
+      '6'
+    );
+    logger.info({ realized: averageRealized }, '✅ Average cost closed every open lot pro rata');
+
+    // Test 3: Fees that don't divide evenly are fully released across partial closures
+    logger.info('📝 Test 3: Apportioning fees across partial closures...');
+    for (const method of ['fifo', 'average'] as const) {
+      const partial = replay(
+        [
+          { side: 'BUY', quantity: '3', price: '0.50', fee: '0.01' },
+          { side: 'BUY', quantity: '3', price: '0.50', fee: '0.01' },
+          { side: 'SELL', quantity: '1', price: '0.60', fee: '0.01' },
+          { side: 'SELL', quantity: '3', price: '0.60', fee: '0.01' }, // FIFO: 2 + 1 across both lots
+          { side: 'SELL', quantity: '2', price: '0.60', fee: '0.01' },
+        ],
+        method
+      );
+      const closures = partial.allocations.flat();
+      const firstSale = partial.allocations[0];
+
+      expectAmount(
+        `${method} first partial close buy fees`,
+        sumUnits(firstSale.map((allocation) => allocation.buyFees), AMOUNT_SCALE),
+        method === 'fifo' ? '0.003333333333' : '0.003333333332'
+      );
+      partial.allocations.forEach((sale, index) =>
+        expectAmount(
+          `${method} sale ${index + 1} sell fees`,
+          sumUnits(sale.map((allocation) => allocation.sellFees), AMOUNT_SCALE),
+          '0.01'
+        )
+      );
+      expectAmount(
+        `${method} buy fees released`,
+        sumUnits(closures.map((allocation) => allocation.buyFees), AMOUNT_SCALE),
+        '0.02'
+      );
+      expectAmount(`${method} fees realized`, summarizeAllocations(closures).fees, '0.05');
+      if (partial.lots.some((lot) => lot.remainingFees !== '0.000000000000')) {
+        throw new Error(`${method}: fees left on closed lots: ${JSON.stringify(partial.lots)}`);
+      }
+    }
+    logger.info('✅ Buy and sell fees released in full, no rounding dust');
+
+    // Test 4: Selling more than is open books only the matched part
+    logger.info('📝 Test 4: Reporting unmatched quantity...');
+    const oversold = replay(
+      [
+        { side: 'BUY', quantity: '2', price: '0.40', fee: '0' },
+        { side: 'SELL', quantity: '4', price: '0.50', fee: '0.02' },
+      ],
+      'fifo'
+    );
+    expectAmount('Unmatched quantity', oversold.unmatched[0], '2');
+    expectAmount('Oversold sell fees', oversold.allocations[0][0].sellFees, '0.01');
+    logger.info({ unmatched: oversold.unmatched[0] }, '✅ Unmatched quantity reported, half the fee booked');
+
+    // Summary
+    logger.info('');
+    logger.info('🎉 Lot ledger checks passed:');
+    logger.info('  ✅ FIFO closes the oldest lots first');
+    logger.info('  ✅ Average cost closes every open lot pro rata');
+    logger.info('  ✅ Fees apportioned across partial closures without dust');
+    logger.info('  ✅ Sales beyond the open lots reported as unmatched');
+  } catch (error) {
+    logger.error(
+      { error: error instanceof Error ? error.message : String(error) },
+      '❌ Test failed'
+    );
+    process.exitCode = 1;
+  }
+}
+
+// Run tests
+runTests();
@@ -0,0 +1,271 @@
+#!/usr/bin/env tsx
+/**
+ * Market Lookup Test Script - Verify slug resolution and token checks against stand-in APIs
+ *
+ * This script tests that we can:
+ * 1. Resolve a market slug and outcome to the CLOB token ID
+ * 2. Serve repeated lookups from the in-memory cache
+ * 3. Reject unknown slugs and outcomes the market does not have
+ * 4. Resolve the slugs of a trade plan and infer omitted outcomes
+ * 5. Report unresolvable slugs as validation errors on the trade
+ * 6. Reject a token traded under the wrong outcome
+ * 7. Reject trades in closed markets
+ *
+ * No requests reach Polymarket: a local HTTP server mimics the Gamma
+ * /markets endpoint and the CLOB book / market endpoints.
+ *
+ * Usage: pnpm run test:market-lookup
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { loadEnv } from './config/env.js';
+import { logger } from './infrastructure/logging/logger.js';
+import { MarketNotFoundError } from './domain/errors/execution.error.js';
+import { ValidationError } from './domain/errors/validation.error.js';
+import { getGammaAdapter } from './integrations/polymarket/gamma.adapter.js';
+import { getMarketLookupService } from './features/markets/market-lookup.service.js';
+import type { SubmittedTradePlan } from './domain/schemas/trade-plan.schema.js';
+import type { GammaMarket, Market } from './integrations/polymarket/polymarket.types.js';
+
+const YES_TOKEN_ID = '1111111111';
+const NO_TOKEN_ID = '2222222222';
+const CLOSED_TOKEN_ID = '5555555555';
+
+const STAND_IN_GAMMA_MARKETS: GammaMarket[] = [
+  {
+    id: '1',
+    slug: 'will-it-rain-tomorrow',
+    question: 'Will it rain tomorrow?',
+    conditionId: '0xrain',
+    outcomes: '["Yes", "No"]',
+    clobTokenIds: `["${YES_TOKEN_ID}", "${NO_TOKEN_ID}"]`,
+    active: true,
+    closed: false,
+  },
+  {
+    id: '2',
+    slug: 'who-wins-the-final',
+    question: 'Who wins the final?',
+    conditionId: '0xfinal',
+    outcomes: '["Home", "Away"]',
+    clobTokenIds: '["3333333333", "4444444444"]',
+    active: true,
+    closed: false,
+  },
+];
+
+const STAND_IN_CLOB_MARKETS: Market[] = [
+  standInMarket('0xrain', 'Will it rain tomorrow?', YES_TOKEN_ID, NO_TOKEN_ID, false),
+  standInMarket('0xsnow', 'Did it snow yesterday?', CLOSED_TOKEN_ID, '6666666666', true),
+];
+
+function standInMarket(
+  conditionId: string,
+  question: string,
+  yesTokenId: string,
+  noTokenId: string,
+  closed: boolean
+): Market {
+  return {
+    condition_id: conditionId,
+    question_id: conditionId,
+    tokens: [
+      { token_id: yesTokenId, outcome: 'Yes', price: 0.5, winner: false },
+      { token_id: noTokenId, outcome: 'No', price: 0.5, winner: false },
+    ],
+    end_date_iso: '',
+    game_start_time: '',
+    question,
+    description: '',
+    active: true,
+    closed,
+  };
+}
+
+/**
+ * Slugs requested from the stand-in server, for cache assertions
+ */
+const requestedSlugs: string[] = [];
+
+/**
+ * Minimal stand-in for Gamma /markets (slug filter) and the CLOB
+ * /book and /markets/:conditionId endpoints
+ */
+function handleRequest(req: IncomingMessage, res: ServerResponse): void {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const send = (body: unknown, status = 200) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  if (req.method === 'GET' && url.pathname === '/markets') {
+    const slug = url.searchParams.get('slug') ?? '';
+    requestedSlugs.push(slug);
+    return send(STAND_IN_GAMMA_MARKETS.filter((market) => market.slug === slug));
+  }
+
+  if (req.method === 'GET' && url.pathname === '/book') {
+    const tokenId = url.searchParams.get('token_id');
+    const market = STAND_IN_CLOB_MARKETS.find((candidate) =>
+      candidate.tokens.some((token) => token.token_id === tokenId)
+    );
+    return market
+      ? send({ market: market.condition_id, asset_id: tokenId, bids: [], asks: [], hash: '', timestamp: '0' })
+      : send({ error: 'No orderbook exists for the requested token id' }, 404);
+  }
+
+  if (req.method === 'GET' && url.pathname.startsWith('/markets/')) {
+    const conditionId = url.pathname.slice('/markets/'.length);
+    const market = STAND_IN_CLOB_MARKETS.find((candidate) => candidate.condition_id === conditionId);
+    return market ? send(market) : send({ error: 'market not found' }, 404);
+  }
+
+  send({ error: `stand-in does not implement ${req.method} ${url.pathname}` }, 404);
+}
+
+async function runTests() {
+  const server = createServer(handleRequest);
+
+  try {
+    // Step 1: Start stand-in APIs and point configuration at them
+    logger.info('🧪 Starting stand-in Gamma / CLOB server...');
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    process.env.GAMMA_API_URL = `http://127.0.0.1:${port}`;
+    process.env.CLOB_API_URL = `http://127.0.0.1:${port}`;
+    loadEnv();
+    logger.info({ standInUrl: process.env.GAMMA_API_URL }, '✅ Stand-in Gamma / CLOB listening');
+
+    const gamma = getGammaAdapter();
+    const lookup = getMarketLookupService();
+
+    // Test 1: Slug + outcome resolve to the outcome's token
+    logger.info('📝 Test 1: Resolving slug to token IDs...');
+    const yesTokenId = await gamma.resolveTokenId('will-it-rain-tomorrow', 'YES');
+    const noTokenId = await gamma.resolveTokenId('will-it-rain-tomorrow', 'NO');
+    if (yesTokenId !== YES_TOKEN_ID || noTokenId !== NO_TOKEN_ID) {
+      throw new Error(`Unexpected token IDs: YES=${yesTokenId} NO=${noTokenId}`);
+    }
+    logger.info({ yesTokenId, noTokenId }, '✅ Slug resolved per outcome');
+
+    // Test 2: The second outcome lookup was served from cache
+    logger.info('📝 Test 2: Checking cache...');
+    if (requestedSlugs.length !== 1) {
+      throw new Error(`Expected 1 Gamma request, got ${requestedSlugs.length}`);
+    }
+    logger.info('✅ Repeated lookup served from cache');
+
+    // Test 3: Unknown slugs and missing outcomes are rejected
+    logger.info('📝 Test 3: Rejecting unresolvable slugs...');
+    const unknown = await gamma.resolveTokenId('no-such-market', 'YES').catch((error) => error);
+    if (!(unknown instanceof MarketNotFoundError)) {
+      throw new Error(`Expected MarketNotFoundError, got ${String(unknown)}`);
+    }
+    const noOutcome = await gamma.resolveTokenId('who-wins-the-final', 'YES').catch((error) => error);
+    if (!(noOutcome instanceof Error) || !noOutcome.message.includes('Home, Away')) {
+      throw new Error(`Expected missing outcome error, got ${String(noOutcome)}`);
+    }
+    logger.info('✅ Unknown slug and missing outcome rejected');
+
+    // Test 4: Plan slugs are resolved, omitted outcomes inferred from the token
+    logger.info('📝 Test 4: Resolving a trade plan...');
+    const plan: SubmittedTradePlan = {
+      planId: 'test-market-lookup',
+      mode: 'paper',
+      trades: [
+        {
+          marketTokenId: 'will-it-rain-tomorrow',
+          outcome: 'NO',
+          side: 'BUY',
+          orderType: 'MARKET',
+          size: 10,
+        },
+        {
+          marketTokenId: YES_TOKEN_ID,
+          side: 'BUY',
+          orderType: 'MARKET',
+          size: 10,
+        },
+      ],
+    };
+    const resolved = await lookup.resolvePlan(plan);
+    if (
+      resolved.trades[0].marketTokenId !== NO_TOKEN_ID ||
+      resolved.trades[1].marketTokenId !== YES_TOKEN_ID ||
+      resolved.trades[1].outcome !== 'YES' ||
+      plan.trades[0].marketTokenId !== 'will-it-rain-tomorrow'
+    ) {
+      throw new Error(`Plan not resolved as expected: ${JSON.stringify(resolved.trades)}`);
+    }
+    logger.info(
+      { trades: resolved.trades.map((t) => `${t.marketTokenId}:${t.outcome}`) },
+      '✅ Plan slugs resolved and outcome inferred'
+    );
+
+    // Test 5: Unresolvable plan slugs surface as validation errors
+    logger.info('📝 Test 5: Rejecting a plan with an unknown slug...');
+    await expectIssue(
+      lookup.resolvePlan({
+        ...plan,
+        trades: [plan.trades[1], { ...plan.trades[0], marketTokenId: 'no-such-market' }],
+      }),
+      'trades[1].marketTokenId',
+      'market_not_found'
+    );
+    logger.info('✅ Unknown slug reported on its trade');
+
+    // Test 6: A token traded under the other outcome is rejected
+    logger.info('📝 Test 6: Rejecting an outcome mismatch...');
+    await expectIssue(
+      lookup.resolvePlan({ ...plan, trades: [{ ...plan.trades[1], outcome: 'NO' }] }),
+      'trades[0].outcome',
+      'outcome_mismatch'
+    );
+    logger.info('✅ Outcome mismatch rejected');
+
+    // Test 7: Closed markets are rejected
+    logger.info('📝 Test 7: Rejecting a closed market...');
+    await expectIssue(
+      lookup.resolvePlan({ ...plan, trades: [{ ...plan.trades[1], marketTokenId: CLOSED_TOKEN_ID }] }),
+      'trades[0].marketTokenId',
+      'market_closed'
+    );
+    logger.info('✅ Closed market rejected');
+
+    // Summary
+    logger.info('');
+    logger.info('🎉 Market lookup checks passed:');
+    logger.info('  ✅ Slugs resolved to the outcome token ID');
+    logger.info('  ✅ Lookups cached in memory');
+    logger.info('  ✅ Unknown slugs and outcomes rejected');
+    logger.info('  ✅ Omitted outcomes inferred from the token');
+    logger.info('  ✅ Outcome mismatches and closed markets rejected');
+  } catch (error) {
+    logger.error({ error }, '❌ Test failed');
+    process.exitCode = 1;
+  } finally {
+    server.close();
+    logger.info('🔌 Stand-in server closed');
+  }
+}
+
+/**
+ * Assert that a lookup fails with a validation issue on the given field
+ */
+async function expectIssue(lookup: Promise<unknown>, field: string, code: string): Promise<void> {
+  const error = await lookup.then(
+    () => undefined,
+    (rejection: unknown) => rejection
+  );
+  const issue = error instanceof ValidationError ? error.validationErrors[0] : undefined;
+
+  if (issue?.field !== field || issue.code !== code) {
+    throw new Error(`Expected ${code} on ${field}, got ${error instanceof Error ? error.message : 'no error'}`);
+  }
+  logger.info({ issue }, 'Lookup rejected as expected');
+}
+
+// Run tests
+runTests();
@@ -0,0 +1,89 @@
+#!/usr/bin/env tsx
+/**
+ * Order Expiry Test Script - Verify good-til-date expiry times
+ *
+ * This script tests that we can:
+ * 1. Leave trades without expiresAt / ttlMinutes good-til-cancelled
+ * 2. Resolve expiresAt as given and ttlMinutes from placement time
+ * 3. Refuse to place a trade whose expiry has already passed
+ *
+ * Pure in-memory checks: no database or network access.
+ *
+ * Usage: pnpm run test:order-expiry
+ */
+
+import { logger } from './infrastructure/logging/logger.js';
+import { resolveExpiresAt } from './features/executor/order.mapper.js';
+import { ExecutionError } from './domain/errors/execution.error.js';
+import type { Trade } from './domain/schemas/trade-plan.schema.js';
+
+const NOW = new Date('2026-01-01T12:00:00Z');
+
+/**
+ * Resting LIMIT BUY
+ */
+const LIMIT: Trade = {
+  marketTokenId: '1234567890',
+  outcome: 'YES',
+  side: 'BUY',
+  orderType: 'LIMIT',
+  size: 10,
+  price: 0.4,
+};
+
+function runTests() {
+  try {
+    // Test 1: No expiry fields means good-til-cancelled
+    logger.info('📝 Test 1: Resolving a good-til-cancelled trade...');
+    const gtc = resolveExpiresAt(LIMIT, NOW);
+    if (gtc !== undefined) {
+      throw new Error(`Expected no expiry, got ${gtc.toISOString()}`);
+    }
+    logger.info('✅ Trade without expiry stays good-til-cancelled');
+
+    // Test 2: expiresAt is taken as given; ttlMinutes counts from placement
+    logger.info('📝 Test 2: Resolving good-til-date trades...');
+    const absolute = resolveExpiresAt({ ...LIMIT, expiresAt: '2026-01-01T13:30:00Z' }, NOW);
+    const relative = resolveExpiresAt({ ...LIMIT, ttlMinutes: 90 }, NOW);
+    if (
+      absolute?.toISOString() !== '2026-01-01T13:30:00.000Z' ||
+      relative?.toISOString() !== '2026-01-01T13:30:00.000Z'
+    ) {
+      throw new Error(
+        `Unexpected expiry: expiresAt=${absolute?.toISOString()} ttlMinutes=${relative?.toISOString()}`
+      );
+    }
+    logger.info({ expiresAt: absolute.toISOString() }, '✅ expiresAt and ttlMinutes resolved');
+
+    // Test 3: An expiry at or before placement is rejected
+    logger.info('📝 Test 3: Rejecting expired trades...');
+    for (const expiresAt of ['2026-01-01T12:00:00Z', '2026-01-01T11:59:00Z']) {
+      let rejection: unknown;
+      try {
+        resolveExpiresAt({ ...LIMIT, expiresAt }, NOW);
+      } catch (error) {
+        rejection = error;
+      }
+      if (!(rejection instanceof ExecutionError) || !rejection.message.includes('before it could be placed')) {
+        throw new Error(`Trade expiring at ${expiresAt} was not rejected`);
+      }
+    }
+    logger.info('✅ Trades expiring before placement rejected');
+
+    // Summary
+    logger.info('');
+    logger.info('🎉 Order expiry checks passed:');
+    logger.info('  ✅ Trades without expiry are good-til-cancelled');
+    logger.info('  ✅ expiresAt / ttlMinutes resolved to an absolute time');
+    logger.info('  ✅ Already-expired trades rejected');
+  } catch (error) {
+    logger.error(
+      { error: error instanceof Error ? error.message : String(error) },
+      '❌ Test failed'
+    );
+    process.exitCode = 1;
+  }
+}
+
+// Run tests
+runTests();
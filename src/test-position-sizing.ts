@@ -0,0 +1,136 @@
+#!/usr/bin/env tsx
+/**
+ * Position Sizing Test Script - Verify trades sized from the current position
+ *
+ * This script tests that we can:
+ * 1. Tell closePosition, percentOfPosition and explicitly sized trades apart
+ * 2. Size a percentage of a position in whole micro-shares, never above the
+ *    held quantity
+ * 3. Derive the BUY or SELL that moves a position to a share or USDC target
+ * 4. Skip target trades within tolerance of the target
+ *
+ * Pure in-memory checks: no database or network access.
+ *
+ * Usage: pnpm run test:position-sizing
+ */
+
+import { logger } from './infrastructure/logging/logger.js';
+import {
+  TARGET_POSITION_TOLERANCE,
+  getPositionPercent,
+  sizeFromPosition,
+  sizeTargetTrade,
+} from './features/positions/position-sizing.js';
+import { ExecutionError } from './domain/errors/execution.error.js';
+import type { TargetPosition, Trade } from './domain/schemas/trade-plan.schema.js';
+
+/**
+ * SELL with no size, to be sized from the position
+ */
+const SELL: Trade = {
+  marketTokenId: '1234567890',
+  outcome: 'YES',
+  side: 'SELL',
+  orderType: 'MARKET',
+};
+
+/**
+ * Derive a MARKET targetPosition trade from a held quantity
+ */
+function sizeTarget(target: TargetPosition, heldQuantity: number, midpoint?: number) {
+  const trade: Trade = {
+    marketTokenId: '1234567890',
+    outcome: 'YES',
+    orderType: 'MARKET',
+    targetPosition: target,
+  };
+  return sizeTargetTrade(trade, target, heldQuantity, midpoint);
+}
+
+/**
+ * Fail unless two sizes are equal (to the micro-unit)
+ */
+function expectSize(label: string, actual: number, expected: number): void {
+  if (Math.abs(actual - expected) > 0.000001) {
+    throw new Error(`${label}: expected ${expected}, got ${actual}`);
+  }
+}
+
+function runTests() {
+  try {
+    // Test 1: closePosition sells 100%, percentOfPosition its percentage, sized trades neither
+    logger.info('📝 Test 1: Reading the position percentage...');
+    const percents = {
+      close: getPositionPercent({ ...SELL, closePosition: true }),
+      partial: getPositionPercent({ ...SELL, percentOfPosition: 25 }),
+      explicit: getPositionPercent({ ...SELL, size: 10, sizeUnit: 'shares' }),
+    };
+    if (percents.close !== 100 || percents.partial !== 25 || percents.explicit !== undefined) {
+      throw new Error(`Unexpected position percentages: ${JSON.stringify(percents)}`);
+    }
+    logger.info({ percents }, '✅ Position percentage read from closePosition / percentOfPosition');
+
+    // Test 2: Percentages are rounded down to micro-shares; 100% sells exactly what is held
+    logger.info('📝 Test 2: Sizing from a position...');
+    expectSize('Half of 10 shares', sizeFromPosition(10, 50), 5);
+    expectSize('A third of 10 shares', sizeFromPosition(10, 100 / 3), 3.333333);
+    expectSize('Two thirds rounded down', sizeFromPosition(1, 200 / 3), 0.666666);
+    expectSize('Whole position', sizeFromPosition(12.3456789, 100), 12.3456789);
+    logger.info('✅ Position sizes rounded down, whole positions sold exactly');
+
+    // Test 3: Targets resolve to the share delta from the held quantity
+    logger.info('📝 Test 3: Deriving target position trades...');
+    const trades = {
+      buyShares: sizeTarget({ size: 10, sizeUnit: 'shares' }, 4),
+      exit: sizeTarget({ size: 0, sizeUnit: 'shares' }, 4.5),
+      sellUsdc: sizeTarget({ size: 5 }, 12, 0.5), // 5 USDC at 0.50 = 10 shares
+    };
+    if (
+      trades.buyShares.side !== 'BUY' ||
+      trades.exit.side !== 'SELL' ||
+      trades.sellUsdc.side !== 'SELL' ||
+      Object.values(trades).some((trade) => trade.sizeUnit !== 'shares')
+    ) {
+      throw new Error(`Unexpected target trades: ${JSON.stringify(trades)}`);
+    }
+    expectSize('BUY up to a share target', trades.buyShares.size, 6);
+    expectSize('SELL to exit', trades.exit.size, 4.5);
+    expectSize('SELL down to a USDC target', trades.sellUsdc.size, 2);
+    logger.info('✅ Target trades derived as share BUYs and SELLs');
+
+    // Test 4: Near-target positions place nothing; USDC targets need a midpoint
+    logger.info('📝 Test 4: Handling near-target and unpriced targets...');
+    const nearTarget = sizeTarget(
+      { size: 10, sizeUnit: 'shares' },
+      10 - TARGET_POSITION_TOLERANCE / 2
+    );
+    expectSize('Within tolerance', nearTarget.size, 0);
+    let unpriced: unknown;
+    try {
+      sizeTarget({ size: 5 }, 0);
+    } catch (error) {
+      unpriced = error;
+    }
+    if (!(unpriced instanceof ExecutionError)) {
+      throw new Error('USDC target without a midpoint was not rejected');
+    }
+    logger.info('✅ Near-target trades sized 0, unpriced USDC targets rejected');
+
+    // Summary
+    logger.info('');
+    logger.info('🎉 Position sizing checks passed:');
+    logger.info('  ✅ closePosition / percentOfPosition read as a position percentage');
+    logger.info('  ✅ Partial sizes never exceed the held quantity');
+    logger.info('  ✅ Target positions resolve to the share delta');
+    logger.info('  ✅ Near-target trades place nothing');
+  } catch (error) {
+    logger.error(
+      { error: error instanceof Error ? error.message : String(error) },
+      '❌ Test failed'
+    );
+    process.exitCode = 1;
+  }
+}
+
+// Run tests
+runTests();
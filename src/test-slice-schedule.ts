@@ -0,0 +1,180 @@
+#!/usr/bin/env tsx
+/**
+ * Slice Schedule Test Script - Verify TWAP parent progress and slice sizing
+ *
+ * This script tests that we can:
+ * 1. Sum child fills in the parent's size unit (USDC notional or shares)
+ * 2. Count only working children as resting size
+ * 3. Size the next slice so later slices catch up on unfilled size
+ * 4. Tell due, scheduled, resting, exhausted and filled parents apart
+ * 5. Build child trades with an explicit, rounded size
+ *
+ * Pure in-memory checks: no database or network access.
+ *
+ * Usage: pnpm run test:slice-schedule
+ */
+
+import { logger } from './infrastructure/logging/logger.js';
+import {
+  getNextSliceSize,
+  getSliceProgress,
+  getSliceState,
+  toSliceTrade,
+} from './features/slicing/slice-schedule.js';
+import type { Order } from './infrastructure/database/schema.js';
+import type { OrderWithFills, SizedTrade } from './features/executor/executor.types.js';
+
+const NOW = new Date('2026-01-01T12:00:00Z');
+
+/**
+ * Sliced parent: 300 USDC in 3 slices, first slice placed
+ */
+const PARENT = {
+  id: 'parent',
+  planId: 'test-slice-schedule',
+  marketTokenId: '1234567890',
+  outcome: 'YES',
+  side: 'BUY',
+  orderType: 'LIMIT',
+  size: '300.000000',
+  sizeUnit: 'usdc',
+  price: '0.400000',
+  status: 'working',
+  mode: 'paper',
+  sliceCount: 3,
+  slicesPlaced: 1,
+  nextSliceAt: new Date(NOW.getTime() - 60_000),
+} as Order;
+
+/**
+ * Child order with its fills
+ */
+function child(
+  status: Order['status'],
+  size: number,
+  filledQuantity: number,
+  filledNotional: number
+): OrderWithFills {
+  return {
+    order: { ...PARENT, id: `child-${status}`, status, size: size.toFixed(6), parentOrderId: PARENT.id },
+    filledQuantity,
+    filledNotional,
+  };
+}
+
+/**
+ * Fail unless two sizes are equal (to the micro-unit)
+ */
+function expectSize(label: string, actual: number, expected: number): void {
+  if (Math.abs(actual - expected) > 0.000001) {
+    throw new Error(`${label}: expected ${expected}, got ${actual}`);
+  }
+}
+
+function runTests() {
+  try {
+    // Test 1: Fills are summed as USDC notional; the working child's unfilled size rests
+    logger.info('📝 Test 1: Summarizing a USDC-sized parent...');
+    const partial = getSliceProgress(PARENT, [child('partially_filled', 100, 150, 60)]);
+    expectSize('USDC filled size', partial.filledSize, 60);
+    expectSize('USDC resting size', partial.restingSize, 40);
+    if (partial.remainingSlices !== 2 || partial.complete) {
+      throw new Error(`Unexpected progress: ${JSON.stringify(partial)}`);
+    }
+    logger.info({ progress: partial }, '✅ Filled and resting size summed in USDC');
+
+    // Test 2: Shares-sized parents count filled tokens, not notional
+    logger.info('📝 Test 2: Summarizing a share-sized parent...');
+    const shares = getSliceProgress({ ...PARENT, sizeUnit: 'shares' }, [
+      child('partially_filled', 100, 60, 24),
+    ]);
+    expectSize('Shares filled size', shares.filledSize, 60);
+    expectSize('Shares resting size', shares.restingSize, 40);
+    logger.info({ progress: shares }, '✅ Filled and resting size summed in shares');
+
+    // Test 3: The next slice splits what is neither filled nor resting over the slices left
+    logger.info('📝 Test 3: Sizing the next slice...');
+    expectSize('Slice beside a resting child', getNextSliceSize(partial), 100); // (300 - 60 - 40) / 2
+    const caughtUp = getSliceProgress(PARENT, [child('cancelled', 100, 150, 60)]);
+    expectSize('Slice after a cancelled child', getNextSliceSize(caughtUp), 120); // (300 - 60) / 2
+    expectSize(
+      'Slice with none left',
+      getNextSliceSize(getSliceProgress({ ...PARENT, slicesPlaced: 3 }, [])),
+      0
+    );
+    logger.info('✅ Later slices catch up on size earlier slices did not fill');
+
+    // Test 4: Parent state follows progress and the slice schedule
+    logger.info('📝 Test 4: Deciding what each parent needs next...');
+    const states = {
+      due: getSliceState(PARENT, partial, NOW),
+      scheduled: getSliceState(
+        { ...PARENT, nextSliceAt: new Date(NOW.getTime() + 60_000) },
+        partial,
+        NOW
+      ),
+      resting: getSliceState(
+        PARENT,
+        getSliceProgress({ ...PARENT, slicesPlaced: 3 }, [child('open', 100, 0, 0)]),
+        NOW
+      ),
+      exhausted: getSliceState(
+        PARENT,
+        getSliceProgress({ ...PARENT, slicesPlaced: 3 }, [child('cancelled', 100, 150, 60)]),
+        NOW
+      ),
+      filled: getSliceState(
+        PARENT,
+        getSliceProgress(PARENT, [child('filled', 300, 749.98, 299.995)]), // Within tolerance
+        NOW
+      ),
+    };
+    const wrong = Object.entries(states).filter(([expected, actual]) => expected !== actual);
+    if (wrong.length > 0) {
+      throw new Error(`Unexpected slice states: ${JSON.stringify(states)}`);
+    }
+    logger.info({ states }, '✅ Due, scheduled, resting, exhausted and filled parents told apart');
+
+    // Test 5: Child trades carry an explicit size and no slicing or position sizing
+    logger.info('📝 Test 5: Building a slice trade...');
+    const parentTrade: SizedTrade = {
+      marketTokenId: '1234567890',
+      outcome: 'YES',
+      side: 'SELL',
+      orderType: 'LIMIT',
+      price: 0.6,
+      size: 10,
+      sizeUnit: 'shares',
+      percentOfPosition: 50,
+      slicing: { slices: 3, intervalMinutes: 10 },
+    };
+    const sliceTrade = toSliceTrade(parentTrade, 10 / 3);
+    if (
+      sliceTrade.size !== 3.333333 ||
+      sliceTrade.percentOfPosition !== undefined ||
+      sliceTrade.slicing !== undefined ||
+      sliceTrade.price !== 0.6
+    ) {
+      throw new Error(`Unexpected slice trade: ${JSON.stringify(sliceTrade)}`);
+    }
+    logger.info({ size: sliceTrade.size }, '✅ Slice trade sized explicitly');
+
+    // Summary
+    logger.info('');
+    logger.info('🎉 Slice schedule checks passed:');
+    logger.info('  ✅ Child fills summed in the parent size unit');
+    logger.info('  ✅ Only working children count as resting');
+    logger.info('  ✅ Next slice catches up on unfilled size');
+    logger.info('  ✅ Parent states follow progress and schedule');
+    logger.info('  ✅ Slice trades sized explicitly');
+  } catch (error) {
+    logger.error(
+      { error: error instanceof Error ? error.message : String(error) },
+      '❌ Test failed'
+    );
+    process.exitCode = 1;
+  }
+}
+
+// Run tests
+runTests();
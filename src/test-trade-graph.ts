@@ -0,0 +1,163 @@
+#!/usr/bin/env tsx
+/**
+ * Trade Graph Test Script - Verify dependency ordering and conditions
+ *
+ * This script tests that we can:
+ * 1. Keep the listed order for plans without dependencies
+ * 2. Execute each trade after the trades it depends on, listed order first
+ * 3. Reject cycles and unknown trade IDs
+ * 4. Evaluate filled / not_filled / fill_price_below conditions
+ * 5. Skip a trade on its first unmet or unexecuted dependency
+ *
+ * Pure in-memory checks: no database or network access.
+ *
+ * Usage: pnpm run test:trade-graph
+ */
+
+import { logger } from './infrastructure/logging/logger.js';
+import {
+  checkDependency,
+  getExecutionOrder,
+  getUnmetDependency,
+  type DependencyResult,
+} from './features/executor/trade-graph.js';
+import type { Trade, TradeDependency } from './domain/schemas/trade-plan.schema.js';
+
+/**
+ * MARKET BUY with an optional id and dependencies
+ */
+function trade(id?: string, dependsOn?: TradeDependency[]): Trade {
+  return {
+    id,
+    marketTokenId: '1234567890',
+    outcome: 'YES',
+    side: 'BUY',
+    orderType: 'MARKET',
+    size: 10,
+    dependsOn,
+  };
+}
+
+/**
+ * Dependency on a trade filling
+ */
+function filled(tradeId: string): TradeDependency {
+  return { tradeId, condition: 'filled' };
+}
+
+/**
+ * Fail unless getExecutionOrder throws an error mentioning the expected text
+ */
+function expectOrderError(label: string, trades: Trade[], expected: string): void {
+  try {
+    getExecutionOrder(trades);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes(expected)) {
+      return;
+    }
+    throw error;
+  }
+  throw new Error(`${label}: expected an error mentioning '${expected}'`);
+}
+
+const FILLED: DependencyResult = { status: 'filled', quantity: 25, fillPrice: 0.4 };
+const RESTING: DependencyResult = { status: 'open', quantity: 0 };
+
+function runTests() {
+  try {
+    // Test 1: Plans without dependencies keep their listed order
+    logger.info('📝 Test 1: Ordering a plan without dependencies...');
+    const listed = getExecutionOrder([trade(), trade('a'), trade()]);
+    if (listed.join(',') !== '0,1,2') {
+      throw new Error(`Unexpected order: ${listed.join(',')}`);
+    }
+    logger.info('✅ Listed order kept');
+
+    // Test 2: Dependencies run first; otherwise the earliest listed trade goes next
+    logger.info('📝 Test 2: Ordering a dependency graph...');
+    const graph = getExecutionOrder([
+      trade('exit', [filled('entry')]), // 0
+      trade('hedge', [filled('entry'), filled('exit')]), // 1
+      trade('entry'), // 2
+      trade(), // 3
+    ]);
+    if (graph.join(',') !== '2,0,1,3') {
+      throw new Error(`Unexpected order: ${graph.join(',')}`);
+    }
+    logger.info({ order: graph }, '✅ Dependencies execute before their dependents');
+
+    // Test 3: Cycles and unknown IDs are rejected
+    logger.info('📝 Test 3: Rejecting invalid graphs...');
+    expectOrderError('Two-trade cycle', [trade('a', [filled('b')]), trade('b', [filled('a')])], 'cycle');
+    expectOrderError('Self dependency', [trade('a', [filled('a')])], 'cycle');
+    expectOrderError('Unknown trade', [trade('a', [filled('missing')])], "unknown trade ID 'missing'");
+    logger.info('✅ Cycles and unknown trade IDs rejected');
+
+    // Test 4: Conditions hold against the referenced trade's result
+    logger.info('📝 Test 4: Evaluating dependency conditions...');
+    const below = (price: number): TradeDependency => ({
+      tradeId: 'a',
+      condition: 'fill_price_below',
+      price,
+    });
+    const checks = {
+      filledOnFill: checkDependency(filled('a'), FILLED),
+      filledOnResting: checkDependency(filled('a'), RESTING),
+      notFilledOnResting: checkDependency({ tradeId: 'a', condition: 'not_filled' }, RESTING),
+      notFilledOnFill: checkDependency({ tradeId: 'a', condition: 'not_filled' }, FILLED),
+      belowMet: checkDependency(below(0.45), FILLED),
+      belowMissed: checkDependency(below(0.4), FILLED),
+      belowUnfilled: checkDependency(below(0.45), RESTING),
+    };
+    if (
+      checks.filledOnFill !== undefined ||
+      checks.filledOnResting !== "Dependency 'a' not filled (open)" ||
+      checks.notFilledOnResting !== undefined ||
+      checks.notFilledOnFill !== "Dependency 'a' filled" ||
+      checks.belowMet !== undefined ||
+      checks.belowMissed !== "Dependency 'a' filled at 0.4000, not below 0.4" ||
+      checks.belowUnfilled !== "Dependency 'a' has no fill (open)"
+    ) {
+      throw new Error(`Unexpected condition results: ${JSON.stringify(checks)}`);
+    }
+    logger.info('✅ filled / not_filled / fill_price_below evaluated');
+
+    // Test 5: The first unmet dependency names the reason the trade is skipped
+    logger.info('📝 Test 5: Finding unmet dependencies...');
+    const results = new Map<string, DependencyResult>([
+      ['a', FILLED],
+      ['b', RESTING],
+    ]);
+    const unmet = {
+      met: getUnmetDependency(trade('x', [filled('a')]), results),
+      unfilled: getUnmetDependency(trade('x', [filled('a'), filled('b')]), results),
+      unexecuted: getUnmetDependency(trade('x', [filled('c'), filled('b')]), results),
+    };
+    if (
+      unmet.met !== undefined ||
+      unmet.unfilled !== "Dependency 'b' not filled (open)" ||
+      unmet.unexecuted !== "Dependency 'c' has not executed"
+    ) {
+      throw new Error(`Unexpected unmet dependencies: ${JSON.stringify(unmet)}`);
+    }
+    logger.info('✅ First unmet dependency reported');
+
+    // Summary
+    logger.info('');
+    logger.info('🎉 Trade graph checks passed:');
+    logger.info('  ✅ Plans without dependencies keep their order');
+    logger.info('  ✅ Dependencies execute before their dependents');
+    logger.info('  ✅ Cycles and unknown trade IDs rejected');
+    logger.info('  ✅ Dependency conditions evaluated');
+    logger.info('  ✅ Unmet dependencies skip the trade');
+  } catch (error) {
+    logger.error(
+      { error: error instanceof Error ? error.message : String(error) },
+      '❌ Test failed'
+    );
+    process.exitCode = 1;
+  }
+}
+
+// Run tests
+runTests();
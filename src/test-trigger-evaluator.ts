@@ -0,0 +1,136 @@
+#!/usr/bin/env tsx
+/**
+ * Trigger Evaluator Test Script - Verify when trigger orders fire
+ *
+ * This script tests that we can:
+ * 1. Fire STOP / TAKE_PROFIT orders on the right side of their trigger price
+ * 2. Convert a fired trigger into the MARKET or LIMIT order it places
+ * 3. Place a trailing stop a fixed offset or percentage below its high-water mark
+ * 4. Ratchet a trailing stop up with new highs only, firing once the price
+ *    falls back to the stop
+ *
+ * Pure in-memory checks: no database or network access.
+ *
+ * Usage: pnpm run test:trigger-evaluator
+ */
+
+import { logger } from './infrastructure/logging/logger.js';
+import {
+  isTriggered,
+  raiseHighWaterMark,
+  toTriggeredTrade,
+  trailingStopPrice,
+} from './features/triggers/trigger-evaluator.js';
+import type { Trade, TriggerOrderType } from './domain/schemas/trade-plan.schema.js';
+
+/**
+ * Trigger firing cases: [orderType, side, triggerPrice, referencePrice, fires]
+ */
+const FIRING_CASES: Array<[TriggerOrderType, 'BUY' | 'SELL', number, number, boolean]> = [
+  ['STOP', 'SELL', 0.4, 0.41, false], // Stop-loss below the market waits
+  ['STOP', 'SELL', 0.4, 0.4, true], // ...and fires once the price falls to it
+  ['STOP', 'BUY', 0.6, 0.59, false], // Buy stop above the market waits
+  ['STOP', 'BUY', 0.6, 0.61, true], // ...and fires once the price rises through it
+  ['TAKE_PROFIT', 'SELL', 0.7, 0.69, false],
+  ['TAKE_PROFIT', 'SELL', 0.7, 0.7, true],
+  ['TAKE_PROFIT', 'BUY', 0.3, 0.31, false],
+  ['TAKE_PROFIT', 'BUY', 0.3, 0.29, true],
+  ['TRAILING_STOP', 'SELL', 0.45, 0.46, false],
+  ['TRAILING_STOP', 'SELL', 0.45, 0.44, true],
+];
+
+/**
+ * Fail unless two prices are equal (to the micro-unit)
+ */
+function expectPrice(label: string, actual: number | undefined, expected: number): void {
+  if (actual === undefined || Math.abs(actual - expected) > 0.000001) {
+    throw new Error(`${label}: expected ${expected}, got ${actual}`);
+  }
+}
+
+function runTests() {
+  try {
+    // Test 1: Each trigger fires on the correct side of its trigger price
+    logger.info('📝 Test 1: Evaluating trigger prices...');
+    for (const [orderType, side, triggerPrice, referencePrice, fires] of FIRING_CASES) {
+      if (isTriggered(orderType, side, triggerPrice, referencePrice) !== fires) {
+        throw new Error(
+          `${orderType} ${side} @ ${triggerPrice} with reference ${referencePrice}: expected ${fires ? 'fire' : 'wait'}`
+        );
+      }
+    }
+    logger.info({ cases: FIRING_CASES.length }, '✅ Triggers fire on the correct side of their price');
+
+    // Test 2: Fired triggers place MARKET orders, or LIMIT orders when they set a price
+    logger.info('📝 Test 2: Converting fired triggers into orders...');
+    const stop: Trade = {
+      marketTokenId: '1234567890',
+      outcome: 'YES',
+      side: 'SELL',
+      orderType: 'STOP',
+      size: 10,
+      triggerPrice: 0.4,
+      triggerReference: 'last_trade',
+      minPrice: 0.35,
+    };
+    const market = toTriggeredTrade(stop);
+    const limit = toTriggeredTrade({ ...stop, price: 0.38 });
+    if (
+      market.orderType !== 'MARKET' ||
+      market.minPrice !== 0.35 ||
+      market.triggerPrice !== undefined ||
+      market.triggerReference !== undefined ||
+      limit.orderType !== 'LIMIT' ||
+      limit.price !== 0.38
+    ) {
+      throw new Error(`Unexpected triggered trades: ${JSON.stringify({ market, limit })}`);
+    }
+    logger.info('✅ Fired triggers become MARKET (keeping minPrice) or LIMIT orders');
+
+    // Test 3: Trailing stops sit a fixed offset or percentage below the mark
+    logger.info('📝 Test 3: Placing trailing stop levels...');
+    expectPrice('Offset stop', trailingStopPrice(0.6, 0.05), 0.55);
+    expectPrice('Percent stop', trailingStopPrice(0.6, undefined, 10), 0.54);
+    expectPrice('Stop floored at zero', trailingStopPrice(0.03, 0.05), 0);
+    logger.info('✅ Trailing stop levels follow offset or percent');
+
+    // Test 4: The mark only rises; the stop fires once the price falls back to it
+    logger.info('📝 Test 4: Ratcheting a trailing stop along a price path...');
+    let highWaterMark = 0.5;
+    let stopPrice = trailingStopPrice(highWaterMark, 0.05);
+    const path = [0.52, 0.51, 0.55, 0.53, 0.5];
+    const fired: number[] = [];
+    for (const referencePrice of path) {
+      const raised = raiseHighWaterMark(highWaterMark, referencePrice, 0.05);
+      if (raised) {
+        highWaterMark = raised.highWaterMark;
+        stopPrice = raised.triggerPrice;
+      }
+      if (isTriggered('TRAILING_STOP', 'SELL', stopPrice, referencePrice)) {
+        fired.push(referencePrice);
+      }
+    }
+    expectPrice('High-water mark', highWaterMark, 0.55);
+    expectPrice('Stop level', stopPrice, 0.5);
+    if (fired.join(',') !== '0.5' || raiseHighWaterMark(0.55, 0.55, 0.05) !== null) {
+      throw new Error(`Trailing stop fired at ${JSON.stringify(fired)}, expected only at 0.5`);
+    }
+    logger.info({ highWaterMark, stopPrice }, '✅ Trailing stop ratcheted up and fired on the pullback');
+
+    // Summary
+    logger.info('');
+    logger.info('🎉 Trigger evaluator checks passed:');
+    logger.info('  ✅ STOP / TAKE_PROFIT fire on the correct side of their price');
+    logger.info('  ✅ Fired triggers place MARKET or LIMIT orders');
+    logger.info('  ✅ Trailing stops ratchet up with new highs only');
+  } catch (error) {
+    logger.error(
+      { error: error instanceof Error ? error.message : String(error) },
+      '❌ Test failed'
+    );
+    process.exitCode = 1;
+  }
+}
+
+// Run tests
+runTests();